@@ -2,32 +2,7 @@ import process from "process";
 
 import axios from "axios";
 
-const portal = "siasky.net";
-const servers = [
-  "as-hk-1",
-  "eu-fin-1",
-  "eu-fin-2",
-  "eu-fin-3",
-  "eu-fin-4",
-  "eu-ger-1",
-  "eu-ger-2",
-  "eu-ger-3",
-  "eu-ger-4",
-  "eu-ger-5",
-  "eu-ger-6",
-  "eu-ger-7",
-  "eu-ger-8",
-  "eu-pol-1",
-  "eu-pol-2",
-  "eu-pol-3",
-  "us-or-1",
-  "us-or-2",
-  "us-pa-1",
-  "us-pa-2",
-  "us-va-1",
-  "us-va-2",
-  "us-va-3",
-].map((server) => `https://${server}.${portal}`);
+import { SIASKY_NET_SERVERS } from "../src/portal_pool";
 
 /**
  * Filter array asynchronously.
@@ -49,7 +24,7 @@ let healthy_servers: Array<string> = [];
   // 1. it's up
   // 2. it's not disabled
   // 3. it's healthy (all of its checks show "up: true")
-  healthy_servers = await filter(servers, async (server: string) => {
+  healthy_servers = await filter(SIASKY_NET_SERVERS, async (server: string) => {
     const url = `${server}/health-check`;
 
     try {
@@ -0,0 +1,79 @@
+import axios from "axios";
+import MockAdapter from "axios-mock-adapter";
+
+import { SkynetClient, DEFAULT_SKYNET_PORTAL_URL, genKeyPairFromSeed } from "./index";
+import { AbortError } from "./errors";
+import { TransportRequest, TransportResponse } from "./transport";
+
+const portalUrl = DEFAULT_SKYNET_PORTAL_URL;
+const client = new SkynetClient(portalUrl);
+const skylink = "XABvi7JtJbQSMAcDwnUnmp2FKDPjg8_tTTFP4BwMSxVdEg";
+const downloadUrl = `${portalUrl}/${skylink}`;
+
+describe("signal", () => {
+  let mock: MockAdapter;
+
+  beforeEach(() => {
+    mock = new MockAdapter(axios);
+    mock.resetHistory();
+  });
+
+  it("should not send the request if the signal was already aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(client.getFileContent(skylink, { signal: controller.signal })).rejects.toThrowError(AbortError);
+    expect(mock.history.get.length).toBe(0);
+  });
+
+  it("should reject with an AbortError when aborted during the request", async () => {
+    const controller = new AbortController();
+    mock.onGet(downloadUrl).replyOnce(() => {
+      controller.abort();
+      return [200, "foo", {}];
+    });
+
+    const promise = client.getFileContent(skylink, { signal: controller.signal });
+
+    await expect(promise).rejects.toThrowError(AbortError);
+    await expect(promise).rejects.toThrowError("The operation was aborted");
+  });
+
+  it("should abort waiting for a retry", async () => {
+    const controller = new AbortController();
+    mock.onGet(downloadUrl).reply(503);
+    const retry = {
+      maxAttempts: 3,
+      initialDelay: 60_000,
+      onRetry: () => controller.abort(),
+    };
+
+    await expect(client.getFileContent(skylink, { retry, signal: controller.signal })).rejects.toThrowError(AbortError);
+    expect(mock.history.get.length).toBe(1);
+  });
+
+  it("should abort the registry lookup of setJSON when the upload fails", async () => {
+    const { privateKey } = genKeyPairFromSeed("insecure test seed");
+    let lookupAborted = false;
+    const transport = (request: TransportRequest): Promise<TransportResponse> => {
+      if (request.method === "post") {
+        return Promise.reject(
+          Object.assign(new Error("Request failed with status code 400"), { response: { status: 400 } })
+        );
+      }
+      // Never respond to the registry lookup unless aborted.
+      return new Promise((_, reject) => {
+        request.signal?.addEventListener("abort", () => {
+          lookupAborted = true;
+          reject(new AbortError());
+        });
+      });
+    };
+    const client = new SkynetClient(portalUrl, { transport });
+
+    await expect(client.db.setJSON(privateKey, "app", { foo: "bar" })).rejects.toThrowError(
+      "Request failed with status code 400"
+    );
+    expect(lookupAborted).toBeTruthy();
+  });
+});
@@ -0,0 +1,126 @@
+import { AbortError, SkynetClient, DEFAULT_SKYNET_PORTAL_URL, UploadProgress } from "./index";
+import { TransportRequest, TransportResponse } from "./transport";
+
+const portalUrl = DEFAULT_SKYNET_PORTAL_URL;
+const skylink = "XABvi7JtJbQSMAcDwnUnmp2FKDPjg8_tTTFP4BwMSxVdEg";
+const sialink = `sia://${skylink}`;
+
+describe("uploadFiles", () => {
+  const files = ["foo.txt", "bar.txt", "baz.txt"].map((name) => new File(["abcd"], name, { type: "text/plain" }));
+  let uploaded: string[];
+  let failing: Set<string>;
+  let inFlight: number;
+  let maxInFlight: number;
+  let client: SkynetClient;
+
+  beforeEach(() => {
+    uploaded = [];
+    failing = new Set();
+    inFlight = 0;
+    maxInFlight = 0;
+    const transport = async (request: TransportRequest): Promise<TransportResponse> => {
+      const { name } = (request.data as FormData).get("file") as File;
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      inFlight--;
+      request.onUploadProgress?.({ loaded: 4, total: 4 } as ProgressEvent);
+      if (failing.has(name)) {
+        throw new Error(`Failed to upload ${name}`);
+      }
+      uploaded.push(name);
+      return { data: { skylink, merkleroot: "", bitfield: 0 }, status: 200, headers: {} };
+    };
+    client = new SkynetClient(portalUrl, { transport });
+  });
+
+  it("should upload all files and return their skylinks in order", async () => {
+    const results = await client.uploadFiles(files);
+
+    expect(results).toEqual(files.map((file) => ({ file, skylink: sialink })));
+    expect(uploaded.sort()).toEqual(["bar.txt", "baz.txt", "foo.txt"]);
+  });
+
+  it("should limit the number of files uploaded at the same time", async () => {
+    await client.uploadFiles(files, { concurrency: 2 });
+
+    expect(maxInFlight).toEqual(2);
+  });
+
+  it("should not pass the number of files uploaded at the same time to the file uploads", async () => {
+    const uploadFile = jest.spyOn(client, "uploadFile");
+
+    await client.uploadFiles(files, { concurrency: 2 });
+
+    expect(uploadFile).toHaveBeenCalledTimes(3);
+    for (const [, customOptions] of uploadFile.mock.calls) {
+      expect(customOptions).not.toHaveProperty("concurrency");
+    }
+  });
+
+  it("should report the aggregated and per-file progress", async () => {
+    const onUploadProgress = jest.fn();
+    const fileProgress: Array<[number, number, UploadProgress]> = [];
+
+    await client.uploadFiles(files, {
+      concurrency: 1,
+      onUploadProgress,
+      onFileProgress: (index, progress, details) => fileProgress.push([index, progress, details]),
+    });
+
+    expect(fileProgress.map(([index, progress]) => [index, progress])).toEqual([
+      [0, 1],
+      [1, 1],
+      [2, 1],
+    ]);
+    expect(onUploadProgress.mock.calls.map(([progress]) => progress)).toEqual([1 / 3, 2 / 3, 1]);
+    expect(onUploadProgress.mock.calls[2][2]).toEqual(expect.objectContaining({ loaded: 12, total: 12, retries: 0 }));
+  });
+
+  it("should return the errors of failed files and retry only those", async () => {
+    failing.add("bar.txt");
+
+    const results = await client.uploadFiles(files);
+
+    expect(results[0]).toEqual({ file: files[0], skylink: sialink });
+    expect(results[1].file).toBe(files[1]);
+    expect(results[1].skylink).toBeUndefined();
+    expect(results[1].error?.message).toEqual("Failed to upload bar.txt");
+    expect(results[2]).toEqual({ file: files[2], skylink: sialink });
+
+    failing.clear();
+    uploaded = [];
+    const retried = await client.uploadFiles(results);
+
+    expect(uploaded).toEqual(["bar.txt"]);
+    expect(retried).toEqual(files.map((file) => ({ file, skylink: sialink })));
+  });
+
+  it("should stop after the first failure if continueOnError is false", async () => {
+    failing.add("foo.txt");
+
+    const results = await client.uploadFiles(files, { concurrency: 1, continueOnError: false });
+
+    expect(results[0].error?.message).toEqual("Failed to upload foo.txt");
+    expect(results[1].error).toBeInstanceOf(AbortError);
+    expect(results[2].error).toBeInstanceOf(AbortError);
+    expect(uploaded).toEqual([]);
+  });
+
+  it.each([
+    ["concurrency", { concurrency: 0 }, "Expected option 'concurrency' to be a positive integer, was '0'"],
+    ["files", undefined, "Expected parameter 'files' to be type 'array', was type 'undefined'"],
+  ])("should throw if %s is invalid", async (name, customOptions, message) => {
+    const input = name === "files" ? undefined : files;
+
+    // @ts-expect-error We pass an invalid value on purpose.
+    await expect(client.uploadFiles(input, customOptions)).rejects.toThrowError(message);
+  });
+
+  it("should throw if a file is invalid", async () => {
+    // @ts-expect-error We pass an invalid value on purpose.
+    await expect(client.uploadFiles([files[0], "foo"])).rejects.toThrowError(
+      "Expected parameter 'files[1]' to be type 'File' or an upload result, was type 'string', value 'foo'"
+    );
+  });
+});
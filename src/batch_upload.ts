@@ -0,0 +1,160 @@
+import { SkynetClient } from "./client";
+import { AbortError, ValidationError } from "./errors";
+import { UploadProgress, UploadProgressTracker } from "./progress";
+import { CustomUploadOptions, DEFAULT_UPLOAD_OPTIONS } from "./upload";
+import { createLinkedAbortController } from "./utils/abort";
+import { extractOptions } from "./utils/options";
+import { throwValidationError, validateOptionalObject } from "./utils/validation";
+
+/**
+ * Custom options for uploading many files.
+ *
+ * @property [concurrency=4] - The maximum number of files uploaded at the same time.
+ * @property [continueOnError=true] - Whether to continue with the remaining files after an upload failed. If false, the uploads in flight are aborted and the files not uploaded yet fail with an `AbortError`.
+ * @property [onFileProgress] - Optional callback to track the progress of every file. `onUploadProgress` receives the aggregated progress of all files.
+ */
+export type CustomUploadFilesOptions = Omit<CustomUploadOptions, "concurrency"> & {
+  concurrency?: number;
+  continueOnError?: boolean;
+  onFileProgress?: (index: number, progress: number, details: UploadProgress) => void;
+};
+
+/**
+ * The result of uploading one of many files. Passing the results to
+ * `uploadFiles` again retries the failed files only.
+ *
+ * @property file - The uploaded file.
+ * @property [skylink] - The skylink of the file, if the upload succeeded.
+ * @property [error] - The error, if the upload failed.
+ */
+export type UploadFilesResult = {
+  file: File;
+  skylink?: string;
+  error?: Error;
+};
+
+export const DEFAULT_UPLOAD_FILES_OPTIONS = {
+  ...DEFAULT_UPLOAD_OPTIONS,
+
+  concurrency: 4,
+  continueOnError: true,
+  onFileProgress: undefined,
+};
+
+/**
+ * Uploads many files to Skynet, each one using a small or large upload
+ * depending on its size. Failed uploads don't fail the batch, the result of
+ * every file contains either its skylink or the error.
+ *
+ * @param this - SkynetClient
+ * @param files - The files to upload. Results of a previous call are uploaded again only if they failed.
+ * @param [customOptions] - Additional settings that can optionally be set.
+ * @param [customOptions.concurrency=4] - The maximum number of files uploaded at the same time.
+ * @param [customOptions.continueOnError=true] - Whether to continue with the remaining files after an upload failed.
+ * @returns - The results, in the order of the given files.
+ * @throws - Will throw if the input is not valid.
+ */
+export async function uploadFiles(
+  this: SkynetClient,
+  files: Array<File | UploadFilesResult>,
+  customOptions?: CustomUploadFilesOptions
+): Promise<UploadFilesResult[]> {
+  validateUploadFilesInput("files", files, "parameter");
+  validateOptionalObject("customOptions", customOptions, "parameter", DEFAULT_UPLOAD_FILES_OPTIONS);
+
+  const opts = { ...DEFAULT_UPLOAD_FILES_OPTIONS, ...this.customOptions, ...customOptions };
+  // The `concurrency` client option holds the limits of the request scheduler instead.
+  const concurrency = customOptions?.concurrency ?? DEFAULT_UPLOAD_FILES_OPTIONS.concurrency;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new ValidationError(
+      `Expected option 'concurrency' to be a positive integer, was '${concurrency}'`,
+      "concurrency",
+      "option"
+    );
+  }
+  const uploadOpts = extractOptions(opts, DEFAULT_UPLOAD_OPTIONS);
+  // Don't pass the number of files on as the limits of the request scheduler.
+  delete uploadOpts.concurrency;
+
+  const results: UploadFilesResult[] = files.map((file) => (file instanceof File ? { file } : file));
+  // Files which were uploaded by a previous call are kept.
+  const pending = results.map((_, index) => index).filter((index) => !results[index].skylink);
+
+  // The bytes sent and retries per file, for the aggregated progress.
+  const loaded: number[] = results.map(() => 0);
+  const retries: number[] = results.map(() => 0);
+  const total = pending.reduce((sum, index) => sum + results[index].file.size, 0);
+  const tracker = new UploadProgressTracker();
+  const reportProgress = (index: number, progress: number, details: UploadProgress) => {
+    loaded[index] = progress * results[index].file.size;
+    retries[index] = details.retries;
+    if (opts.onFileProgress) {
+      opts.onFileProgress(index, progress, details);
+    }
+    if (opts.onUploadProgress) {
+      const loadedTotal = loaded.reduce((sum, fileLoaded) => sum + fileLoaded, 0);
+      const event = { lengthComputable: true, loaded: loadedTotal, total } as ProgressEvent;
+      opts.onUploadProgress(total ? loadedTotal / total : 1, event, {
+        ...tracker.update(loadedTotal, total),
+        retries: retries.reduce((sum, fileRetries) => sum + fileRetries, 0),
+      });
+    }
+  };
+
+  // Stops the remaining uploads if `continueOnError` is false.
+  const [controller, unlinkController] = createLinkedAbortController(opts.signal);
+  const uploadNext = async (): Promise<void> => {
+    for (;;) {
+      const index = pending.shift();
+      if (index === undefined) {
+        return;
+      }
+      const { file } = results[index];
+      if (controller.signal.aborted) {
+        results[index] = { file, error: new AbortError() };
+        continue;
+      }
+
+      try {
+        const { skylink } = await this.uploadFile(file, {
+          ...uploadOpts,
+          signal: controller.signal,
+          onUploadProgress: (progress, _, details) => reportProgress(index, progress, details),
+        });
+        results[index] = { file, skylink };
+      } catch (err) {
+        results[index] = { file, error: err as Error };
+        if (!opts.continueOnError) {
+          controller.abort();
+        }
+      }
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: Math.min(concurrency, pending.length) }, uploadNext));
+  } finally {
+    unlinkController();
+  }
+  return results;
+}
+
+/**
+ * Validates the files to upload.
+ *
+ * @param name - The name of the value.
+ * @param value - The actual value.
+ * @param valueKind - The kind of value that is being checked (e.g. "parameter", "response field", etc.)
+ * @throws - Will throw if not an array of files or upload results.
+ */
+function validateUploadFilesInput(name: string, value: unknown, valueKind: string): void {
+  if (!Array.isArray(value)) {
+    throwValidationError(name, value, valueKind, "type 'array'");
+    return;
+  }
+  value.forEach((file, index) => {
+    if (!(file instanceof File) && !(file?.file instanceof File)) {
+      throwValidationError(`${name}[${index}]`, file, valueKind, "type 'File' or an upload result");
+    }
+  });
+}
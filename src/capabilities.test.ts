@@ -0,0 +1,145 @@
+import axios from "axios";
+import MockAdapter from "axios-mock-adapter";
+
+import { SkynetClient, DEFAULT_SKYNET_PORTAL_URL, URI_SKYNET_PREFIX } from "./index";
+
+const portalUrl = DEFAULT_SKYNET_PORTAL_URL;
+const client = new SkynetClient(portalUrl);
+const skylink = "XABvi7JtJbQSMAcDwnUnmp2FKDPjg8_tTTFP4BwMSxVdEg";
+
+describe("getPortalCapabilities", () => {
+  let mock: MockAdapter;
+
+  beforeEach(async () => {
+    mock = new MockAdapter(axios);
+    mock.resetHistory();
+    await client.invalidatePortalCapabilities();
+  });
+
+  it("should query and cache the portal capabilities", async () => {
+    mock.onOptions(`${portalUrl}/skynet/tus`).replyOnce(204, undefined, {
+      "tus-version": "1.0.0",
+      "tus-extension": "creation,creation-with-upload,termination,concatenation",
+      "tus-max-size": "1000",
+    });
+    mock.onOptions(`${portalUrl}/skynet/resolve`).replyOnce(204);
+    mock.onGet(`${portalUrl}/api/user/limits`).replyOnce(200, { maxUploadSize: 2000 });
+
+    const capabilities = await client.getPortalCapabilities();
+
+    expect(capabilities).toEqual({
+      portalUrl,
+      endpoints: { largeUpload: true, resolve: true },
+      tus: {
+        version: "1.0.0",
+        extensions: ["creation", "creation-with-upload", "termination", "concatenation"],
+        maxSize: 1000,
+      },
+      maxUploadSize: 2000,
+    });
+
+    // The capabilities should be cached for all clients.
+    await new SkynetClient(portalUrl).getPortalCapabilities();
+    expect(mock.history.options.length).toEqual(2);
+    expect(mock.history.get.length).toEqual(1);
+  });
+
+  it("should not limit the upload size if the portal does not have accounts", async () => {
+    mock.onOptions().reply(404);
+    mock.onGet(`${portalUrl}/api/user/limits`).replyOnce(404);
+
+    const capabilities = await client.getPortalCapabilities();
+
+    expect(capabilities).toEqual({
+      portalUrl,
+      endpoints: { largeUpload: false, resolve: false },
+      tus: { version: undefined, extensions: [], maxSize: undefined },
+      maxUploadSize: undefined,
+    });
+  });
+
+  it("should not cache failed queries", async () => {
+    mock.onOptions().networkErrorOnce();
+    mock.onOptions().reply(204);
+
+    await expect(client.getPortalCapabilities()).rejects.toThrowError("Network Error");
+    const capabilities = await client.getPortalCapabilities();
+
+    expect(capabilities.endpoints.largeUpload).toBeTruthy();
+  });
+
+  it("should not cache the capabilities if a probe failed", async () => {
+    mock.onOptions(`${portalUrl}/skynet/tus`).replyOnce(503);
+    mock.onOptions(`${portalUrl}/skynet/tus`).replyOnce(204);
+    mock.onOptions().reply(405);
+
+    // The endpoint is assumed to be supported until the portal responds again.
+    const capabilities = await client.getPortalCapabilities();
+    expect(capabilities.endpoints.largeUpload).toBeTruthy();
+    expect(capabilities.tus.extensions).toEqual([]);
+    const secondCapabilities = await client.getPortalCapabilities();
+    expect(secondCapabilities.endpoints.largeUpload).toBeTruthy();
+    await client.getPortalCapabilities();
+
+    expect(mock.history.options.length).toEqual(4);
+  });
+
+  it("should query the portal again for other endpoints", async () => {
+    mock.onOptions(`${portalUrl}/custom/tus`).reply(204);
+    mock.onOptions().reply(404);
+
+    const capabilities = await client.getPortalCapabilities();
+    const customCapabilities = await client.getPortalCapabilities({ endpointLargeUpload: "/custom/tus" });
+    await client.getPortalCapabilities({ endpointLargeUpload: "/custom/tus" });
+
+    expect(capabilities.endpoints.largeUpload).toBeFalsy();
+    expect(customCapabilities.endpoints.largeUpload).toBeTruthy();
+    expect(mock.history.options.length).toEqual(4);
+  });
+
+  it("should query the portal again after the capabilities were invalidated", async () => {
+    mock.onOptions().reply(204);
+
+    await client.getPortalCapabilities();
+    await client.invalidatePortalCapabilities();
+    await client.getPortalCapabilities();
+
+    expect(mock.history.options.length).toEqual(4);
+  });
+});
+
+describe("uploadFile with portal capabilities", () => {
+  let mock: MockAdapter;
+
+  beforeEach(async () => {
+    mock = new MockAdapter(axios);
+    mock.resetHistory();
+    await client.invalidatePortalCapabilities();
+  });
+
+  it("should fall back to a regular upload if the portal does not support tus", async () => {
+    mock.onOptions().reply(404);
+    mock.onPost(`${portalUrl}/skynet/skyfile`).replyOnce(200, { skylink });
+    const file = new File(["foo"], "bar.txt", { type: "text/plain" });
+
+    const { skylink: returnedSkylink } = await client.uploadFile(file, { largeFileSize: 1 });
+
+    expect(returnedSkylink).toEqual(`${URI_SKYNET_PREFIX}${skylink}`);
+    expect(mock.history.post.length).toEqual(1);
+  });
+
+  it.each([
+    ["a regular", 404],
+    ["a large", 204],
+  ])("should throw if %s upload exceeds the upload limit of the user", async (_, tusStatus) => {
+    mock.onOptions(`${portalUrl}/skynet/tus`).reply(tusStatus);
+    mock.onOptions().reply(404);
+    mock.onGet(`${portalUrl}/api/user/limits`).replyOnce(200, { maxUploadSize: 2 });
+    const file = new File(["foo"], "bar.txt", { type: "text/plain" });
+
+    await expect(client.uploadFile(file, { largeFileSize: 1 })).rejects.toThrowError(
+      "File size 3 exceeds the maximum upload size of the portal (2 bytes)"
+    );
+    expect(mock.history.post.length).toEqual(0);
+  });
+});
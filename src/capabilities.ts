@@ -0,0 +1,246 @@
+import { SkynetClient } from "./client";
+import { PortalResponseError } from "./errors";
+import { TransportResponse } from "./transport";
+import { BaseCustomOptions, DEFAULT_BASE_OPTIONS } from "./utils/options";
+import { validateOptionalObject } from "./utils/validation";
+
+/**
+ * Custom portal capabilities options.
+ *
+ * @property [endpointLargeUpload] - The relative URL path of the tus endpoint to probe.
+ * @property [endpointResolve] - The relative URL path of the resolve endpoint to probe.
+ * @property [endpointUserLimits] - The relative URL path of the endpoint reporting the upload limits of the user.
+ */
+export type CustomPortalCapabilitiesOptions = BaseCustomOptions & {
+  endpointLargeUpload?: string;
+  endpointResolve?: string;
+  endpointUserLimits?: string;
+};
+
+/**
+ * The endpoints which are not supported by every portal.
+ *
+ * @property largeUpload - Whether the portal supports tus uploads.
+ * @property resolve - Whether the portal supports resolving skylinks.
+ */
+export type PortalEndpoints = {
+  largeUpload: boolean;
+  resolve: boolean;
+};
+
+/**
+ * The tus capabilities of a portal.
+ *
+ * @property [version] - The supported tus protocol versions, e.g. "1.0.0".
+ * @property extensions - The supported tus extensions, e.g. "concatenation".
+ * @property [maxSize] - The maximum size of a tus upload in bytes, if limited.
+ */
+export type TusCapabilities = {
+  version?: string;
+  extensions: string[];
+  maxSize?: number;
+};
+
+/**
+ * The capabilities of a portal.
+ *
+ * @property portalUrl - The portal URL that was queried.
+ * @property endpoints - The optional endpoints supported by the portal.
+ * @property tus - The tus capabilities.
+ * @property [maxUploadSize] - The maximum size of an upload in bytes, if limited for the user.
+ */
+export type PortalCapabilities = {
+  portalUrl: string;
+  endpoints: PortalEndpoints;
+  tus: TusCapabilities;
+  maxUploadSize?: number;
+};
+
+/**
+ * The names of the endpoint options.
+ */
+const PORTAL_CAPABILITIES_ENDPOINTS = ["endpointLargeUpload", "endpointResolve", "endpointUserLimits"] as const;
+
+type PortalCapabilitiesEndpoint = typeof PORTAL_CAPABILITIES_ENDPOINTS[number];
+
+/**
+ * The status codes with which portals respond to endpoints they don't serve.
+ */
+const UNSUPPORTED_ENDPOINT_STATUS_CODES = [404, 405];
+
+export const DEFAULT_PORTAL_CAPABILITIES_OPTIONS = {
+  ...DEFAULT_BASE_OPTIONS,
+
+  endpointLargeUpload: "/skynet/tus",
+  endpointResolve: "/skynet/resolve",
+  endpointUserLimits: "/api/user/limits",
+};
+
+/**
+ * The result of probing an endpoint.
+ *
+ * @property supported - Whether the portal serves the endpoint.
+ * @property [response] - The response, if the probe succeeded.
+ */
+type ProbeResult = {
+  supported: boolean;
+  response?: TransportResponse;
+};
+
+/**
+ * The cached portal capabilities, keyed by portal URL and then by the endpoint
+ * options. Failed queries and queries with failed probes are not cached.
+ */
+const portalCapabilities = new Map<string, Map<string, Promise<PortalCapabilities>>>();
+
+/**
+ * Returns the capabilities of the portal. The portal is only queried once per
+ * set of endpoint options, for all Skynet Clients, unless the capabilities are
+ * invalidated with `invalidatePortalCapabilities`. If a probe failed with a
+ * status code other than 404 or 405, e.g. because the portal was temporarily
+ * unavailable, the endpoint is assumed to be supported and the capabilities
+ * are not cached.
+ *
+ * @param this - SkynetClient
+ * @param [customOptions] - Additional settings that can optionally be set.
+ * @returns - The portal capabilities.
+ * @throws - Will throw if the portal could not be reached.
+ */
+export async function getPortalCapabilities(
+  this: SkynetClient,
+  customOptions?: CustomPortalCapabilitiesOptions
+): Promise<PortalCapabilities> {
+  validateOptionalObject("customOptions", customOptions, "parameter", DEFAULT_PORTAL_CAPABILITIES_OPTIONS);
+
+  const opts = { ...DEFAULT_PORTAL_CAPABILITIES_OPTIONS, ...this.customOptions, ...customOptions };
+
+  const portalUrl = await this.portalUrl();
+  const endpoints = JSON.stringify(PORTAL_CAPABILITIES_ENDPOINTS.map((name) => opts[name]));
+  const cache = portalCapabilities.get(portalUrl) ?? new Map<string, Promise<PortalCapabilities>>();
+  portalCapabilities.set(portalUrl, cache);
+  const cached = cache.get(endpoints);
+  if (cached) {
+    return cached;
+  }
+
+  const query = queryPortalCapabilities.call(this, portalUrl, opts);
+  const capabilities = query.then(([capabilities]) => capabilities);
+  cache.set(endpoints, capabilities);
+  const removeFromCache = () => {
+    // Only remove the entry if it wasn't replaced in the meantime.
+    if (cache.get(endpoints) === capabilities) {
+      cache.delete(endpoints);
+    }
+  };
+  query
+    .then(([, cacheable]) => {
+      if (!cacheable) {
+        removeFromCache();
+      }
+    })
+    .catch(removeFromCache);
+  return capabilities;
+}
+
+/**
+ * Clears the cached capabilities of the portal. The next call to
+ * `getPortalCapabilities` will query the portal again.
+ *
+ * @param this - SkynetClient
+ * @returns - An empty promise.
+ */
+export async function invalidatePortalCapabilities(this: SkynetClient): Promise<void> {
+  portalCapabilities.delete(await this.portalUrl());
+}
+
+/**
+ * Queries the capabilities of the portal. The endpoints are probed with
+ * OPTIONS requests, which portals answer for every endpoint they serve. Portals
+ * without accounts don't serve the user limits endpoint.
+ *
+ * @param this - SkynetClient
+ * @param portalUrl - The portal URL.
+ * @param opts - The options.
+ * @returns - The portal capabilities, and whether they can be cached because no probe failed.
+ */
+async function queryPortalCapabilities(
+  this: SkynetClient,
+  portalUrl: string,
+  opts: CustomPortalCapabilitiesOptions & Required<Pick<CustomPortalCapabilitiesOptions, PortalCapabilitiesEndpoint>>
+): Promise<[PortalCapabilities, boolean]> {
+  // Capabilities are cached for all calls, so don't report progress or trace them as part of this call.
+  const requestOpts = {
+    ...opts,
+    onDownloadProgress: undefined,
+    onUploadProgress: undefined,
+    parentSpan: undefined,
+  };
+  let cacheable = true;
+  const probeRequest = (request: Promise<TransportResponse>) => probeEndpoint(request, () => (cacheable = false));
+  const probe = (endpointPath: string) =>
+    probeRequest(this.executeRequest({ ...requestOpts, endpointPath, method: "options" }));
+
+  const [tusProbe, resolveProbe, limitsProbe] = await Promise.all([
+    probe(opts.endpointLargeUpload),
+    probe(opts.endpointResolve),
+    probeRequest(this.executeRequest({ ...requestOpts, endpointPath: opts.endpointUserLimits })),
+  ]);
+
+  const tusResponse = tusProbe.response;
+  const tusExtensions = tusResponse?.headers?.["tus-extension"];
+  const limits = limitsProbe.response?.data as { maxUploadSize?: unknown } | undefined;
+
+  const capabilities = {
+    portalUrl,
+    endpoints: {
+      largeUpload: tusProbe.supported,
+      resolve: resolveProbe.supported,
+    },
+    tus: {
+      version: tusResponse?.headers?.["tus-version"],
+      extensions: tusExtensions ? tusExtensions.split(",").map((extension) => extension.trim()) : [],
+      maxSize: parsePositiveNumber(tusResponse?.headers?.["tus-max-size"]),
+    },
+    maxUploadSize: parsePositiveNumber(limits?.maxUploadSize),
+  };
+  return [capabilities, cacheable];
+}
+
+/**
+ * Probes an endpoint. Only 404 and 405 mean that the endpoint is not
+ * supported. Other error statuses, e.g. 429 or 503, may be temporary, so the
+ * endpoint is assumed to be supported and `onFailure` is called so that the
+ * result is not cached. Other errors, e.g. network errors, are rethrown.
+ *
+ * @param request - The request.
+ * @param onFailure - Called if the portal responded with an error status other than 404 or 405.
+ * @returns - Whether the endpoint is supported, and the response if the request succeeded.
+ */
+async function probeEndpoint(request: Promise<TransportResponse>, onFailure: () => void): Promise<ProbeResult> {
+  try {
+    return { supported: true, response: await request };
+  } catch (err) {
+    if (!(err instanceof PortalResponseError)) {
+      throw err;
+    }
+    if (UNSUPPORTED_ENDPOINT_STATUS_CODES.includes(err.status)) {
+      return { supported: false };
+    }
+    onFailure();
+    return { supported: true };
+  }
+}
+
+/**
+ * Parses a positive number from a header or response field.
+ *
+ * @param value - The value.
+ * @returns - The number, or undefined if the value is not a positive number.
+ */
+function parsePositiveNumber(value: unknown): number | undefined {
+  const number = Number(value);
+  if (value === undefined || value === null || value === "" || isNaN(number) || number <= 0) {
+    return undefined;
+  }
+  return number;
+}
@@ -33,3 +33,67 @@ describe("buildRequestUrl", () => {
     expect(url).toEqual(expectedUrl);
   });
 });
+
+describe("portal URL resolution", () => {
+  const initialPortalUrl = "http://localhost";
+  const resolvedPortalUrl = "https://siasky.net";
+
+  /**
+   * A client that resolves the API portal URL from the given initial portal URL.
+   */
+  class ResolvingClient extends SkynetClient {
+    constructor(initialPortalUrl: string) {
+      super("");
+      this.initialPortalUrl = initialPortalUrl;
+    }
+  }
+
+  beforeEach(() => {
+    mock = new MockAdapter(axios);
+    new SkynetClient().invalidatePortalUrl();
+  });
+
+  it("should resolve the portal URL once per initial portal URL", async () => {
+    mock.onHead(initialPortalUrl).reply(200, "", { "skynet-portal-api": `${resolvedPortalUrl}/` });
+    mock.onHead("https://foo.com").reply(200, "", { "skynet-portal-api": "https://bar.com" });
+
+    expect(await new SkynetClient().portalUrl()).toEqual(resolvedPortalUrl);
+    expect(await new SkynetClient().portalUrl()).toEqual(resolvedPortalUrl);
+    expect(await new ResolvingClient("https://foo.com").portalUrl()).toEqual("https://bar.com");
+    expect(mock.history.head.length).toBe(2);
+  });
+
+  it("should not cache failed resolutions", async () => {
+    mock.onHead(initialPortalUrl).replyOnce(500).onHead(initialPortalUrl).replyOnce(200, "", {
+      "skynet-portal-api": resolvedPortalUrl,
+    });
+    const client = new SkynetClient();
+
+    await expect(client.portalUrl()).rejects.toThrowError("Request failed with status code 500");
+    expect(await client.portalUrl()).toEqual(resolvedPortalUrl);
+  });
+
+  it("should refresh the portal URL", async () => {
+    mock
+      .onHead(initialPortalUrl)
+      .replyOnce(200, "", { "skynet-portal-api": resolvedPortalUrl })
+      .onHead(initialPortalUrl)
+      .replyOnce(200, "", { "skynet-portal-api": "https://siasky.dev" });
+    const client = new SkynetClient();
+
+    expect(await client.portalUrl()).toEqual(resolvedPortalUrl);
+    expect(await client.refreshPortalUrl()).toEqual("https://siasky.dev");
+    expect(await new SkynetClient().portalUrl()).toEqual("https://siasky.dev");
+  });
+
+  it("should pick up a changed skynet-portal-api header", async () => {
+    const skylink = "XABvi7JtJbQSMAcDwnUnmp2FKDPjg8_tTTFP4BwMSxVdEg";
+    mock.onHead(initialPortalUrl).replyOnce(200, "", { "skynet-portal-api": resolvedPortalUrl });
+    mock.onGet(`${resolvedPortalUrl}/${skylink}`).replyOnce(200, "foo", { "skynet-portal-api": "https://siasky.dev" });
+    const client = new SkynetClient();
+
+    await client.getFileContent(skylink);
+
+    expect(await client.portalUrl()).toEqual("https://siasky.dev");
+  });
+});
@@ -1,5 +1,4 @@
-import axios from "axios";
-import type { AxiosResponse, ResponseType, Method } from "axios";
+import type { ResponseType, Method } from "axios";
 
 import {
   uploadFile,
@@ -9,6 +8,10 @@ import {
   uploadSmallFile,
   uploadSmallFileRequest,
   uploadLargeFileRequest,
+  uploadData,
+  uploadSmallDataRequest,
+  uploadLargeData,
+  uploadLargeDataRequest,
 } from "./upload";
 import {
   downloadFile,
@@ -20,18 +23,34 @@ import {
   getFileContent,
   getFileContentHns,
   getFileContentRequest,
+  getFileStream,
   openFile,
   openFileHns,
   resolveHns,
 } from "./download";
+import { getPortalCapabilities, invalidatePortalCapabilities } from "./capabilities";
+import { uploadFiles } from "./batch_upload";
+import { discardPendingUpload, listPendingUploads, UploadUrlStorage } from "./resumable_upload";
 import { getJSONEncrypted, getEntryData, getEntryLink as fileGetEntryLink, getJSON as fileGetJSON } from "./file";
+import { listDirectory, statPath, walk } from "./directory";
 import { pinSkylink } from "./pin";
+import { resolveSkylink } from "./resolve";
 import { getEntry, getEntryUrl, getEntryLink, setEntry, postSignedEntry } from "./registry";
 import { deleteJSON, getJSON, setJSON, setDataLink, getRawBytes } from "./skydb";
-import { addUrlQuery, defaultPortalUrl, makeUrl } from "./utils/url";
+import { addUrlQuery, defaultPortalUrl, makeUrl, replacePortalInUrl } from "./utils/url";
 import { loadMySky } from "./mysky";
 import { extractDomain, getFullDomainUrl } from "./mysky/utils";
 import { trimSuffix } from "./utils/string";
+import { axiosTransport, Transport, TransportError, TransportRequest, TransportResponse } from "./transport";
+import { executeWithRetry, isPortalFailure, RetryOptions } from "./retry";
+import { UploadProgress, UploadProgressTracker } from "./progress";
+import { PortalPool } from "./portal_pool";
+import { Middleware, runMiddleware } from "./middleware";
+import { AbortError, PortalResponseError, ValidationError } from "./errors";
+import { throwIfAborted } from "./utils/abort";
+import { executeWithTimeout, TimeoutOptions } from "./timeout";
+import { Trace, TracingOptions } from "./tracing";
+import { ConcurrencyOptions, RequestClass, RequestScheduler } from "./scheduler";
 
 /**
  * Custom client options.
@@ -40,14 +59,31 @@ import { trimSuffix } from "./utils/string";
  * @property [customUserAgent] - Custom user agent header to set.
  * @property [customCookie] - Custom cookie header to set.
  * @property [onDownloadProgress] - Optional callback to track download progress.
- * @property [onUploadProgress] - Optional callback to track upload progress.
+ * @property [onUploadProgress] - Optional callback to track upload progress. Also receives the bytes sent, speed, throughput, ETA and retries of the upload.
+ * @property [retry] - The retry policy for transient portal failures. Requests are not retried by default.
+ * @property [transport] - The HTTP transport used to send requests. Defaults to an axios-based transport.
+ * @property [signal] - Aborts the operation. Aborted operations reject with an `AbortError`.
+ * @property [timeout] - The timeout of each request in ms, or separate connect and overall timeouts. Timed out requests reject with a `TimeoutError`. Disabled by default.
+ * @property [concurrency] - The maximum number of requests in flight per request class. Only used when passed to `new SkynetClient()`.
+ * @property [priority=0] - The priority of the requests. Queued requests with higher priorities are sent first.
+ * @property [urlStorage] - The storage for the URLs of unfinished large uploads, which are resumed when the same data is uploaded again. Defaults to localStorage in browsers and to a JSON file for the `SkynetClient` of `skynet-js/node`.
+ * @property [logger] - The logger for requests and operations, e.g. `console`.
+ * @property [tracer] - The tracer which creates a span for every request and operation.
+ * @property [parentSpan] - The span that the spans of the call are children of.
  */
-export type CustomClientOptions = {
+export type CustomClientOptions = TracingOptions & {
   APIKey?: string;
   customUserAgent?: string;
   customCookie?: string;
   onDownloadProgress?: (progress: number, event: ProgressEvent) => void;
-  onUploadProgress?: (progress: number, event: ProgressEvent) => void;
+  onUploadProgress?: (progress: number, event: ProgressEvent, details: UploadProgress) => void;
+  retry?: RetryOptions;
+  transport?: Transport;
+  signal?: AbortSignal;
+  timeout?: number | TimeoutOptions;
+  concurrency?: ConcurrencyOptions;
+  priority?: number;
+  urlStorage?: UploadUrlStorage;
 };
 
 /**
@@ -85,13 +121,24 @@ export class SkynetClient {
 
   // The initial portal URL, either given to `new SkynetClient()` or if not, the value of `defaultPortalUrl()`.
   protected initialPortalUrl: string;
-  // The resolved API portal URL. The request won't be made until needed, or `initPortalUrl()` is called. The request is only made once, for all Skynet Clients.
-  protected static resolvedPortalUrl?: Promise<string>;
+  // The resolved API portal URLs, keyed by initial portal URL. The request won't be made until needed, or `initPortalUrl()` is called. The request is only made once per initial portal URL, for all Skynet Clients.
+  protected static resolvedPortalUrls = new Map<string, ResolvedPortalUrl>();
   // The custom portal URL, if one was passed in to `new SkynetClient()`.
   protected customPortalUrl?: string;
+  // The pool of portals, if a list of portals was passed in to `new SkynetClient()`.
+  portalPool?: PortalPool;
+  // The request middleware chain, added with `use()`.
+  protected middlewares: Middleware[] = [];
+  // The scheduler which limits the number of requests in flight.
+  protected scheduler: RequestScheduler;
 
   // Set methods (defined in other files).
 
+  // Portal
+
+  getPortalCapabilities = getPortalCapabilities;
+  invalidatePortalCapabilities = invalidatePortalCapabilities;
+
   // Upload
 
   uploadFile = uploadFile;
@@ -99,8 +146,15 @@ export class SkynetClient {
   protected uploadSmallFileRequest = uploadSmallFileRequest;
   protected uploadLargeFile = uploadLargeFile;
   protected uploadLargeFileRequest = uploadLargeFileRequest;
+  uploadData = uploadData;
+  protected uploadSmallDataRequest = uploadSmallDataRequest;
+  protected uploadLargeData = uploadLargeData;
+  protected uploadLargeDataRequest = uploadLargeDataRequest;
   uploadDirectory = uploadDirectory;
   protected uploadDirectoryRequest = uploadDirectoryRequest;
+  uploadFiles = uploadFiles;
+  listPendingUploads = listPendingUploads;
+  discardPendingUpload = discardPendingUpload;
 
   // Download
 
@@ -113,9 +167,14 @@ export class SkynetClient {
   getFileContent = getFileContent;
   getFileContentHns = getFileContentHns;
   protected getFileContentRequest = getFileContentRequest;
+  getFileStream = getFileStream;
   openFile = openFile;
   openFileHns = openFileHns;
   resolveHns = resolveHns;
+  resolveSkylink = resolveSkylink;
+  listDirectory = listDirectory;
+  statPath = statPath;
+  walk = walk;
 
   // Pin
 
@@ -160,11 +219,16 @@ export class SkynetClient {
    * The Skynet Client which can be used to access Skynet.
    *
    * @class
-   * @param [initialPortalUrl] The initial portal URL to use to access Skynet, if specified. A request will be made to this URL to get the actual portal URL. To use the default portal while passing custom options, pass "".
+   * @param [initialPortalUrl] The initial portal URL to use to access Skynet, if specified. A request will be made to this URL to get the actual portal URL. To use the default portal while passing custom options, pass "". If a list of portals is given, reads fail over to the healthiest portals and writes go to the first portal.
    * @param [customOptions] Configuration for the client.
    */
-  constructor(initialPortalUrl = "", customOptions: CustomClientOptions = {}) {
-    if (initialPortalUrl === "") {
+  constructor(initialPortalUrl: string | string[] = "", customOptions: CustomClientOptions = {}) {
+    if (Array.isArray(initialPortalUrl)) {
+      // A list of portals was given, don't make the request for the resolved portal URL.
+      this.portalPool = new PortalPool(initialPortalUrl);
+      initialPortalUrl = this.portalPool.getWritePortal();
+      this.customPortalUrl = initialPortalUrl;
+    } else if (initialPortalUrl === "") {
       // Portal was not given, use the default portal URL. We'll still make a request for the resolved portal URL.
       initialPortalUrl = defaultPortalUrl();
     } else {
@@ -173,6 +237,7 @@ export class SkynetClient {
     }
     this.initialPortalUrl = initialPortalUrl;
     this.customOptions = customOptions;
+    this.scheduler = new RequestScheduler(customOptions.concurrency);
   }
 
   /**
@@ -187,11 +252,7 @@ export class SkynetClient {
       return;
     }
 
-    if (!SkynetClient.resolvedPortalUrl) {
-      SkynetClient.resolvedPortalUrl = this.resolvePortalUrl();
-    }
-
-    await SkynetClient.resolvedPortalUrl;
+    await this.getResolvedPortalUrl();
     return;
   }
 
@@ -207,9 +268,44 @@ export class SkynetClient {
     }
 
     // Make the request if needed and not done so.
-    await this.initPortalUrl();
+    return await this.getResolvedPortalUrl();
+  }
+
+  /**
+   * Adds a middleware to the request chain. Middleware runs in the order it
+   * was added, for every request made by the client. Note that the chunks of
+   * large uploads are sent by tus-js-client directly, so only the requests
+   * before and after the chunks go through the chain.
+   *
+   * @param middleware - The middleware to add.
+   * @returns - The client, to allow chaining.
+   */
+  use(middleware: Middleware): this {
+    this.middlewares.push(middleware);
+    return this;
+  }
+
+  /**
+   * Clears the cached API portal URL for this client's initial portal URL. The
+   * next request will resolve it again. Affects all clients with the same
+   * initial portal URL.
+   */
+  invalidatePortalUrl(): void {
+    SkynetClient.resolvedPortalUrls.delete(this.initialPortalUrl);
+  }
+
+  /**
+   * Makes a new request for the API portal URL, replacing the cached one.
+   *
+   * @returns - the new portal URL.
+   */
+  async refreshPortalUrl(): Promise<string> {
+    if (this.customPortalUrl) {
+      return this.customPortalUrl;
+    }
 
-    return await SkynetClient.resolvedPortalUrl!; // eslint-disable-line
+    this.invalidatePortalUrl();
+    return await this.getResolvedPortalUrl();
   }
 
   // ===============
@@ -217,12 +313,81 @@ export class SkynetClient {
   // ===============
 
   /**
-   * Creates and executes a request.
+   * Returns the cached API portal URL for this client's initial portal URL,
+   * making the request for it if not done so already. Failed requests are not
+   * cached.
+   *
+   * @returns - the resolved portal URL.
+   */
+  protected getResolvedPortalUrl(): Promise<string> {
+    const cached = SkynetClient.resolvedPortalUrls.get(this.initialPortalUrl);
+    if (cached) {
+      return cached.promise;
+    }
+
+    const resolved: ResolvedPortalUrl = { promise: this.resolvePortalUrl() };
+    SkynetClient.resolvedPortalUrls.set(this.initialPortalUrl, resolved);
+    resolved.promise.then(
+      (portalUrl) => {
+        resolved.value = portalUrl;
+      },
+      () => {
+        // Only remove the entry if it wasn't replaced in the meantime.
+        if (SkynetClient.resolvedPortalUrls.get(this.initialPortalUrl) === resolved) {
+          SkynetClient.resolvedPortalUrls.delete(this.initialPortalUrl);
+        }
+      }
+    );
+    return resolved.promise;
+  }
+
+  /**
+   * Updates the cached API portal URL if the portal reported a different one,
+   * e.g. in the `skynet-portal-api` header of a response.
+   *
+   * @param requestUrl - The URL of the request that the portal responded to. Responses from other portals are ignored.
+   * @param portalUrl - The API portal URL reported by the portal.
+   */
+  protected updateResolvedPortalUrl(requestUrl: string, portalUrl: string): void {
+    const cached = SkynetClient.resolvedPortalUrls.get(this.initialPortalUrl);
+    if (!cached || cached.value === undefined) {
+      // Nothing resolved yet, or the request is still in progress.
+      return;
+    }
+    const requestHost = new URL(requestUrl).host;
+    const cachedHost = new URL(cached.value).host;
+    if (requestHost !== cachedHost && !requestHost.endsWith(`.${cachedHost}`)) {
+      return;
+    }
+
+    portalUrl = trimSuffix(portalUrl, "/");
+    if (cached.value !== portalUrl) {
+      SkynetClient.resolvedPortalUrls.set(this.initialPortalUrl, {
+        promise: Promise.resolve(portalUrl),
+        value: portalUrl,
+      });
+    }
+  }
+
+  /**
+   * Creates and executes a request, running it through the middleware chain.
    *
    * @param config - Configuration for the request.
-   * @returns - The response from axios.
+   * @returns - The response from the transport.
    */
-  protected async executeRequest(config: RequestConfig): Promise<AxiosResponse> {
+  protected async executeRequest(config: RequestConfig): Promise<TransportResponse> {
+    return runMiddleware(this.middlewares, config, (config) => this.sendConfiguredRequest(config));
+  }
+
+  /**
+   * Builds the request from the final config and sends it.
+   *
+   * @param config - Configuration for the request.
+   * @returns - The response from the transport.
+   */
+  protected async sendConfiguredRequest(config: RequestConfig): Promise<TransportResponse> {
+    throwIfAborted(config.signal);
+
     const url = await buildRequestUrl(this, config.endpointPath, config.url, config.extraPath, config.query);
 
     // Build headers.
@@ -230,7 +395,7 @@ export class SkynetClient {
 
     const auth = config.APIKey ? { username: "", password: config.APIKey } : undefined;
 
-    let onDownloadProgress = undefined;
+    let onDownloadProgress: ((event: ProgressEvent) => void) | undefined = undefined;
     if (config.onDownloadProgress) {
       onDownloadProgress = function (event: ProgressEvent) {
         // Avoid NaN for 0-byte file.
@@ -240,20 +405,31 @@ export class SkynetClient {
         config.onDownloadProgress(progress, event);
       };
     }
-    let onUploadProgress = undefined;
+    let onUploadProgress: ((event: ProgressEvent) => void) | undefined = undefined;
+    let retry = config.retry;
     if (config.onUploadProgress) {
+      const tracker = new UploadProgressTracker();
       onUploadProgress = function (event: ProgressEvent) {
         // Avoid NaN for 0-byte file.
         /* istanbul ignore next: event.total is always 0 in Node. */
         const progress = event.total ? event.loaded / event.total : 1;
         // @ts-expect-error TS complains even though we've ensured this is defined.
-        config.onUploadProgress(progress, event);
+        config.onUploadProgress(progress, event, tracker.update(event.loaded, event.total));
+      };
+      // Count the retries of the upload.
+      retry = {
+        ...config.retry,
+        onRetry: (event) => {
+          tracker.retry();
+          config.retry?.onRetry?.(event);
+        },
       };
     }
 
-    return axios({
+    const transport = config.transport ?? axiosTransport;
+    const request: TransportRequest = {
       url,
-      method: config.method,
+      method: config.method ?? "get",
       data: config.data,
       headers,
       auth,
@@ -262,12 +438,105 @@ export class SkynetClient {
       responseType: config.responseType,
       transformRequest: config.transformRequest,
       transformResponse: config.transformResponse,
+      signal: config.signal,
+    };
 
-      maxContentLength: Infinity,
-      maxBodyLength: Infinity,
-      // Allow cross-site cookies.
-      withCredentials: true,
+    const trace = new Trace(config, `HTTP ${request.method.toUpperCase()}`, {
+      "http.method": request.method.toUpperCase(),
+      "http.url": url,
+      "http.request_content_length": getRequestBodySize(request.data),
     });
+    let response: TransportResponse;
+    try {
+      const requestClass = getRequestClass(request.method, config.endpointPath);
+      response = await executeWithRetry(
+        () =>
+          this.scheduler.schedule(
+            requestClass,
+            () => this.sendRequest(transport, request, config.timeout),
+            config.priority,
+            config.signal
+          ),
+        request.method,
+        url,
+        retry,
+        config.signal
+      );
+    } catch (err) {
+      trace.setAttribute("http.status_code", (err as TransportError).response?.status);
+      trace.fail(err);
+      throw err;
+    }
+    trace.setAttribute("http.status_code", response.status);
+    const responseLength = Number(response.headers?.["content-length"]);
+    trace.setAttribute("http.response_content_length", isNaN(responseLength) ? undefined : responseLength);
+    trace.end();
+
+    // Pick up changes of the API portal URL.
+    const portalApi = response.headers?.["skynet-portal-api"];
+    if (!this.customPortalUrl && portalApi) {
+      this.updateResolvedPortalUrl(url, portalApi);
+    }
+
+    return response;
+  }
+
+  /**
+   * Sends the request with the given transport. If the client has a portal
+   * pool, reads fail over to the next healthiest portal and the health of the
+   * contacted portals is recorded.
+   *
+   * @param transport - The transport.
+   * @param request - The built request.
+   * @param [timeout] - The timeout of each request sent to a portal.
+   * @returns - The response from the transport.
+   * @throws - Will throw the last error if the request failed on all portals it was sent to. Error responses are thrown as `PortalResponseError`s.
+   */
+  protected async sendRequest(
+    transport: Transport,
+    request: TransportRequest,
+    timeout?: number | TimeoutOptions
+  ): Promise<TransportResponse> {
+    const send = (request: TransportRequest) =>
+      executeWithTimeout(transport, request, timeout).catch((err) => {
+        throw PortalResponseError.fromTransportError(err, request.url);
+      });
+
+    const pool = this.portalPool;
+    if (!pool) {
+      return send(request);
+    }
+
+    const writePortal = pool.getWritePortal();
+    const portals = isReadMethod(request.method) ? pool.getReadPortals() : [writePortal];
+
+    let lastError: unknown;
+    for (const portal of portals) {
+      const url = replacePortalInUrl(request.url, writePortal, portal);
+      if (url === null) {
+        // The URL is not on a portal of the pool, send it as-is.
+        return send(request);
+      }
+
+      const start = Date.now();
+      try {
+        const response = await send({ ...request, url });
+        pool.recordSuccess(portal, Date.now() - start);
+        return response;
+      } catch (err) {
+        if (err instanceof AbortError) {
+          throw err;
+        }
+        if (!isPortalFailure(err)) {
+          // The portal is up and rejected the request, don't try other portals.
+          pool.recordSuccess(portal, Date.now() - start);
+          throw err;
+        }
+        pool.recordFailure(portal);
+        lastError = err;
+      }
+    }
+    throw lastError;
   }
 
   async resolvePortalUrl(): Promise<string> {
@@ -279,13 +548,19 @@ export class SkynetClient {
     });
 
     if (typeof response.headers === "undefined") {
-      throw new Error(
-        "Did not get 'headers' in response despite a successful request. Please try again and report this issue to the devs if it persists."
+      throw new ValidationError(
+        "Did not get 'headers' in response despite a successful request. Please try again and report this issue to the devs if it persists.",
+        "response.headers",
+        "response field"
       );
     }
     const portalUrl = response.headers["skynet-portal-api"];
     if (!portalUrl) {
-      throw new Error("Could not get portal URL for the given portal");
+      throw new ValidationError(
+        "Could not get portal URL for the given portal",
+        'response.headers["skynet-portal-api"]',
+        "response field"
+      );
     }
     return trimSuffix(portalUrl, "/");
   }
@@ -326,6 +601,67 @@ export async function buildRequestUrl(
 
 type Headers = { [key: string]: string };
 
+/**
+ * A cached API portal URL resolution.
+ *
+ * @property promise - The pending or completed resolution.
+ * @property [value] - The resolved portal URL, once known.
+ */
+type ResolvedPortalUrl = {
+  promise: Promise<string>;
+  value?: string;
+};
+
+/**
+ * Returns the size of the given request body in bytes, if it can be determined.
+ *
+ * @param data - The request body.
+ * @returns - The size, or undefined if unknown.
+ */
+function getRequestBodySize(data: unknown): number | undefined {
+  if (data instanceof Blob) {
+    return data.size;
+  }
+  if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+    return data.byteLength;
+  }
+  if (typeof data === "string") {
+    return data.length;
+  }
+  if (typeof FormData !== "undefined" && data instanceof FormData) {
+    let size = 0;
+    data.forEach((value) => {
+      size += typeof value === "string" ? value.length : value.size;
+    });
+    return size;
+  }
+  return undefined;
+}
+
+/**
+ * Returns whether the given method only reads data and can be sent to any portal.
+ *
+ * @param method - The request method.
+ * @returns - Whether the method is a read.
+ */
+function isReadMethod(method: string): boolean {
+  return ["get", "head", "options"].includes(method.toLowerCase());
+}
+
+/**
+ * Returns the class of the given request for the request scheduler.
+ *
+ * @param method - The request method.
+ * @param endpointPath - The endpoint path of the request.
+ * @returns - The request class.
+ */
+function getRequestClass(method: string, endpointPath: string): RequestClass {
+  if (endpointPath.startsWith("/skynet/registry")) {
+    return "registry";
+  }
+  return isReadMethod(method) ? "download" : "upload";
+}
+
 /**
  * Helper function that builds the request headers.
  *
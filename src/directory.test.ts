@@ -0,0 +1,134 @@
+import axios from "axios";
+import MockAdapter from "axios-mock-adapter";
+
+import { SkynetClient, DEFAULT_SKYNET_PORTAL_URL } from "./index";
+
+const portalUrl = DEFAULT_SKYNET_PORTAL_URL;
+const client = new SkynetClient(portalUrl);
+const skylink = "XABvi7JtJbQSMAcDwnUnmp2FKDPjg8_tTTFP4BwMSxVdEg";
+const metadataUrl = `${portalUrl}/skynet/metadata/${skylink}`;
+
+const metadata = {
+  filename: "site",
+  length: 30,
+  subfiles: {
+    "index.html": { filename: "index.html", contenttype: "text/html", len: 10 },
+    "css/main.css": { filename: "main.css", contenttype: "text/css", offset: 10, len: 5 },
+    "img/icons/a b.png": { filename: "a b.png", contenttype: "image/png", offset: 15, len: 7 },
+    "img/logo.png": { filename: "logo.png", contenttype: "image/png", offset: 22, len: 8, mode: 0o644 },
+  },
+  defaultpath: "/index.html",
+  tryfiles: ["index.html"],
+  errorpages: { "404": "/404.html" },
+};
+
+describe("directory helpers", () => {
+  let mock: MockAdapter;
+
+  beforeEach(() => {
+    mock = new MockAdapter(axios);
+    mock.onHead(portalUrl).replyOnce(200, {}, { "skynet-portal-api": portalUrl });
+    mock.onGet(metadataUrl).reply(200, metadata, {});
+  });
+
+  describe("listDirectory", () => {
+    it("should list the root directory", async () => {
+      const entries = await client.listDirectory(skylink);
+
+      expect(entries).toEqual([
+        { name: "css", path: "css", type: "directory", size: 5 },
+        { name: "img", path: "img", type: "directory", size: 15 },
+        {
+          name: "index.html",
+          path: "index.html",
+          type: "file",
+          size: 10,
+          contentType: "text/html",
+          offset: 0,
+          mode: undefined,
+        },
+      ]);
+    });
+
+    it("should list a subdirectory given in the skylink or the path", async () => {
+      const expected = [
+        { name: "icons", path: "img/icons", type: "directory", size: 7 },
+        {
+          name: "logo.png",
+          path: "img/logo.png",
+          type: "file",
+          size: 8,
+          contentType: "image/png",
+          offset: 22,
+          mode: 0o644,
+        },
+      ];
+
+      await expect(client.listDirectory(skylink, "/img/")).resolves.toEqual(expected);
+      await expect(client.listDirectory(`sia://${skylink}/img`)).resolves.toEqual(expected);
+    });
+
+    it.each([
+      ["index.html", "Expected path 'index.html' to be a directory, was a file"],
+      ["foo", "The skyfile does not contain path 'foo'"],
+    ])("should throw for the path %s", async (path, message) => {
+      await expect(client.listDirectory(skylink, path)).rejects.toThrowError(message);
+    });
+  });
+
+  describe("statPath", () => {
+    it("should return the file at a URL-encoded path", async () => {
+      const entry = await client.statPath(`${skylink}/img/icons/a%20b.png`);
+
+      expect(entry).toEqual(expect.objectContaining({ name: "a b.png", path: "img/icons/a b.png", type: "file" }));
+    });
+
+    it("should return directories with the size of their files", async () => {
+      await expect(client.statPath(skylink)).resolves.toEqual({ name: "", path: "", type: "directory", size: 30 });
+      await expect(client.statPath(skylink, "img")).resolves.toEqual({
+        name: "img",
+        path: "img",
+        type: "directory",
+        size: 15,
+      });
+    });
+
+    it("should treat skyfiles without subfiles as a single file", async () => {
+      mock.onGet(metadataUrl).reply(200, { filename: "foo.txt", length: 3 }, {});
+
+      await expect(client.listDirectory(skylink)).resolves.toEqual([
+        { name: "foo.txt", path: "foo.txt", type: "file", size: 3, contentType: undefined, offset: 0, mode: undefined },
+      ]);
+    });
+  });
+
+  describe("walk", () => {
+    it("should return every entry depth-first", async () => {
+      const entries = await client.walk(skylink);
+
+      expect(entries.map(({ path }) => path)).toEqual([
+        "css",
+        "css/main.css",
+        "img",
+        "img/icons",
+        "img/icons/a b.png",
+        "img/logo.png",
+        "index.html",
+      ]);
+    });
+
+    it("should throw if the skylink points to a file", async () => {
+      await expect(client.walk(`${skylink}/index.html`)).rejects.toThrowError(
+        "Expected path 'index.html' to be a directory, was a file"
+      );
+    });
+  });
+
+  it("should return the typed metadata from getMetadata", async () => {
+    const { metadata: returned } = await client.getMetadata(skylink);
+
+    expect(returned.subfiles?.["css/main.css"].offset).toEqual(10);
+    expect(returned.defaultpath).toEqual("/index.html");
+    expect(returned.errorpages).toEqual({ "404": "/404.html" });
+  });
+});
@@ -0,0 +1,261 @@
+import { SkynetClient } from "./client";
+import { CustomGetMetadataOptions, SkyfileMetadata, SkyfileSubfileMetadata } from "./download";
+import { ValidationError } from "./errors";
+import { parseSkylink } from "./skylink/parse";
+import { validateSkylinkString, validateString } from "./utils/validation";
+
+/**
+ * A file or directory in the directory tree of a skyfile.
+ *
+ * @property name - The last component of the path. Empty for the root directory.
+ * @property path - The path of the entry in the skyfile, without leading slash.
+ * @property type - Whether the entry is a file or a directory.
+ * @property size - The size of the file, or of all files in the directory, in bytes.
+ * @property [contentType] - The content type of files.
+ * @property [offset] - The offset of files in the content of the skyfile.
+ * @property [mode] - The file mode of files, if stored.
+ */
+export type SkyfileDirectoryEntry = {
+  name: string;
+  path: string;
+  type: "file" | "directory";
+  size: number;
+  contentType?: string;
+  offset?: number;
+  mode?: number;
+};
+
+/**
+ * Lists the files and directories directly in the directory at the given path
+ * of a skyfile, sorted by name. The directory tree is built from the
+ * `subfiles` in the metadata of the skyfile.
+ *
+ * @param this - SkynetClient
+ * @param skylinkUrl - Skylink string, optionally with a path. See `downloadFile`.
+ * @param [path] - The path of the directory, appended to the path in the skylink. Defaults to the root directory.
+ * @param [customOptions] - Additional settings that can optionally be set. See `getMetadata`.
+ * @returns - The entries of the directory.
+ * @throws - Will throw if the path does not exist or is not a directory.
+ */
+export async function listDirectory(
+  this: SkynetClient,
+  skylinkUrl: string,
+  path?: string,
+  customOptions?: CustomGetMetadataOptions
+): Promise<SkyfileDirectoryEntry[]> {
+  const [files, fullPath] = await getSkyfileFiles.call(this, skylinkUrl, path, customOptions);
+
+  const entry = statFiles(files, fullPath);
+  if (entry.type !== "directory") {
+    throw new ValidationError(`Expected path '${fullPath}' to be a directory, was a file`, "path", "parameter");
+  }
+  return listFiles(files, fullPath);
+}
+
+/**
+ * Returns the file or directory at the given path of a skyfile.
+ *
+ * @param this - SkynetClient
+ * @param skylinkUrl - Skylink string, optionally with a path. See `downloadFile`.
+ * @param [path] - The path, appended to the path in the skylink. Defaults to the root directory.
+ * @param [customOptions] - Additional settings that can optionally be set. See `getMetadata`.
+ * @returns - The entry at the path.
+ * @throws - Will throw if the path does not exist.
+ */
+export async function statPath(
+  this: SkynetClient,
+  skylinkUrl: string,
+  path?: string,
+  customOptions?: CustomGetMetadataOptions
+): Promise<SkyfileDirectoryEntry> {
+  const [files, fullPath] = await getSkyfileFiles.call(this, skylinkUrl, path, customOptions);
+
+  return statFiles(files, fullPath);
+}
+
+/**
+ * Returns all files and directories of a skyfile, depth-first with every
+ * directory before its entries. The root directory is not included.
+ *
+ * @param this - SkynetClient
+ * @param skylinkUrl - Skylink string, optionally with the path of the directory to walk. See `downloadFile`.
+ * @param [customOptions] - Additional settings that can optionally be set. See `getMetadata`.
+ * @returns - The entries of the skyfile.
+ * @throws - Will throw if the path in the skylink does not exist or is not a directory.
+ */
+export async function walk(
+  this: SkynetClient,
+  skylinkUrl: string,
+  customOptions?: CustomGetMetadataOptions
+): Promise<SkyfileDirectoryEntry[]> {
+  const [files, fullPath] = await getSkyfileFiles.call(this, skylinkUrl, undefined, customOptions);
+
+  const entry = statFiles(files, fullPath);
+  if (entry.type !== "directory") {
+    throw new ValidationError(`Expected path '${fullPath}' to be a directory, was a file`, "skylinkUrl", "parameter");
+  }
+
+  const entries: SkyfileDirectoryEntry[] = [];
+  const walkDirectory = (directory: string) => {
+    for (const child of listFiles(files, directory)) {
+      entries.push(child);
+      if (child.type === "directory") {
+        walkDirectory(child.path);
+      }
+    }
+  };
+  walkDirectory(fullPath);
+  return entries;
+}
+
+/**
+ * Gets the files of a skyfile from its metadata, and the normalized path.
+ *
+ * @param this - SkynetClient
+ * @param skylinkUrl - Skylink string, optionally with a path.
+ * @param path - The path to append to the path in the skylink.
+ * @param [customOptions] - The get metadata options.
+ * @returns - The files keyed by their normalized path, and the normalized path.
+ * @throws - Will throw if the input is not valid or the metadata could not be fetched.
+ */
+async function getSkyfileFiles(
+  this: SkynetClient,
+  skylinkUrl: string,
+  path: string | undefined,
+  customOptions?: CustomGetMetadataOptions
+): Promise<[Map<string, SkyfileSubfileMetadata>, string]> {
+  const skylink = validateSkylinkString("skylinkUrl", skylinkUrl, "parameter");
+  if (path !== undefined) {
+    validateString("path", path, "parameter");
+  }
+
+  // The path in the skylink is URL-encoded.
+  const skylinkPath = decodeURIComponent(parseSkylink(skylinkUrl, { onlyPath: true }) ?? "");
+  const { metadata } = await this.getMetadata(skylink, customOptions);
+
+  return [getFiles(metadata), normalizePath(`${skylinkPath}/${path ?? ""}`)];
+}
+
+/**
+ * Returns the files of a skyfile keyed by their normalized path. Skyfiles
+ * without subfiles contain a single file named after the skyfile.
+ *
+ * @param metadata - The metadata of the skyfile.
+ * @returns - The files.
+ */
+function getFiles(metadata: SkyfileMetadata): Map<string, SkyfileSubfileMetadata> {
+  const files = new Map<string, SkyfileSubfileMetadata>();
+  if (!metadata.subfiles) {
+    files.set(normalizePath(metadata.filename ?? ""), { len: metadata.length ?? 0, mode: metadata.mode });
+    return files;
+  }
+  for (const [path, subfile] of Object.entries(metadata.subfiles)) {
+    files.set(normalizePath(path), subfile);
+  }
+  return files;
+}
+
+/**
+ * Returns the entry at the path.
+ *
+ * @param files - The files of the skyfile.
+ * @param path - The normalized path.
+ * @returns - The entry.
+ * @throws - Will throw if the path does not exist.
+ */
+function statFiles(files: Map<string, SkyfileSubfileMetadata>, path: string): SkyfileDirectoryEntry {
+  const file = files.get(path);
+  if (file) {
+    return toFileEntry(path, file);
+  }
+
+  const prefix = path ? `${path}/` : "";
+  let size = 0;
+  let found = false;
+  for (const [filePath, subfile] of files) {
+    if (filePath.startsWith(prefix)) {
+      size += subfile.len;
+      found = true;
+    }
+  }
+  // The root directory always exists.
+  if (!found && path) {
+    throw new ValidationError(`The skyfile does not contain path '${path}'`, "path", "parameter");
+  }
+  return { name: getName(path), path, type: "directory", size };
+}
+
+/**
+ * Returns the entries directly in the directory, sorted by name.
+ *
+ * @param files - The files of the skyfile.
+ * @param directory - The normalized path of the directory.
+ * @returns - The entries.
+ */
+function listFiles(files: Map<string, SkyfileSubfileMetadata>, directory: string): SkyfileDirectoryEntry[] {
+  const prefix = directory ? `${directory}/` : "";
+  const entries = new Map<string, SkyfileDirectoryEntry>();
+  for (const [filePath, subfile] of files) {
+    if (!filePath.startsWith(prefix)) {
+      continue;
+    }
+    const [name, ...rest] = filePath.slice(prefix.length).split("/");
+    if (rest.length === 0) {
+      entries.set(name, toFileEntry(filePath, subfile));
+      continue;
+    }
+
+    const subdirectory: SkyfileDirectoryEntry = entries.get(name) ?? {
+      name,
+      path: `${prefix}${name}`,
+      type: "directory",
+      size: 0,
+    };
+    subdirectory.size += subfile.len;
+    entries.set(name, subdirectory);
+  }
+  return [...entries.values()].sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+}
+
+/**
+ * Converts a file of the skyfile metadata to a directory entry.
+ *
+ * @param path - The normalized path of the file.
+ * @param subfile - The metadata of the file.
+ * @returns - The entry.
+ */
+function toFileEntry(path: string, subfile: SkyfileSubfileMetadata): SkyfileDirectoryEntry {
+  return {
+    name: getName(path),
+    path,
+    type: "file",
+    size: subfile.len,
+    contentType: subfile.contenttype,
+    offset: subfile.offset ?? 0,
+    mode: subfile.mode,
+  };
+}
+
+/**
+ * Normalizes the path by removing empty components, e.g. leading, trailing
+ * and duplicate slashes.
+ *
+ * @param path - The path.
+ * @returns - The normalized path.
+ */
+function normalizePath(path: string): string {
+  return path
+    .split("/")
+    .filter((component) => component !== "" && component !== ".")
+    .join("/");
+}
+
+/**
+ * Returns the last component of the normalized path.
+ *
+ * @param path - The path.
+ * @returns - The name.
+ */
+function getName(path: string): string {
+  return path.slice(path.lastIndexOf("/") + 1);
+}
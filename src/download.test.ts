@@ -1,8 +1,10 @@
 import axios from "axios";
 import MockAdapter from "axios-mock-adapter";
+import { Readable } from "stream";
 import { combineStrings, extractNonSkylinkPath } from "../utils/testing";
 
 import { SkynetClient, defaultSkynetPortalUrl, uriSkynetPrefix } from "./index";
+import { TransportRequest, TransportResponse } from "./transport";
 import { trimForwardSlash } from "./utils/string";
 
 const portalUrl = defaultSkynetPortalUrl;
@@ -278,6 +280,129 @@ describe("getFileContent", () => {
   });
 });
 
+describe("getFileStream", () => {
+  const headers = {
+    "skynet-skylink": skylink,
+    "skynet-portal-api": portalUrl,
+    "content-type": "text/plain",
+    "content-length": "6",
+  };
+
+  /**
+   * Creates a minimal web stream, which jsdom doesn't provide.
+   *
+   * @param chunks - The chunks of the stream.
+   * @returns - The web stream.
+   */
+  function createWebStream(chunks: Uint8Array[]): ReadableStream<Uint8Array> {
+    const reader = {
+      read: async () => {
+        const value = chunks.shift();
+        return value ? { done: false, value } : { done: true, value: undefined };
+      },
+      releaseLock: jest.fn(),
+    };
+    return { getReader: () => reader } as unknown as ReadableStream<Uint8Array>;
+  }
+
+  /**
+   * Creates a client whose transport returns the given response.
+   *
+   * @param response - The response to return.
+   * @param requests - Receives the sent requests.
+   * @returns - The client.
+   */
+  function createClient(response: TransportResponse, requests: TransportRequest[] = []): SkynetClient {
+    const transport = async (request: TransportRequest): Promise<TransportResponse> => {
+      requests.push(request);
+      return response;
+    };
+    return new SkynetClient(portalUrl, { transport });
+  }
+
+  it("should return the headers and stream the content", async () => {
+    const body = createWebStream([Uint8Array.from([1, 2, 3]), Uint8Array.from([4, 5, 6])]);
+    const requests: TransportRequest[] = [];
+    const client = createClient({ data: body, status: 200, headers }, requests);
+
+    const response = await client.getFileStream(skylink);
+
+    expect(response.stream).toBe(body);
+    expect(response.contentType).toEqual("text/plain");
+    expect(response.contentLength).toEqual(6);
+    expect(response.contentRange).toBeUndefined();
+    expect(response.portalUrl).toEqual(portalUrl);
+    expect(response.skylink).toEqual(sialink);
+
+    const chunks = [];
+    for await (const chunk of response) {
+      chunks.push(Array.from(chunk));
+    }
+    expect(chunks).toEqual([
+      [1, 2, 3],
+      [4, 5, 6],
+    ]);
+
+    expect(requests.length).toEqual(1);
+    expect(requests[0].url).toEqual(expectedUrl);
+    expect(requests[0].responseType).toEqual("stream");
+  });
+
+  it("should set the range header", async () => {
+    const requests: TransportRequest[] = [];
+    const client = createClient(
+      {
+        data: createWebStream([]),
+        status: 206,
+        headers: { ...headers, "content-length": "2", "content-range": "bytes 0-1/6" },
+      },
+      requests
+    );
+
+    const { contentLength, contentRange } = await client.getFileStream(skylink, { range: "bytes=0-1" });
+
+    expect(contentLength).toEqual(2);
+    expect(contentRange).toEqual("bytes 0-1/6");
+    expect(requests[0].headers.Range).toEqual("bytes=0-1");
+  });
+
+  it.each([
+    [
+      "a Node.js stream",
+      Readable.from([Buffer.from([1, 2, 3]), Buffer.from([4, 5, 6])]),
+      [
+        [1, 2, 3],
+        [4, 5, 6],
+      ],
+    ],
+    ["a buffered body", new Uint8Array([1, 2, 3, 4, 5, 6]).buffer, [[1, 2, 3, 4, 5, 6]]],
+    ["a buffered string", "foo", [[102, 111, 111]]],
+  ])("should iterate %s without web streams", async (_, data, expectedChunks) => {
+    const client = createClient({ data, status: 200, headers });
+
+    const response = await client.getFileStream(skylink);
+
+    // jsdom doesn't provide web streams.
+    expect(response.stream).toBeUndefined();
+    const chunks = [];
+    for await (const chunk of response) {
+      chunks.push(Array.from(chunk));
+    }
+    expect(chunks).toEqual(expectedChunks);
+  });
+
+  it("should return empty headers when they are missing", async () => {
+    const client = createClient({ data: createWebStream([]), status: 200, headers: {} });
+
+    const response = await client.getFileStream(skylink);
+
+    expect(response.contentType).toEqual("");
+    expect(response.contentLength).toBeUndefined();
+    expect(response.portalUrl).toEqual("");
+    expect(response.skylink).toEqual("");
+  });
+});
+
 describe("getFileContentHns", () => {
   let mock: MockAdapter;
 
@@ -1,31 +1,45 @@
-import { AxiosResponse, ResponseType } from "axios";
+import { ResponseType } from "axios";
 import { SkynetClient } from "./client";
+import { TransportHeaders, TransportResponse } from "./transport";
 
 import { convertSkylinkToBase32, formatSkylink } from "./skylink/format";
 import { parseSkylink } from "./skylink/parse";
+import { RegistryProofEntry, verifyResolutionProof } from "./registry_proof";
+import { getFileContentSegmented, SegmentedDownloadOptions } from "./segmented_download";
 import { trimUriPrefix } from "./utils/string";
+import { getFileContentVerified, parseSkylinkFromUrl } from "./verified_download";
 import { BaseCustomOptions, DEFAULT_BASE_OPTIONS } from "./utils/options";
 import { addSubdomain, addUrlQuery, makeUrl, URI_HANDSHAKE_PREFIX } from "./utils/url";
+import { iterateResponseBody, iterateWebReadableStream, toWebReadableStream } from "./utils/stream";
 import { JsonData } from "./utils/types";
+import { ValidationError } from "./errors";
 import { throwValidationError, validateObject, validateOptionalObject, validateString } from "./utils/validation";
 
 /**
  * Custom download options.
  *
  * @property [endpointDownload] - The relative URL path of the portal endpoint to contact.
+ * @property [endpointBaseSector] - The relative URL path of the portal endpoint to get the base sector of a skylink, for verified downloads.
  * @property [download=false] - Indicates to `getSkylinkUrl` whether the file should be downloaded (true) or opened in the browser (false). `downloadFile` and `openFile` override this value.
  * @property [path] - A path to append to the skylink, e.g. `dir1/dir2/file`. A Unix-style path is expected. Each path component will be URL-encoded.
+ * @property [requireProof=false] - Whether downloads of v2 skylinks should fail if the portal does not return the registry proof of the resolution. Returned proofs are always verified.
  * @property [range] - The Range request header to set for the download. Not applicable for in-borwser downloads.
  * @property [responseType] - The response type.
+ * @property [segmented] - Whether `getFileContent` should split the file into byte ranges and fetch them in parallel, or the segmented download options. Ignored if `range` is set.
  * @property [subdomain=false] - Whether to return the final skylink in subdomain format.
+ * @property [verify=false] - Whether `getFileContent` should verify the content against the Merkle root of the skylink, and the registry proof of v2 skylinks. Throws a `ContentVerificationError` on mismatch.
  */
 export type CustomDownloadOptions = BaseCustomOptions & {
   endpointDownload?: string;
+  endpointBaseSector?: string;
   download?: boolean;
   path?: string;
+  requireProof?: boolean;
   range?: string;
   responseType?: ResponseType;
+  segmented?: boolean | SegmentedDownloadOptions;
   subdomain?: boolean;
+  verify?: boolean;
 };
 
 /**
@@ -54,12 +68,76 @@ export type CustomHnsResolveOptions = BaseCustomOptions & {
  * @property contentType - The type of the content.
  * @property portalUrl - The URL of the portal.
  * @property skylink - 46-character skylink.
+ * @property [proof] - The verified registry entries which resolved the requested v2 skylink to the returned skylink, in order.
  */
 export type GetFileContentResponse<T = unknown> = {
   data: T;
   contentType: string;
   portalUrl: string;
   skylink: string;
+  proof?: RegistryProofEntry[];
+};
+
+/**
+ * The response for a get file stream request. Can be iterated with
+ * `for await`, which locks the stream.
+ *
+ * @property [stream] - The content of the file. Chunks are only fetched as they are read. Undefined if web streams are not available, e.g. in Node.js before 18, in which case the response can still be iterated.
+ * @property contentType - The type of the content.
+ * @property [contentLength] - The length of the returned content in bytes, if known.
+ * @property [contentRange] - The returned range, if a range was requested.
+ * @property portalUrl - The URL of the portal.
+ * @property skylink - 46-character skylink.
+ */
+export type GetFileStreamResponse = AsyncIterable<Uint8Array> & {
+  stream?: ReadableStream<Uint8Array>;
+  contentType: string;
+  contentLength?: number;
+  contentRange?: string;
+  portalUrl: string;
+  skylink: string;
+};
+
+/**
+ * The metadata of a file in a skyfile. Matches `SkyfileSubfileMetadata` in skyd.
+ *
+ * @property [filename] - The name of the file.
+ * @property [contenttype] - The content type of the file.
+ * @property [offset=0] - The offset of the file in the content of the skyfile.
+ * @property len - The length of the file in bytes.
+ * @property [mode] - The file mode, e.g. 0o644.
+ */
+export type SkyfileSubfileMetadata = {
+  filename?: string;
+  contenttype?: string;
+  offset?: number;
+  len: number;
+  mode?: number;
+};
+
+/**
+ * The metadata of a skyfile. Matches `SkyfileMetadata` in skyd. Fields which
+ * are not known to this SDK are kept as is.
+ *
+ * @property [filename] - The name of the skyfile, the directory name for directories.
+ * @property [length] - The length of the content in bytes.
+ * @property [mode] - The file mode of single files.
+ * @property [subfiles] - The files of the skyfile, keyed by their path.
+ * @property [defaultpath] - The path of the file served when the skyfile is downloaded without a path.
+ * @property [disabledefaultpath] - Whether downloads without a path return the whole skyfile instead of the default path.
+ * @property [tryfiles] - The files tried in order for paths which don't exist, e.g. `["index.html"]`.
+ * @property [errorpages] - The files served for error status codes, keyed by status code, e.g. `{ "404": "/404.html" }`.
+ */
+export type SkyfileMetadata = {
+  filename?: string;
+  length?: number;
+  mode?: number;
+  subfiles?: Record<string, SkyfileSubfileMetadata>;
+  defaultpath?: string;
+  disabledefaultpath?: boolean;
+  tryfiles?: string[];
+  errorpages?: Record<string, string>;
+  [key: string]: unknown;
 };
 
 /**
@@ -70,7 +148,7 @@ export type GetFileContentResponse<T = unknown> = {
  * @property skylink - 46-character skylink.
  */
 export type GetMetadataResponse = {
-  metadata: Record<string, unknown>;
+  metadata: SkyfileMetadata;
   portalUrl: string;
   skylink: string;
 };
@@ -85,17 +163,30 @@ export type ResolveHnsResponse = {
   skylink: string;
 };
 
+/**
+ * The data of a resolve HNS response, which contains either a skylink or the
+ * keys of a registry entry.
+ */
+type ResolveHnsResponseData = {
+  skylink?: string;
+  registry?: { publickey: string; datakey: string };
+};
+
 export const DEFAULT_DOWNLOAD_OPTIONS = {
   ...DEFAULT_BASE_OPTIONS,
   endpointDownload: "/",
+  endpointBaseSector: "/skynet/basesector",
   download: false,
   path: undefined,
+  requireProof: false,
   range: undefined,
   responseType: undefined,
+  segmented: undefined,
   subdomain: false,
+  verify: false,
 };
 
-const DEFAULT_GET_METADATA_OPTIONS = {
+export const DEFAULT_GET_METADATA_OPTIONS = {
   ...DEFAULT_BASE_OPTIONS,
   endpointGetMetadata: "/skynet/metadata",
 };
@@ -222,7 +313,7 @@ export function getSkylinkUrlForPortal(
   let path = "";
   if (opts.path) {
     if (typeof opts.path !== "string") {
-      throw new Error(`opts.path has to be a string, ${typeof opts.path} provided`);
+      throw new ValidationError(`opts.path has to be a string, ${typeof opts.path} provided`, "opts.path", "option");
     }
 
     // Encode each element of the path separately and join them.
@@ -245,7 +336,7 @@ export function getSkylinkUrlForPortal(
     // Get just the skylink.
     let skylink = parseSkylink(skylinkUrl);
     if (skylink === null) {
-      throw new Error(`Could not get skylink out of input '${skylinkUrl}'`);
+      throw new ValidationError(`Could not get skylink out of input '${skylinkUrl}'`, "skylinkUrl", "parameter");
     }
     // Convert the skylink (without the path) to base32.
     skylink = convertSkylinkToBase32(skylink);
@@ -255,7 +346,11 @@ export function getSkylinkUrlForPortal(
     // Get the skylink including the path.
     const skylink = parseSkylink(skylinkUrl, { includePath: true });
     if (skylink === null) {
-      throw new Error(`Could not get skylink with path out of input '${skylinkUrl}'`);
+      throw new ValidationError(
+        `Could not get skylink with path out of input '${skylinkUrl}'`,
+        "skylinkUrl",
+        "parameter"
+      );
     }
     // Add additional path if passed in.
     url = makeUrl(portalUrl, opts.endpointDownload, skylink);
@@ -348,7 +443,7 @@ export async function getMetadata(
   // Don't include the path for now since the endpoint doesn't support it.
   const path = parseSkylink(skylinkUrl, { onlyPath: true });
   if (path) {
-    throw new Error("Skylink string should not contain a path");
+    throw new ValidationError("Skylink string should not contain a path", "skylinkUrl", "parameter");
   }
   const getSkylinkUrlOpts = { endpointDownload: opts.endpointGetMetadata };
   const url = await this.getSkylinkUrl(skylinkUrl, getSkylinkUrlOpts);
@@ -394,6 +489,53 @@ export async function getFileContent<T = unknown>(
   return this.getFileContentRequest<T>(url, opts);
 }
 
+/**
+ * Gets the contents of the file at the given skylink as a stream, without
+ * buffering it in memory. The headers are returned as soon as they are
+ * received. Note that the axios transport buffers the whole response in
+ * browsers, use the fetch transport to stream in browsers.
+ *
+ * @param this - SkynetClient
+ * @param skylinkUrl - Skylink string. See `downloadFile`.
+ * @param [customOptions] - Additional settings that can optionally be set.
+ * @param [customOptions.endpointDownload="/"] - The relative URL path of the portal endpoint to contact.
+ * @returns - An object containing the stream of the file, the content-type, and the file's skylink.
+ * @throws - Will throw if the skylinkUrl does not contain a skylink or if the path option is not a string.
+ */
+export async function getFileStream(
+  this: SkynetClient,
+  skylinkUrl: string,
+  customOptions?: CustomDownloadOptions
+): Promise<GetFileStreamResponse> {
+  // Validation is done in `getSkylinkUrl`.
+
+  const opts = { ...DEFAULT_DOWNLOAD_OPTIONS, ...this.customOptions, ...customOptions };
+
+  const url = await this.getSkylinkUrl(skylinkUrl, opts);
+
+  const response = await this.executeRequest({
+    ...opts,
+    endpointPath: opts.endpointDownload,
+    method: "get",
+    url,
+    headers: opts.range ? { Range: opts.range } : undefined,
+    responseType: "stream",
+  });
+
+  const stream = toWebReadableStream(response.data);
+  const contentLength = Number(response.headers["content-length"]);
+
+  return {
+    stream,
+    contentType: response.headers["content-type"] ?? "",
+    contentLength: isNaN(contentLength) ? undefined : contentLength,
+    contentRange: response.headers["content-range"],
+    portalUrl: response.headers["skynet-portal-api"] ?? "",
+    skylink: response.headers["skynet-skylink"] ? formatSkylink(response.headers["skynet-skylink"]) : "",
+    [Symbol.asyncIterator]: () => (stream ? iterateWebReadableStream(stream) : iterateResponseBody(response.data)),
+  };
+}
+
 /**
  * Gets the contents of the file at the given Handshake domain.
  *
@@ -436,6 +578,13 @@ export async function getFileContentRequest<T = unknown>(
 
   const opts = { ...DEFAULT_DOWNLOAD_OPTIONS, ...this.customOptions, ...customOptions };
 
+  if (opts.verify) {
+    return getFileContentVerified.call(this, url, opts) as Promise<GetFileContentResponse<T>>;
+  }
+  if (opts.segmented && !opts.range) {
+    return getFileContentSegmented.call(this, url, opts) as Promise<GetFileContentResponse<T>>;
+  }
+
   const headers = opts.range ? { Range: opts.range } : undefined;
 
   // GET request the data at the skylink.
@@ -448,21 +597,26 @@ export async function getFileContentRequest<T = unknown>(
   });
 
   if (typeof response.data === "undefined") {
-    throw new Error(
-      "Did not get 'data' in response despite a successful request. Please try again and report this issue to the devs if it persists."
+    throw new ValidationError(
+      "Did not get 'data' in response despite a successful request. Please try again and report this issue to the devs if it persists.",
+      "response.data",
+      "response field"
     );
   }
   if (typeof response.headers === "undefined") {
-    throw new Error(
-      "Did not get 'headers' in response despite a successful request. Please try again and report this issue to the devs if it persists."
+    throw new ValidationError(
+      "Did not get 'headers' in response despite a successful request. Please try again and report this issue to the devs if it persists.",
+      "response.headers",
+      "response field"
     );
   }
 
   const contentType = response.headers["content-type"] ?? "";
   const portalUrl = response.headers["skynet-portal-api"] ?? "";
   const skylink = response.headers["skynet-skylink"] ? formatSkylink(response.headers["skynet-skylink"]) : "";
+  const proof = getResolutionProof(url, response.headers, opts.requireProof);
 
-  return { data: response.data, contentType, portalUrl, skylink };
+  return { data: response.data as T, contentType, portalUrl, skylink, proof };
 }
 
 /**
@@ -552,7 +706,9 @@ export async function resolveHns(
   if (response.data.skylink) {
     return { data: response.data, skylink: response.data.skylink };
   } else {
-    const skylink = await this.registry.getEntryLink(response.data.registry.publickey, response.data.registry.datakey, {
+    // The response was validated to contain the registry entry if it doesn't contain a skylink.
+    const { publickey, datakey } = response.data.registry as { publickey: string; datakey: string };
+    const skylink = await this.registry.getEntryLink(publickey, datakey, {
       hashedDataKeyHex: true,
     });
     return { data: response.data, skylink };
@@ -562,20 +718,24 @@ export async function resolveHns(
 /**
  * Validates the response from getMetadata.
  *
- * @param response - The Axios response.
+ * @param response - The transport response.
  * @throws - Will throw if the response does not contain the expected fields.
  */
-function validateGetMetadataResponse(response: AxiosResponse): void {
+function validateGetMetadataResponse(
+  response: TransportResponse
+): asserts response is TransportResponse<SkyfileMetadata> {
   try {
     if (!response.data) {
-      throw new Error("response.data field missing");
+      throw new ValidationError("response.data field missing", "response.data", "response field");
     }
     if (!response.headers) {
-      throw new Error("response.headers field missing");
+      throw new ValidationError("response.headers field missing", "response.headers", "response field");
     }
   } catch (err) {
-    throw new Error(
-      `Metadata response invalid despite a successful request. Please try again and report this issue to the devs if it persists. ${err}`
+    throw new ValidationError(
+      `Metadata response invalid despite a successful request. Please try again and report this issue to the devs if it persists. Error: ${
+        (err as Error).message
+      }`
     );
   }
 }
@@ -583,21 +743,24 @@ function validateGetMetadataResponse(response: AxiosResponse): void {
 /**
  * Validates the response from resolveHns.
  *
- * @param response - The Axios response.
+ * @param response - The transport response.
  * @throws - Will throw if the response contains an unexpected format.
  */
-function validateResolveHnsResponse(response: AxiosResponse): void {
+function validateResolveHnsResponse(
+  response: TransportResponse
+): asserts response is TransportResponse<ResolveHnsResponseData> {
   try {
     if (!response.data) {
-      throw new Error("response.data field missing");
+      throw new ValidationError("response.data field missing", "response.data", "response field");
     }
 
-    if (response.data.skylink) {
-      validateString("response.data.skylink", response.data.skylink, "resolveHns response field");
-    } else if (response.data.registry) {
-      validateObject("response.data.registry", response.data.registry, "resolveHns response field");
-      validateString("response.data.registry.publickey", response.data.registry.publickey, "resolveHns response field");
-      validateString("response.data.registry.datakey", response.data.registry.datakey, "resolveHns response field");
+    const data = response.data as ResolveHnsResponseData;
+    if (data.skylink) {
+      validateString("response.data.skylink", data.skylink, "resolveHns response field");
+    } else if (data.registry) {
+      validateObject("response.data.registry", data.registry, "resolveHns response field");
+      validateString("response.data.registry.publickey", data.registry.publickey, "resolveHns response field");
+      validateString("response.data.registry.datakey", data.registry.datakey, "resolveHns response field");
     } else {
       throwValidationError(
         "response.data",
@@ -607,8 +770,29 @@ function validateResolveHnsResponse(response: AxiosResponse): void {
       );
     }
   } catch (err) {
-    throw new Error(
-      `Did not get a complete resolve HNS response despite a successful request. Please try again and report this issue to the devs if it persists. ${err}`
+    throw new ValidationError(
+      `Did not get a complete resolve HNS response despite a successful request. Please try again and report this issue to the devs if it persists. Error: ${
+        (err as Error).message
+      }`
     );
   }
 }
+
+/**
+ * Verifies the registry proof in the response headers if the URL contains a
+ * v2 skylink.
+ *
+ * @param url - The requested URL.
+ * @param headers - The response headers.
+ * @param required - Whether the proof is required for v2 skylinks.
+ * @returns - The verified registry proof, if any.
+ * @throws - Will throw if the proof is not valid, or is missing and required.
+ */
+export function getResolutionProof(
+  url: string,
+  headers: TransportHeaders,
+  required: boolean
+): RegistryProofEntry[] | undefined {
+  const skylink = parseSkylinkFromUrl(url);
+  return skylink ? verifyResolutionProof(skylink, headers, required) : undefined;
+}
@@ -0,0 +1,53 @@
+import axios from "axios";
+import MockAdapter from "axios-mock-adapter";
+
+import { SkynetClient, DEFAULT_SKYNET_PORTAL_URL } from "./index";
+import { PortalResponseError, SkynetError, UploadError, ValidationError } from "./errors";
+
+const portalUrl = DEFAULT_SKYNET_PORTAL_URL;
+const client = new SkynetClient(portalUrl);
+const skylink = "XABvi7JtJbQSMAcDwnUnmp2FKDPjg8_tTTFP4BwMSxVdEg";
+
+describe("errors", () => {
+  let mock: MockAdapter;
+
+  beforeEach(() => {
+    mock = new MockAdapter(axios);
+    mock.resetHistory();
+  });
+
+  it("should throw validation errors for invalid parameters", async () => {
+    const promise = client.getFileContent("foo");
+
+    await expect(promise).rejects.toThrowError(ValidationError);
+    await expect(promise).rejects.toThrowError(SkynetError);
+    await expect(promise).rejects.toMatchObject({ name: "ValidationError", valueName: "skylinkUrl" });
+  });
+
+  it("should throw portal response errors for error responses", async () => {
+    mock.onGet(`${portalUrl}/${skylink}`).replyOnce(404, { message: "not found" });
+
+    const promise = client.getFileContent(skylink);
+
+    await expect(promise).rejects.toThrowError(PortalResponseError);
+    await expect(promise).rejects.toMatchObject({
+      message: "Request failed with status code 404",
+      status: 404,
+      portalUrl,
+      responseBody: { message: "not found" },
+    });
+  });
+
+  it("should not convert network errors", async () => {
+    mock.onGet(`${portalUrl}/${skylink}`).networkErrorOnce();
+
+    await expect(client.getFileContent(skylink)).rejects.not.toThrowError(SkynetError);
+  });
+
+  it("should throw upload errors for incomplete upload responses", async () => {
+    mock.onPost(`${portalUrl}/skynet/skyfile`).replyOnce(200, {});
+    const file = new File(["foo"], "bar.txt");
+
+    await expect(client.uploadFile(file)).rejects.toThrowError(UploadError);
+  });
+});
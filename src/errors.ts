@@ -0,0 +1,224 @@
+import type { TransportError, TransportResponse } from "./transport";
+
+/**
+ * The base class of all errors thrown by the SDK.
+ */
+export class SkynetError extends Error {
+  /**
+   * Creates a Skynet error.
+   *
+   * @param message - The error message.
+   */
+  constructor(message: string) {
+    super(message);
+    // Restore the prototype chain, which is lost when targeting ES5.
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = "SkynetError";
+  }
+}
+
+/**
+ * The error thrown when an operation was cancelled through its `signal` option.
+ */
+export class AbortError extends SkynetError {
+  /**
+   * Creates an abort error.
+   *
+   * @param [message] - The error message.
+   */
+  constructor(message = "The operation was aborted") {
+    super(message);
+    this.name = "AbortError";
+  }
+}
+
+/**
+ * The error thrown when a parameter or a response field is not valid.
+ *
+ * @property [valueName] - The name of the invalid value, e.g. "skylink".
+ * @property [valueKind] - The kind of the invalid value, e.g. "parameter" or "response field".
+ */
+export class ValidationError extends SkynetError {
+  valueName?: string;
+  valueKind?: string;
+
+  /**
+   * Creates a validation error.
+   *
+   * @param message - The error message.
+   * @param [valueName] - The name of the invalid value.
+   * @param [valueKind] - The kind of the invalid value.
+   */
+  constructor(message: string, valueName?: string, valueKind?: string) {
+    super(message);
+    this.name = "ValidationError";
+    this.valueName = valueName;
+    this.valueKind = valueKind;
+  }
+}
+
+/**
+ * The error thrown when the portal responded with a status code outside of the
+ * 2xx range. Keeps the `response` field of transport errors.
+ *
+ * @property status - The HTTP status code.
+ * @property portalUrl - The URL of the portal that returned the error.
+ * @property responseBody - The response body.
+ * @property response - The full transport response.
+ */
+export class PortalResponseError extends SkynetError {
+  status: number;
+  portalUrl: string;
+  responseBody: unknown;
+  response: TransportResponse;
+
+  /**
+   * Creates a portal response error.
+   *
+   * @param message - The error message.
+   * @param response - The transport response.
+   * @param portalUrl - The URL of the portal that returned the error.
+   */
+  constructor(message: string, response: TransportResponse, portalUrl: string) {
+    super(message);
+    this.name = "PortalResponseError";
+    this.status = response.status;
+    this.portalUrl = portalUrl;
+    this.responseBody = response.data;
+    this.response = response;
+  }
+
+  /**
+   * Converts the error thrown by a transport for the given request URL. Errors
+   * without a response, e.g. network errors, are returned as-is.
+   *
+   * @param err - The transport error.
+   * @param url - The request URL.
+   * @returns - The converted error.
+   */
+  static fromTransportError(err: unknown, url: string): unknown {
+    const response = (err as TransportError).response;
+    if (err instanceof SkynetError || !response) {
+      return err;
+    }
+    return new PortalResponseError((err as Error).message, response, new URL(url).origin);
+  }
+}
+
+/**
+ * The error thrown when the signature of a registry entry could not be verified.
+ *
+ * @property publicKey - The public key of the entry.
+ * @property dataKey - The data key of the entry.
+ */
+export class SignatureVerificationError extends SkynetError {
+  publicKey: string;
+  dataKey: string;
+
+  /**
+   * Creates a signature verification error.
+   *
+   * @param message - The error message.
+   * @param publicKey - The public key of the entry.
+   * @param dataKey - The data key of the entry.
+   */
+  constructor(message: string, publicKey: string, dataKey: string) {
+    super(message);
+    this.name = "SignatureVerificationError";
+    this.publicKey = publicKey;
+    this.dataKey = dataKey;
+  }
+}
+
+/**
+ * The error thrown when a registry entry could not be set because of its
+ * revision number, e.g. because a newer revision was already set or the
+ * maximum revision was reached.
+ *
+ * @property [revision] - The revision that could not be set, if known.
+ */
+export class RevisionConflictError extends SkynetError {
+  revision?: bigint;
+
+  /**
+   * Creates a revision conflict error.
+   *
+   * @param message - The error message.
+   * @param [revision] - The revision that could not be set.
+   */
+  constructor(message: string, revision?: bigint) {
+    super(message);
+    this.name = "RevisionConflictError";
+    this.revision = revision;
+  }
+}
+
+/**
+ * The error thrown when an upload failed after the request was accepted, e.g.
+ * a failed tus upload or an incomplete upload response.
+ *
+ * @property [status] - The HTTP status code of the failed request, if any.
+ */
+export class UploadError extends SkynetError {
+  status?: number;
+
+  /**
+   * Creates an upload error.
+   *
+   * @param message - The error message.
+   * @param [status] - The HTTP status code of the failed request.
+   */
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = "UploadError";
+    this.status = status;
+  }
+}
+
+/**
+ * The error thrown when a request exceeded its `timeout` option.
+ *
+ * @property phase - The timeout that was exceeded, either "connect" or "overall".
+ * @property timeout - The exceeded timeout in ms.
+ */
+export class TimeoutError extends SkynetError {
+  phase: "connect" | "overall";
+  timeout: number;
+
+  /**
+   * Creates a timeout error.
+   *
+   * @param message - The error message.
+   * @param phase - The timeout that was exceeded.
+   * @param timeout - The exceeded timeout in ms.
+   */
+  constructor(message: string, phase: "connect" | "overall", timeout: number) {
+    super(message);
+    this.name = "TimeoutError";
+    this.phase = phase;
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * The error thrown when downloaded content could not be verified against the
+ * requested skylink, e.g. because the portal returned tampered data or an
+ * invalid registry proof.
+ *
+ * @property [skylink] - The skylink that could not be verified, if known.
+ */
+export class ContentVerificationError extends SkynetError {
+  skylink?: string;
+
+  /**
+   * Creates a content verification error.
+   *
+   * @param message - The error message.
+   * @param [skylink] - The skylink that could not be verified.
+   */
+  constructor(message: string, skylink?: string) {
+    super(message);
+    this.name = "ContentVerificationError";
+    this.skylink = skylink;
+  }
+}
@@ -16,6 +16,10 @@ describe("SkynetClient", () => {
     expect(client).toHaveProperty("openFile");
     expect(client).toHaveProperty("openFileHns");
     expect(client).toHaveProperty("resolveHns");
+    expect(client).toHaveProperty("resolveSkylink");
+    expect(client).toHaveProperty("listDirectory");
+    expect(client).toHaveProperty("statPath");
+    expect(client).toHaveProperty("walk");
 
     // Upload
     expect(client).toHaveProperty("uploadFile");
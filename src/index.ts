@@ -22,9 +22,26 @@ export {
   ENCRYPTION_PATH_SEED_LENGTH,
 } from "./mysky/encrypted_files";
 export { deriveDiscoverableFileTweak } from "./mysky/tweak";
+export { PortalPool, SIASKY_NET_SERVERS } from "./portal_pool";
+export { RequestScheduler } from "./scheduler";
+export { UploadHandle } from "./upload_handle";
+export { createOpenTelemetryTracer, SpanStatusCode } from "./tracing";
+export {
+  AbortError,
+  ContentVerificationError,
+  PortalResponseError,
+  RevisionConflictError,
+  SignatureVerificationError,
+  SkynetError,
+  TimeoutError,
+  UploadError,
+  ValidationError,
+} from "./errors";
+export { computeSkylink } from "./skylink/compute";
 export { convertSkylinkToBase32, convertSkylinkToBase64 } from "./skylink/format";
 export { parseSkylink } from "./skylink/parse";
 export { isSkylinkV1, isSkylinkV2 } from "./skylink/sia";
+export { axiosTransport, createAxiosTransport, createFetchTransport, fetchTransport } from "./transport";
 export { getRelativeFilePath, getRootDirectory } from "./utils/file";
 export { MAX_REVISION } from "./utils/number";
 export { stringToUint8ArrayUtf8, uint8ArrayToStringUtf8 } from "./utils/string";
@@ -55,13 +72,57 @@ export {
 
 // Export types.
 
+export type {
+  CustomPortalCapabilitiesOptions,
+  PortalCapabilities,
+  PortalEndpoints,
+  TusCapabilities,
+} from "./capabilities";
 export type { CustomClientOptions, RequestConfig } from "./client";
 export type { KeyPair, KeyPairAndSeed, Signature } from "./crypto";
-export type { CustomDownloadOptions, ResolveHnsResponse } from "./download";
+export type { SkyfileDirectoryEntry } from "./directory";
+export type {
+  CustomDownloadOptions,
+  GetFileStreamResponse,
+  ResolveHnsResponse,
+  SkyfileMetadata,
+  SkyfileSubfileMetadata,
+} from "./download";
 export type { CustomConnectorOptions, EntryData } from "./mysky";
 export type { CustomPinOptions, PinResponse } from "./pin";
+export type { PortalHealth } from "./portal_pool";
+export type { Middleware, MiddlewareNext } from "./middleware";
+export type { TimeoutOptions } from "./timeout";
+export type {
+  LogFunction,
+  Logger,
+  OpenTelemetryApi,
+  OpenTelemetryTracer,
+  Span,
+  SpanAttributes,
+  SpanAttributeValue,
+  SpanStatus,
+  Tracer,
+  TracingOptions,
+} from "./tracing";
 export type { CustomGetEntryOptions, CustomSetEntryOptions, SignedRegistryEntry, RegistryEntry } from "./registry";
+export type { RegistryProofEntry } from "./registry_proof";
+export type { CustomResolveSkylinkOptions, RegistryEntryKeys, ResolveSkylinkResponse } from "./resolve";
 export type { CustomGetJSONOptions, CustomSetJSONOptions, JSONResponse, RawBytesResponse } from "./skydb";
+export type { RetryEvent, RetryOptions } from "./retry";
+export type { CustomUploadFilesOptions, UploadFilesResult } from "./batch_upload";
+export type { CustomPendingUploadsOptions, PendingUpload, UploadUrlStorage } from "./resumable_upload";
+export type { ConcurrencyOptions, RequestClass } from "./scheduler";
+export type { SegmentedDownloadOptions } from "./segmented_download";
 export type { ParseSkylinkOptions } from "./skylink/parse";
-export type { CustomUploadOptions, UploadRequestResponse } from "./upload";
+export type { Transport, TransportError, TransportHeaders, TransportRequest, TransportResponse } from "./transport";
+export type {
+  CustomUploadDataOptions,
+  CustomUploadFileOptions,
+  CustomUploadOptions,
+  UploadData,
+  UploadRequestResponse,
+} from "./upload";
+export type { UploadProgress } from "./progress";
+export type { UploadProgressListener, UploadState } from "./upload_handle";
 export type { JsonData } from "./utils/types";
@@ -1,6 +1,6 @@
 import { AxiosError } from "axios";
 import { hashDataKey } from "./crypto";
-import { genKeyPairAndSeed, SkynetClient } from "./index";
+import { computeSkylink, genKeyPairAndSeed, SkynetClient } from "./index";
 import { decodeSkylinkBase64 } from "./utils/encoding";
 import { stringToUint8ArrayUtf8, toHexString, trimPrefix } from "./utils/string";
 import { defaultSkynetPortalUrl, uriSkynetPrefix } from "./utils/url";
@@ -427,6 +427,19 @@ describe(`Integration test for portal '${portal}'`, () => {
       expect(metadata).toEqual(expect.objectContaining({ filename: customFilename }));
     });
 
+    it("Should compute the skylink returned by the portal", async () => {
+      const file = new File([fileData], dataKey, { type: plaintextType });
+      const { skylink } = await client.uploadFile(file);
+
+      // The portal encodes the metadata, which has to match the metadata computeSkylink encodes.
+      const { metadata } = await client.getMetadata(skylink);
+      expect(metadata).toEqual(plaintextMetadata);
+      expect(`${uriSkynetPrefix}${await computeSkylink(fileData, dataKey, plaintextMetadata)}`).toEqual(skylink);
+      await expect(client.uploadFile(file, { verifySkylink: true })).resolves.toEqual(
+        expect.objectContaining({ skylink })
+      );
+    });
+
     it("Should get plaintext file contents", async () => {
       // Upload the data to acquire its skylink.
 
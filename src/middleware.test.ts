@@ -0,0 +1,70 @@
+import axios from "axios";
+import MockAdapter from "axios-mock-adapter";
+
+import { SkynetClient, DEFAULT_SKYNET_PORTAL_URL } from "./index";
+
+const portalUrl = DEFAULT_SKYNET_PORTAL_URL;
+const skylink = "XABvi7JtJbQSMAcDwnUnmp2FKDPjg8_tTTFP4BwMSxVdEg";
+const downloadUrl = `${portalUrl}/${skylink}`;
+
+describe("client.use", () => {
+  let mock: MockAdapter;
+
+  beforeEach(() => {
+    mock = new MockAdapter(axios);
+    mock.resetHistory();
+  });
+
+  it("should run middleware in order and allow modifying the request", async () => {
+    const calls: string[] = [];
+    const client = new SkynetClient(portalUrl)
+      .use(async (config, next) => {
+        calls.push("first");
+        return next({ ...config, headers: { ...config.headers, Authorization: "Bearer foo" } });
+      })
+      .use(async (config, next) => {
+        calls.push("second");
+        const response = await next({ ...config, query: { ...config.query, signed: "bar" } });
+        calls.push(`status ${response.status}`);
+        return response;
+      });
+
+    mock.onGet(`${downloadUrl}?signed=bar`).replyOnce(200, "foo", {});
+    const { data } = await client.getFileContent(skylink);
+
+    expect(data).toEqual("foo");
+    expect(calls).toEqual(["first", "second", "status 200"]);
+    const request = mock.history.get[0];
+    expect(request.url).toEqual(`${downloadUrl}?signed=bar`);
+    expect(request.headers["Authorization"]).toEqual("Bearer foo");
+  });
+
+  it("should let middleware see errors", async () => {
+    mock.onGet(downloadUrl).replyOnce(404);
+    const onError = jest.fn();
+    const client = new SkynetClient(portalUrl).use(async (config, next) => {
+      try {
+        return await next(config);
+      } catch (err) {
+        onError(err);
+        throw err;
+      }
+    });
+
+    await expect(client.getFileContent(skylink)).rejects.toThrowError("Request failed with status code 404");
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  it("should allow short-circuiting the chain", async () => {
+    const client = new SkynetClient(portalUrl).use(async () => ({
+      data: "cached",
+      status: 200,
+      headers: { "skynet-skylink": skylink },
+    }));
+
+    const { data } = await client.getFileContent(skylink);
+
+    expect(data).toEqual("cached");
+    expect(mock.history.get.length).toBe(0);
+  });
+});
@@ -0,0 +1,38 @@
+import type { RequestConfig } from "./client";
+import { TransportResponse } from "./transport";
+
+/**
+ * Sends the request to the next middleware in the chain, or to the portal if
+ * this is the last middleware.
+ */
+export type MiddlewareNext = (config: RequestConfig) => Promise<TransportResponse>;
+
+/**
+ * A request middleware. Can inspect and modify the request config before
+ * passing it to `next`, inspect the response or error returned by `next`, or
+ * short-circuit the chain by returning a response without calling `next`.
+ */
+export type Middleware = (config: RequestConfig, next: MiddlewareNext) => Promise<TransportResponse>;
+
+/**
+ * Runs the request through the given middleware chain. Middleware added first
+ * runs first.
+ *
+ * @param middlewares - The middleware chain.
+ * @param config - The request config.
+ * @param send - The function that sends the final request config.
+ * @returns - The response returned by the chain.
+ */
+export function runMiddleware(
+  middlewares: Middleware[],
+  config: RequestConfig,
+  send: MiddlewareNext
+): Promise<TransportResponse> {
+  const dispatch = (index: number, config: RequestConfig): Promise<TransportResponse> => {
+    if (index === middlewares.length) {
+      return send(config);
+    }
+    return middlewares[index](config, (nextConfig) => dispatch(index + 1, nextConfig));
+  };
+  return dispatch(0, config);
+}
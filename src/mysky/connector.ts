@@ -4,6 +4,7 @@ import { Connection, ParentHandshake, WindowMessenger } from "post-me";
 import { createIframe, defaultHandshakeAttemptsInterval, defaultHandshakeMaxAttempts } from "skynet-mysky-utils";
 
 import { SkynetClient } from "../client";
+import { SkynetError } from "../errors";
 import { addUrlQuery } from "../utils/url";
 
 /**
@@ -62,7 +63,7 @@ export class Connector {
     const childFrame = createIframe(domainUrl, domainUrl);
     // The frame window should always exist. Sanity check + make TS happy.
     if (!childFrame.contentWindow) {
-      throw new Error("'childFrame.contentWindow' was null");
+      throw new SkynetError("'childFrame.contentWindow' was null");
     }
     const childWindow = childFrame.contentWindow;
 
@@ -3,6 +3,7 @@
 import { Permission } from "skynet-mysky-utils";
 
 import { SkynetClient } from "../client";
+import { SkynetError } from "../errors";
 import { Connector, CustomConnectorOptions } from "./connector";
 
 export abstract class DacLibrary {
@@ -19,7 +20,7 @@ export abstract class DacLibrary {
 
   async onUserLogin(): Promise<void> {
     if (!this.connector) {
-      throw new Error("init was not called");
+      throw new SkynetError("init was not called");
     }
 
     await this.connector.connection.remoteHandle().call("onUserLogin");
@@ -3,6 +3,7 @@ import { sanitizePath } from "skynet-mysky-utils";
 import { secretbox } from "tweetnacl";
 
 import { HASH_LENGTH, sha512 } from "../crypto";
+import { SkynetError, ValidationError } from "../errors";
 import { hexToUint8Array, stringToUint8ArrayUtf8, toHexString, uint8ArrayToStringUtf8 } from "../utils/string";
 import { JsonData } from "../utils/types";
 import {
@@ -87,10 +88,12 @@ export function decryptJSONFile(data: Uint8Array, key: Uint8Array): JsonData {
 
   // Validate that the size of the data corresponds to a padded block.
   if (!checkPaddedBlock(data.length)) {
-    throw new Error(
+    throw new ValidationError(
       `Expected parameter 'data' to be padded encrypted data, length was '${
         data.length
-      }', nearest padded block is '${padFileSize(data.length)}'`
+      }', nearest padded block is '${padFileSize(data.length)}'`,
+      "data",
+      "parameter"
     );
   }
 
@@ -103,7 +106,7 @@ export function decryptJSONFile(data: Uint8Array, key: Uint8Array): JsonData {
   data = data.slice(ENCRYPTION_HIDDEN_FIELD_METADATA_LENGTH);
   const metadata = decodeEncryptedFileMetadata(metadataBytes);
   if (metadata.version !== ENCRYPTED_JSON_RESPONSE_VERSION) {
-    throw new Error(
+    throw new ValidationError(
       `Received unrecognized JSON response version '${metadata.version}' in metadata, expected '${ENCRYPTED_JSON_RESPONSE_VERSION}'`
     );
   }
@@ -111,7 +114,7 @@ export function decryptJSONFile(data: Uint8Array, key: Uint8Array): JsonData {
   // Decrypt the non-nonce part of the data.
   let decryptedBytes = secretbox.open(data, nonce, key);
   if (!decryptedBytes) {
-    throw new Error("Could not decrypt given encrypted JSON file");
+    throw new SkynetError("Could not decrypt given encrypted JSON file");
   }
 
   // Trim the 0-byte padding off the end of the decrypted bytes. This should never remove real data as
@@ -206,7 +209,7 @@ export function deriveEncryptedFileSeed(pathSeed: string, subPath: string, isDir
   let pathSeedBytes = hexToUint8Array(pathSeed);
   const sanitizedPath = sanitizePath(subPath);
   if (sanitizedPath === null) {
-    throw new Error(`Input subPath '${subPath}' not a valid path`);
+    throw new ValidationError(`Input subPath '${subPath}' not a valid path`, "subPath", "parameter");
   }
   const names = sanitizedPath.split("/");
 
@@ -285,7 +288,7 @@ export function padFileSize(initialSize: number): number {
     }
   }
   // Prevent overflow. Max JS number size is 2^53-1.
-  throw new Error("Could not pad file size, overflow detected.");
+  throw new SkynetError("Could not pad file size, overflow detected.");
 }
 
 /**
@@ -305,7 +308,7 @@ export function checkPaddedBlock(size: number): boolean {
     }
   }
   // Prevent overflow. Max JS number size is 2^53-1.
-  throw new Error("Could not check padded file size, overflow detected.");
+  throw new SkynetError("Could not check padded file size, overflow detected.");
 }
 
 /**
@@ -338,7 +341,11 @@ export function encodeEncryptedFileMetadata(metadata: EncryptedFileMetadata): Ui
 
   // Encode the version
   if (metadata.version >= 1 << 8 || metadata.version < 0) {
-    throw new Error(`Metadata version '${metadata.version}' could not be stored in a uint8`);
+    throw new ValidationError(
+      `Metadata version '${metadata.version}' could not be stored in a uint8`,
+      "metadata.version",
+      "parameter"
+    );
   }
   // Don't need to use a DataView or worry about endianness for a uint8.
   bytes[0] = metadata.version;
@@ -16,6 +16,8 @@ import {
 
 import { Connector, CustomConnectorOptions, DEFAULT_CONNECTOR_OPTIONS } from "./connector";
 import { SkynetClient } from "../client";
+import { SkynetError } from "../errors";
+import { traceOperation } from "../tracing";
 import { DacLibrary } from "./dac";
 import {
   CustomGetEntryOptions,
@@ -224,7 +226,7 @@ export class MySky {
     if (frame) {
       // The parent node should always exist. Sanity check + make TS happy.
       if (!frame.parentNode) {
-        throw new Error("'childFrame.parentNode' was not set");
+        throw new SkynetError("'childFrame.parentNode' was not set");
       }
       frame.parentNode.removeChild(frame);
     }
@@ -372,18 +374,22 @@ export class MySky {
       ...customOptions,
     };
 
-    const publicKey = await this.userID();
-    const dataKey = deriveDiscoverableFileTweak(path);
-    opts.hashedDataKeyHex = true; // Do not hash the tweak anymore.
+    return traceOperation(opts, "mySky.setJSON", { "skynet.path": path }, async (parentSpan) => {
+      opts.parentSpan = parentSpan;
 
-    const [entry, dataLink] = await getOrCreateRegistryEntry(this.connector.client, publicKey, dataKey, json, opts);
+      const publicKey = await this.userID();
+      const dataKey = deriveDiscoverableFileTweak(path);
+      opts.hashedDataKeyHex = true; // Do not hash the tweak anymore.
 
-    const signature = await this.signRegistryEntry(entry, path);
+      const [entry, dataLink] = await getOrCreateRegistryEntry(this.connector.client, publicKey, dataKey, json, opts);
 
-    const setEntryOpts = extractOptions(opts, DEFAULT_SET_ENTRY_OPTIONS);
-    await this.connector.client.registry.postSignedEntry(publicKey, entry, signature, setEntryOpts);
+      const signature = await this.signRegistryEntry(entry, path);
+
+      const setEntryOpts = extractOptions(opts, DEFAULT_SET_ENTRY_OPTIONS);
+      await this.connector.client.registry.postSignedEntry(publicKey, entry, signature, setEntryOpts);
 
-    return { data: json, dataLink };
+      return { data: json, dataLink };
+    });
   }
 
   /**
@@ -406,23 +412,27 @@ export class MySky {
       ...customOptions,
     };
 
-    const publicKey = await this.userID();
-    const dataKey = deriveDiscoverableFileTweak(path);
-    opts.hashedDataKeyHex = true; // Do not hash the tweak anymore.
+    return traceOperation(opts, "mySky.setDataLink", { "skynet.path": path }, async (parentSpan) => {
+      opts.parentSpan = parentSpan;
 
-    const getEntryOpts = extractOptions(opts, DEFAULT_GET_ENTRY_OPTIONS);
-    const entry = await getNextRegistryEntry(
-      this.connector.client,
-      publicKey,
-      dataKey,
-      decodeSkylink(dataLink),
-      getEntryOpts
-    );
+      const publicKey = await this.userID();
+      const dataKey = deriveDiscoverableFileTweak(path);
+      opts.hashedDataKeyHex = true; // Do not hash the tweak anymore.
 
-    const signature = await this.signRegistryEntry(entry, path);
+      const getEntryOpts = extractOptions(opts, DEFAULT_GET_ENTRY_OPTIONS);
+      const entry = await getNextRegistryEntry(
+        this.connector.client,
+        publicKey,
+        dataKey,
+        decodeSkylink(dataLink),
+        getEntryOpts
+      );
 
-    const setEntryOpts = extractOptions(opts, DEFAULT_SET_ENTRY_OPTIONS);
-    await this.connector.client.registry.postSignedEntry(publicKey, entry, signature, setEntryOpts);
+      const signature = await this.signRegistryEntry(entry, path);
+
+      const setEntryOpts = extractOptions(opts, DEFAULT_SET_ENTRY_OPTIONS);
+      await this.connector.client.registry.postSignedEntry(publicKey, entry, signature, setEntryOpts);
+    });
   }
 
   /**
@@ -621,24 +631,28 @@ export class MySky {
       ...customOptions,
     };
 
-    // Call MySky which checks for read permissions on the path.
-    const [publicKey, pathSeed] = await Promise.all([this.userID(), this.getEncryptedFileSeed(path, false)]);
-    const dataKey = deriveEncryptedFileTweak(pathSeed);
-    opts.hashedDataKeyHex = true; // Do not hash the tweak anymore.
-    const encryptionKey = deriveEncryptedFileKeyEntropy(pathSeed);
+    return traceOperation(opts, "mySky.setJSONEncrypted", { "skynet.path": path }, async (parentSpan) => {
+      opts.parentSpan = parentSpan;
 
-    // Pad and encrypt json file.
-    const data = encryptJSONFile(json, { version: ENCRYPTED_JSON_RESPONSE_VERSION }, encryptionKey);
+      // Call MySky which checks for read permissions on the path.
+      const [publicKey, pathSeed] = await Promise.all([this.userID(), this.getEncryptedFileSeed(path, false)]);
+      const dataKey = deriveEncryptedFileTweak(pathSeed);
+      opts.hashedDataKeyHex = true; // Do not hash the tweak anymore.
+      const encryptionKey = deriveEncryptedFileKeyEntropy(pathSeed);
 
-    const entry = await getOrCreateRawBytesRegistryEntry(this.connector.client, publicKey, dataKey, data, opts);
+      // Pad and encrypt json file.
+      const data = encryptJSONFile(json, { version: ENCRYPTED_JSON_RESPONSE_VERSION }, encryptionKey);
 
-    // Call MySky which checks for write permissions on the path.
-    const signature = await this.signEncryptedRegistryEntry(entry, path);
+      const entry = await getOrCreateRawBytesRegistryEntry(this.connector.client, publicKey, dataKey, data, opts);
 
-    const setEntryOpts = extractOptions(opts, DEFAULT_SET_ENTRY_OPTIONS);
-    await this.connector.client.registry.postSignedEntry(publicKey, entry, signature, setEntryOpts);
+      // Call MySky which checks for write permissions on the path.
+      const signature = await this.signEncryptedRegistryEntry(entry, path);
 
-    return { data: json };
+      const setEntryOpts = extractOptions(opts, DEFAULT_SET_ENTRY_OPTIONS);
+      await this.connector.client.registry.postSignedEntry(publicKey, entry, signature, setEntryOpts);
+
+      return { data: json };
+    });
   }
 
   // ================
@@ -659,7 +673,7 @@ export class MySky {
 
     const childWindow = popupCenter(uiUrl, mySkyUiTitle, mySkyUiW, mySkyUiH);
     if (!childWindow) {
-      throw new Error(`Could not open window at '${uiUrl}'`);
+      throw new SkynetError(`Could not open window at '${uiUrl}'`);
     }
 
     return childWindow;
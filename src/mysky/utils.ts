@@ -1,6 +1,7 @@
 import { ensureUrl } from "skynet-mysky-utils";
 
 import { SkynetClient } from "../client";
+import { SkynetError } from "../errors";
 import { getFullDomainUrlForPortal, extractDomainForPortal } from "../utils/url";
 
 /**
@@ -75,7 +76,7 @@ left=${left}
 `
   );
   if (!newWindow) {
-    throw new Error("could not open window");
+    throw new SkynetError("could not open window");
   }
 
   if (newWindow.focus) {
@@ -0,0 +1,33 @@
+import { CustomClientOptions, SkynetClient as BaseSkynetClient } from "../client";
+import { fetchTransport } from "../transport";
+import { DEFAULT_SKYNET_PORTAL_URL } from "../utils/url";
+import { downloadToPath } from "./download";
+import { uploadDirectoryFromPath, uploadPath } from "./upload";
+import { FileUrlStorage } from "./url_storage";
+
+/**
+ * The Skynet Client for Node.js, which can also upload from and download to
+ * the filesystem.
+ */
+export class SkynetClient extends BaseSkynetClient {
+  // Filesystem
+
+  uploadPath = uploadPath;
+  uploadDirectoryFromPath = uploadDirectoryFromPath;
+  downloadToPath = downloadToPath;
+
+  /**
+   * The Skynet Client for Node.js.
+   *
+   * @class
+   * @param [initialPortalUrl] The portal URL to use to access Skynet. Defaults to `DEFAULT_SKYNET_PORTAL_URL` since there is no current page to get the portal from. If a list of portals is given, reads fail over to the healthiest portals and writes go to the first portal.
+   * @param [customOptions] Configuration for the client. The transport defaults to `fetchTransport`, which supports Node's global `FormData`, and unfinished large uploads are stored in `DEFAULT_URL_STORAGE_PATH`.
+   */
+  constructor(initialPortalUrl: string | string[] = "", customOptions: CustomClientOptions = {}) {
+    super(initialPortalUrl || DEFAULT_SKYNET_PORTAL_URL, {
+      transport: fetchTransport,
+      urlStorage: new FileUrlStorage(),
+      ...customOptions,
+    });
+  }
+}
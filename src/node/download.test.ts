@@ -0,0 +1,88 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Readable } from "stream";
+
+import { SkynetClient, DEFAULT_SKYNET_PORTAL_URL, URI_SKYNET_PREFIX } from "./index";
+import { TransportRequest, TransportResponse } from "../transport";
+
+const portalUrl = DEFAULT_SKYNET_PORTAL_URL;
+const skylink = "XABvi7JtJbQSMAcDwnUnmp2FKDPjg8_tTTFP4BwMSxVdEg";
+const headers = {
+  "content-type": "text/plain",
+  "content-length": "6",
+  "skynet-portal-api": portalUrl,
+  "skynet-skylink": skylink,
+};
+
+/**
+ * Creates a minimal web stream, which jsdom doesn't provide.
+ *
+ * @param chunks - The chunks of the stream.
+ * @returns - The web stream.
+ */
+function createWebStream(chunks: Uint8Array[]): Pick<ReadableStream, "getReader"> {
+  const reader = {
+    read: async () => {
+      const value = chunks.shift();
+      return value ? { done: false, value } : { done: true, value: undefined };
+    },
+    releaseLock: () => undefined,
+  };
+  return { getReader: () => reader as unknown as ReadableStreamDefaultReader };
+}
+
+describe("downloadToPath", () => {
+  let dir: string;
+  let destPath: string;
+
+  beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "skynet-js-"));
+    destPath = path.join(dir, "foo.txt");
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  it.each([
+    ["a Node.js stream", () => Readable.from([Buffer.from("foo"), Buffer.from("bar")])],
+    ["a web stream", () => createWebStream([Buffer.from("foo"), Buffer.from("bar")])],
+  ])("should write %s to the file and report progress", async (_, createBody) => {
+    let request: TransportRequest | undefined;
+    const transport = async (req: TransportRequest): Promise<TransportResponse> => {
+      request = req;
+      return { data: createBody(), status: 200, headers };
+    };
+    const client = new SkynetClient(portalUrl, { transport });
+    const onDownloadProgress = jest.fn();
+
+    const response = await client.downloadToPath(skylink, destPath, { onDownloadProgress });
+
+    expect(request?.url).toEqual(`${portalUrl}/${skylink}?attachment=true`);
+    expect(request?.responseType).toEqual("stream");
+    expect(response).toEqual({
+      contentType: "text/plain",
+      portalUrl,
+      skylink: `${URI_SKYNET_PREFIX}${skylink}`,
+      size: 6,
+    });
+    expect(await fs.promises.readFile(destPath, "utf8")).toEqual("foobar");
+    expect(onDownloadProgress).toHaveBeenLastCalledWith(1, { loaded: 6, total: 6 });
+  });
+
+  it("should remove the file if the download is aborted", async () => {
+    const controller = new AbortController();
+    const body = new Readable({ read: () => undefined });
+    const transport = async (): Promise<TransportResponse> => ({ data: body, status: 200, headers });
+    const client = new SkynetClient(portalUrl, { transport });
+
+    const promise = client.downloadToPath(skylink, destPath, { signal: controller.signal });
+    body.push("foo");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    controller.abort();
+
+    await expect(promise).rejects.toThrowError("The operation was aborted");
+    expect(fs.existsSync(destPath)).toBeFalsy();
+  });
+});
@@ -0,0 +1,130 @@
+import fs from "fs";
+import { pipeline as pipelineCallback, Readable, Transform } from "stream";
+import { promisify } from "util";
+
+import { SkynetClient } from "../client";
+import { CustomDownloadOptions, DEFAULT_DOWNLOAD_OPTIONS } from "../download";
+import { AbortError } from "../errors";
+import { formatSkylink } from "../skylink/format";
+import { onAbort } from "../utils/abort";
+import { iterateWebReadableStream } from "../utils/stream";
+import { validateOptionalObject, validateString } from "../utils/validation";
+
+// `stream/promises` is only available from Node.js 15.
+const pipeline = promisify(pipelineCallback);
+
+/**
+ * The response to a download to path request.
+ *
+ * @property contentType - The type of the content.
+ * @property portalUrl - The URL of the portal.
+ * @property skylink - 46-character skylink.
+ * @property size - The number of bytes written.
+ */
+export type DownloadToPathResponse = {
+  contentType: string;
+  portalUrl: string;
+  skylink: string;
+  size: number;
+};
+
+/**
+ * Downloads the content of the skylink and streams it to a file. The file is
+ * removed if the download fails.
+ *
+ * @param this - SkynetClient
+ * @param skylinkUrl - 46-character skylink, or a valid skylink URL. Can be followed by a path.
+ * @param destPath - The path of the file to write.
+ * @param [customOptions] - Additional settings that can optionally be set.
+ * @param [customOptions.endpointDownload="/"] - The relative URL path of the portal endpoint to contact.
+ * @returns - The content type, portal URL, skylink and size of the download.
+ * @throws - Will throw if the input is not valid or if the download failed.
+ */
+export async function downloadToPath(
+  this: SkynetClient,
+  skylinkUrl: string,
+  destPath: string,
+  customOptions?: CustomDownloadOptions
+): Promise<DownloadToPathResponse> {
+  validateString("destPath", destPath, "parameter");
+  validateOptionalObject("customOptions", customOptions, "parameter", DEFAULT_DOWNLOAD_OPTIONS);
+
+  const opts = { ...DEFAULT_DOWNLOAD_OPTIONS, ...this.customOptions, ...customOptions, download: true };
+
+  const url = await this.getSkylinkUrl(skylinkUrl, opts);
+  const response = await this.executeRequest({
+    ...opts,
+    endpointPath: opts.endpointDownload,
+    method: "get",
+    url,
+    headers: opts.range ? { Range: opts.range } : undefined,
+    responseType: "stream",
+    // Progress is reported while writing the file.
+    onDownloadProgress: undefined,
+  });
+
+  const total = Number(response.headers["content-length"] ?? 0);
+  let loaded = 0;
+  const reportProgress = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      loaded += chunk.length;
+      if (opts.onDownloadProgress) {
+        const progress = total ? loaded / total : 1;
+        opts.onDownloadProgress(progress, { loaded, total } as ProgressEvent);
+      }
+      callback(null, chunk);
+    },
+  });
+
+  const source = toNodeReadable(response.data);
+  const removeAbortListener = onAbort(opts.signal, () => source.destroy(new AbortError()));
+  try {
+    await pipeline(source, reportProgress, fs.createWriteStream(destPath));
+  } catch (err) {
+    await removeFile(destPath);
+    throw err;
+  } finally {
+    removeAbortListener();
+  }
+
+  return {
+    contentType: response.headers["content-type"] ?? "",
+    portalUrl: response.headers["skynet-portal-api"] ?? "",
+    skylink: response.headers["skynet-skylink"] ? formatSkylink(response.headers["skynet-skylink"]) : "",
+    size: loaded,
+  };
+}
+
+/**
+ * Converts the response body to a Node.js stream. The axios transport returns
+ * Node.js streams while the fetch transport returns web streams.
+ *
+ * @param body - The response body.
+ * @returns - The Node.js stream.
+ */
+function toNodeReadable(body: unknown): Readable {
+  if (body instanceof Readable) {
+    return body;
+  }
+  if (typeof (body as ReadableStream).getReader === "function") {
+    return Readable.from(iterateWebReadableStream(body as ReadableStream<Uint8Array>));
+  }
+  // The transport did not support streaming, e.g. a custom transport.
+  return Readable.from([Buffer.from(body as Uint8Array)]);
+}
+
+/**
+ * Removes the file if it exists.
+ *
+ * @param path - The path of the file.
+ * @returns - An empty promise.
+ */
+async function removeFile(path: string): Promise<void> {
+  try {
+    await fs.promises.unlink(path);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw err;
+    }
+  }
+}
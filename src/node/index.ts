@@ -0,0 +1,10 @@
+// Node.js entry point, `skynet-js/node`. Exports everything from the main
+// entry point, with a `SkynetClient` that can also use the filesystem.
+
+export * from "../index";
+export { SkynetClient } from "./client";
+export { DEFAULT_UPLOAD_DIRECTORY_FROM_PATH_OPTIONS } from "./upload";
+export { DEFAULT_URL_STORAGE_PATH, FileUrlStorage } from "./url_storage";
+
+export type { DownloadToPathResponse } from "./download";
+export type { CustomUploadDirectoryFromPathOptions } from "./upload";
@@ -0,0 +1,128 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { SkynetClient, DEFAULT_SKYNET_PORTAL_URL, URI_SKYNET_PREFIX } from "./index";
+import { TransportRequest, TransportResponse } from "../transport";
+import { compareFormData } from "../../utils/testing";
+
+const portalUrl = DEFAULT_SKYNET_PORTAL_URL;
+const skylink = "XABvi7JtJbQSMAcDwnUnmp2FKDPjg8_tTTFP4BwMSxVdEg";
+
+/**
+ * Returns the names and types of the files in the given form data field.
+ *
+ * @param formData - The form data.
+ * @param field - The field name.
+ * @returns - The name and type of every file.
+ */
+function getFiles(formData: FormData, field: string): string[][] {
+  // Some systems use ":" as the path delimiter.
+  return formData.getAll(field).map((file) => [(file as File).name.replace(/:/g, "/"), (file as File).type]);
+}
+
+describe("node upload", () => {
+  let dir: string;
+  let requests: TransportRequest[];
+  let client: SkynetClient;
+
+  beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "skynet-js-"));
+    requests = [];
+    const transport = async (request: TransportRequest): Promise<TransportResponse> => {
+      requests.push(request);
+      return { data: { skylink, merkleroot: "", bitfield: 0 }, status: 200, headers: {} };
+    };
+    client = new SkynetClient(portalUrl, { transport });
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  describe("uploadPath", () => {
+    it("should upload the file", async () => {
+      const filePath = path.join(dir, "foo.json");
+      await fs.promises.writeFile(filePath, "{}");
+
+      const { skylink: returnedSkylink } = await client.uploadPath(filePath);
+
+      expect(returnedSkylink).toEqual(`${URI_SKYNET_PREFIX}${skylink}`);
+      expect(requests.length).toEqual(1);
+      expect(requests[0].url).toEqual(`${portalUrl}/skynet/skyfile`);
+      await compareFormData(requests[0].data as Record<string, unknown>, [["file", "{}", "foo.json"]]);
+      expect(getFiles(requests[0].data as FormData, "file")).toEqual([["foo.json", "application/json"]]);
+    });
+
+    it("should use the custom filename", async () => {
+      const filePath = path.join(dir, "foo.json");
+      await fs.promises.writeFile(filePath, "{}");
+
+      await client.uploadPath(filePath, { customFilename: "bar.txt" });
+
+      expect(getFiles(requests[0].data as FormData, "file")).toEqual([["bar.txt", "text/plain"]]);
+    });
+
+    it("should throw if the path is not a file", async () => {
+      await expect(client.uploadPath(dir)).rejects.toThrowError(`Path '${dir}' is not a file`);
+    });
+  });
+
+  describe("uploadDirectoryFromPath", () => {
+    beforeEach(async () => {
+      await fs.promises.mkdir(path.join(dir, "site", "css"), { recursive: true });
+      await fs.promises.mkdir(path.join(dir, "site", ".git"));
+      await fs.promises.writeFile(path.join(dir, "site", "index.html"), "<html></html>");
+      await fs.promises.writeFile(path.join(dir, "site", "css", "main.css"), "body {}");
+      await fs.promises.writeFile(path.join(dir, "site", ".git", "HEAD"), "ref");
+    });
+
+    it("should upload all files in the directory", async () => {
+      await client.uploadDirectoryFromPath(path.join(dir, "site"));
+
+      expect(requests[0].url).toEqual(`${portalUrl}/skynet/skyfile?filename=site`);
+      await compareFormData(requests[0].data as Record<string, unknown>, [
+        ["files[]", "ref", ".git/HEAD"],
+        ["files[]", "body {}", "css/main.css"],
+        ["files[]", "<html></html>", "index.html"],
+      ]);
+      expect(getFiles(requests[0].data as FormData, "files[]")).toEqual([
+        [".git/HEAD", ""],
+        ["css/main.css", "text/css"],
+        ["index.html", "text/html"],
+      ]);
+    });
+
+    it("should skip ignored names", async () => {
+      await client.uploadDirectoryFromPath(path.join(dir, "site"), { ignore: [".git"] });
+
+      const files = getFiles(requests[0].data as FormData, "files[]");
+      expect(files.map(([filename]) => filename)).toEqual(["css/main.css", "index.html"]);
+    });
+
+    it("should skip paths matched by the ignore function", async () => {
+      await client.uploadDirectoryFromPath(path.join(dir, "site"), {
+        ignore: (relativePath) => relativePath.endsWith(".css") || relativePath === ".git",
+        customFilename: "web",
+      });
+
+      expect(requests[0].url).toEqual(`${portalUrl}/skynet/skyfile?filename=web`);
+      const files = getFiles(requests[0].data as FormData, "files[]");
+      expect(files.map(([filename]) => filename)).toEqual(["index.html"]);
+    });
+
+    it("should throw if the directory does not contain any files", async () => {
+      await expect(client.uploadDirectoryFromPath(path.join(dir, "site"), { ignore: () => true })).rejects.toThrowError(
+        "does not contain any files"
+      );
+    });
+
+    it("should throw if the path is not a directory", async () => {
+      const filePath = path.join(dir, "site", "index.html");
+
+      await expect(client.uploadDirectoryFromPath(filePath)).rejects.toThrowError(
+        `Path '${filePath}' is not a directory`
+      );
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import fs from "fs";
+import path from "path";
+
+import { SkynetClient } from "../client";
+import { ValidationError } from "../errors";
+import { CustomUploadOptions, DEFAULT_UPLOAD_OPTIONS, isLargeUpload, UploadRequestResponse } from "../upload";
+import { getMimeTypeFromFilename } from "../utils/file";
+import { extractOptions } from "../utils/options";
+import { validateOptionalObject, validateString } from "../utils/validation";
+
+/**
+ * Custom options for uploading a directory from the filesystem.
+ *
+ * @property [ignore] - The files and directories to skip. Either a list of names, which are matched against every component of the path, e.g. [".git", "node_modules"], or a function which is called with the relative path of every file and directory and returns true to skip it.
+ */
+export type CustomUploadDirectoryFromPathOptions = CustomUploadOptions & {
+  ignore?: string[] | ((relativePath: string) => boolean);
+};
+
+export const DEFAULT_UPLOAD_DIRECTORY_FROM_PATH_OPTIONS = {
+  ...DEFAULT_UPLOAD_OPTIONS,
+
+  ignore: undefined,
+};
+
+/**
+ * Uploads a file from the filesystem to Skynet. Large files are streamed from
+ * disk using tus.
+ *
+ * @param this - SkynetClient
+ * @param localPath - The path of the file.
+ * @param [customOptions] - Additional settings that can optionally be set.
+ * @param [customOptions.endpointUpload="/skynet/skyfile"] - The relative URL path of the portal endpoint to contact for small uploads.
+ * @param [customOptions.endpointLargeUpload="/skynet/tus"] - The relative URL path of the portal endpoint to contact for large uploads.
+ * @returns - The returned skylink.
+ * @throws - Will throw if the path is not a file or if the upload failed.
+ */
+export async function uploadPath(
+  this: SkynetClient,
+  localPath: string,
+  customOptions?: CustomUploadOptions
+): Promise<UploadRequestResponse> {
+  validateString("localPath", localPath, "parameter");
+  validateOptionalObject("customOptions", customOptions, "parameter", DEFAULT_UPLOAD_OPTIONS);
+
+  const opts = { ...DEFAULT_UPLOAD_OPTIONS, ...this.customOptions, ...customOptions };
+
+  const stats = await fs.promises.stat(localPath);
+  if (!stats.isFile()) {
+    throw new ValidationError(`Path '${localPath}' is not a file`, "localPath", "parameter");
+  }
+
+  const filename = opts.customFilename || path.basename(localPath);
+  const contentType = getMimeTypeFromFilename(filename);
+
+  /* istanbul ignore next */
+  if (await isLargeUpload(this, stats.size, opts)) {
+    const source = { stream: fs.createReadStream(localPath), size: stats.size, type: contentType };
+    return this.uploadLargeData(source, filename, customOptions);
+  }
+
+  const data = await fs.promises.readFile(localPath);
+  return this.uploadData(data, filename, { ...customOptions, contentType });
+}
+
+/**
+ * Uploads a directory from the filesystem to Skynet, including all of its
+ * subdirectories.
+ *
+ * @param this - SkynetClient
+ * @param localPath - The path of the directory.
+ * @param [customOptions] - Additional settings that can optionally be set.
+ * @param [customOptions.endpointUpload="/skynet/skyfile"] - The relative URL path of the portal endpoint to contact.
+ * @returns - The returned skylink.
+ * @throws - Will throw if the path is not a directory, if the directory does not contain any files or if the upload failed.
+ */
+export async function uploadDirectoryFromPath(
+  this: SkynetClient,
+  localPath: string,
+  customOptions?: CustomUploadDirectoryFromPathOptions
+): Promise<UploadRequestResponse> {
+  validateString("localPath", localPath, "parameter");
+  validateOptionalObject("customOptions", customOptions, "parameter", DEFAULT_UPLOAD_DIRECTORY_FROM_PATH_OPTIONS);
+
+  const opts = { ...DEFAULT_UPLOAD_DIRECTORY_FROM_PATH_OPTIONS, ...this.customOptions, ...customOptions };
+
+  const stats = await fs.promises.stat(localPath);
+  if (!stats.isDirectory()) {
+    throw new ValidationError(`Path '${localPath}' is not a directory`, "localPath", "parameter");
+  }
+
+  const ignore = opts.ignore;
+  const isIgnored = (relativePath: string): boolean => {
+    if (typeof ignore === "function") {
+      return ignore(relativePath);
+    }
+    return relativePath.split("/").some((name) => ignore?.includes(name));
+  };
+
+  const directory: Record<string, Blob> = {};
+  for (const relativePath of await listFiles(localPath, "", isIgnored)) {
+    const data = await fs.promises.readFile(path.join(localPath, relativePath));
+    directory[relativePath] = new Blob([data], { type: getMimeTypeFromFilename(relativePath) });
+  }
+  if (Object.keys(directory).length === 0) {
+    throw new ValidationError(`Directory '${localPath}' does not contain any files`, "localPath", "parameter");
+  }
+
+  const filename = opts.customFilename || path.basename(path.resolve(localPath));
+  return this.uploadDirectory(directory, filename, extractOptions(opts, DEFAULT_UPLOAD_OPTIONS));
+}
+
+/**
+ * Lists the files in the directory and its subdirectories.
+ *
+ * @param root - The path of the directory.
+ * @param relativeDir - The path of the current subdirectory relative to the root, using forward slashes.
+ * @param isIgnored - Returns whether the file or directory at the given relative path should be skipped.
+ * @returns - The relative paths of the files, using forward slashes.
+ */
+async function listFiles(
+  root: string,
+  relativeDir: string,
+  isIgnored: (relativePath: string) => boolean
+): Promise<string[]> {
+  const entries = await fs.promises.readdir(path.join(root, relativeDir), { withFileTypes: true });
+  // Sort the entries so that uploads of the same directory are deterministic.
+  entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+  const files: string[] = [];
+  for (const entry of entries) {
+    const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+    if (isIgnored(relativePath)) {
+      continue;
+    }
+    if (entry.isDirectory()) {
+      files.push(...(await listFiles(root, relativePath, isIgnored)));
+    } else if (entry.isFile()) {
+      files.push(relativePath);
+    }
+  }
+  return files;
+}
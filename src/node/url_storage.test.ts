@@ -0,0 +1,39 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { FileUrlStorage } from "./index";
+
+describe("FileUrlStorage", () => {
+  const upload = { size: 3, metadata: { filename: "foo.txt" }, creationTime: "now" };
+  let dir: string;
+  let storage: FileUrlStorage;
+
+  beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "skynet-js-"));
+    storage = new FileUrlStorage(path.join(dir, "nested", "uploads.json"));
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  it("should return no uploads if the file does not exist", async () => {
+    expect(await storage.findAllUploads()).toEqual([]);
+  });
+
+  it("should store, find and remove uploads", async () => {
+    const [fooKey, barKey] = await Promise.all([storage.addUpload("foo", upload), storage.addUpload("bar", upload)]);
+
+    expect(fooKey).toMatch(/^tus::foo::\d+$/);
+    expect(await storage.findUploadsByFingerprint("foo")).toEqual([{ ...upload, urlStorageKey: fooKey }]);
+    expect((await storage.findAllUploads()).length).toEqual(2);
+
+    // The uploads should be persisted.
+    const otherStorage = new FileUrlStorage(storage.filePath);
+    expect(await otherStorage.findUploadsByFingerprint("bar")).toEqual([{ ...upload, urlStorageKey: barKey }]);
+
+    await storage.removeUpload(fooKey);
+    expect(await storage.findAllUploads()).toEqual([{ ...upload, urlStorageKey: barKey }]);
+  });
+});
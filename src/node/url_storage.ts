@@ -0,0 +1,127 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { PreviousUpload } from "tus-js-client";
+
+import { UploadUrlStorage } from "../resumable_upload";
+
+/**
+ * The default path of the JSON file which stores the URLs of unfinished large
+ * uploads.
+ */
+export const DEFAULT_URL_STORAGE_PATH = path.join(os.homedir(), ".skynet", "uploads.json");
+
+/**
+ * Stores the URLs of unfinished large uploads in a JSON file, so that they can
+ * be resumed after the process restarts. Uses the same keys as the storages of
+ * tus-js-client.
+ */
+export class FileUrlStorage implements UploadUrlStorage {
+  // Changes to the file are made one after the other.
+  protected queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Creates a file URL storage.
+   *
+   * @param [filePath] - The path of the JSON file. It is created when the first upload is stored.
+   */
+  constructor(public filePath: string = DEFAULT_URL_STORAGE_PATH) {}
+
+  /**
+   * Returns all stored uploads.
+   *
+   * @returns - The stored uploads.
+   */
+  async findAllUploads(): Promise<PreviousUpload[]> {
+    return this.findEntries("tus::");
+  }
+
+  /**
+   * Returns the stored uploads with the given fingerprint.
+   *
+   * @param fingerprint - The fingerprint of the upload.
+   * @returns - The stored uploads.
+   */
+  async findUploadsByFingerprint(fingerprint: string): Promise<PreviousUpload[]> {
+    return this.findEntries(`tus::${fingerprint}::`);
+  }
+
+  /**
+   * Removes the upload with the given key.
+   *
+   * @param urlStorageKey - The key of the upload.
+   */
+  async removeUpload(urlStorageKey: string): Promise<void> {
+    await this.update((entries) => {
+      delete entries[urlStorageKey];
+    });
+  }
+
+  /**
+   * Stores an upload.
+   *
+   * @param fingerprint - The fingerprint of the upload.
+   * @param upload - The upload.
+   * @returns - The key of the upload, used to remove it.
+   */
+  async addUpload(fingerprint: string, upload: PreviousUpload): Promise<string> {
+    const key = `tus::${fingerprint}::${Math.round(Math.random() * 1e12)}`;
+    await this.update((entries) => {
+      entries[key] = upload;
+    });
+    return key;
+  }
+
+  /**
+   * Returns the stored uploads whose key starts with the given prefix.
+   *
+   * @param prefix - The key prefix.
+   * @returns - The stored uploads, with their keys.
+   */
+  protected async findEntries(prefix: string): Promise<PreviousUpload[]> {
+    // Wait for pending changes.
+    await this.queue.catch(() => undefined);
+
+    const entries = await this.read();
+    return Object.entries(entries)
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([key, upload]) => ({ ...upload, urlStorageKey: key }));
+  }
+
+  /**
+   * Reads the file, changes the entries and writes the file back.
+   *
+   * @param change - Changes the entries in place.
+   * @returns - An empty promise, resolved once the file was written.
+   */
+  protected update(change: (entries: Record<string, PreviousUpload>) => void): Promise<void> {
+    const result = this.queue
+      .catch(() => undefined)
+      .then(async () => {
+        const entries = await this.read();
+        change(entries);
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.writeFile(this.filePath, JSON.stringify(entries, null, 2));
+      });
+    this.queue = result;
+    return result;
+  }
+
+  /**
+   * Reads the entries from the file.
+   *
+   * @returns - The entries, keyed by upload key. Empty if the file does not exist yet.
+   */
+  protected async read(): Promise<Record<string, PreviousUpload>> {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(this.filePath, "utf-8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        return {};
+      }
+      throw err;
+    }
+    return JSON.parse(content);
+  }
+}
@@ -1,8 +1,9 @@
-import { AxiosResponse } from "axios";
 import { SkynetClient } from "./client";
+import { TransportResponse } from "./transport";
 import { formatSkylink } from "./skylink/format";
 import { parseSkylink } from "./skylink/parse";
 import { BaseCustomOptions, DEFAULT_BASE_OPTIONS } from "./utils/options";
+import { ValidationError } from "./errors";
 import { validateSkylinkString, validateString } from "./utils/validation";
 
 /**
@@ -50,7 +51,7 @@ export async function pinSkylink(
   // Don't include the path since the endpoint doesn't support it.
   const path = parseSkylink(skylinkUrl, { onlyPath: true });
   if (path) {
-    throw new Error("Skylink string should not contain a path");
+    throw new ValidationError("Skylink string should not contain a path", "skylinkUrl", "parameter");
   }
 
   const response = await this.executeRequest({
@@ -78,16 +79,18 @@ export async function pinSkylink(
  * @param response - The pin response.
  * @throws - Will throw if not a valid pin response.
  */
-function validatePinResponse(response: AxiosResponse): void {
+function validatePinResponse(response: TransportResponse): void {
   try {
     if (!response.headers) {
-      throw new Error("response.headers field missing");
+      throw new ValidationError("response.headers field missing", "response.headers", "response field");
     }
 
     validateString('response.headers["skynet-skylink"]', response.headers["skynet-skylink"], "pin response field");
   } catch (err) {
-    throw new Error(
-      `Did not get a complete pin response despite a successful request. Please try again and report this issue to the devs if it persists. ${err}`
+    throw new ValidationError(
+      `Did not get a complete pin response despite a successful request. Please try again and report this issue to the devs if it persists. Error: ${
+        (err as Error).message
+      }`
     );
   }
 }
@@ -0,0 +1,91 @@
+import axios from "axios";
+import MockAdapter from "axios-mock-adapter";
+
+import { SkynetClient } from "./index";
+import { PortalPool } from "./portal_pool";
+
+const portals = ["https://siasky.net", "https://siasky.dev/", "https://example.com"];
+const skylink = "XABvi7JtJbQSMAcDwnUnmp2FKDPjg8_tTTFP4BwMSxVdEg";
+
+describe("PortalPool", () => {
+  it("should throw if no portals are given", () => {
+    expect(() => new PortalPool([])).toThrowError("Portal pool must contain at least one portal");
+  });
+
+  it("should use the first portal for writes and keep the given order for reads initially", () => {
+    const pool = new PortalPool(portals);
+
+    expect(pool.getWritePortal()).toEqual("https://siasky.net");
+    expect(pool.getReadPortals()).toEqual(["https://siasky.net", "https://siasky.dev", "https://example.com"]);
+  });
+
+  it("should order reads by latency and error rate", () => {
+    const pool = new PortalPool(portals);
+
+    pool.recordSuccess("https://siasky.net", 300);
+    pool.recordSuccess("https://siasky.dev", 100);
+    pool.recordSuccess("https://example.com", 200);
+    expect(pool.getReadPortals()).toEqual(["https://siasky.dev", "https://example.com", "https://siasky.net"]);
+
+    pool.recordFailure("https://siasky.dev");
+    expect(pool.getReadPortals()).toEqual(["https://example.com", "https://siasky.net", "https://siasky.dev"]);
+    expect(pool.getHealth("https://siasky.dev/")).toEqual({
+      portalUrl: "https://siasky.dev",
+      latency: 100,
+      errorRate: 0.3,
+      successes: 1,
+      failures: 1,
+    });
+  });
+
+  it("should throw for portals not in the pool", () => {
+    const pool = new PortalPool(portals);
+
+    expect(() => pool.recordFailure("https://foo.com")).toThrowError(
+      "Portal 'https://foo.com' is not in the portal pool"
+    );
+  });
+});
+
+describe("SkynetClient with a portal pool", () => {
+  let mock: MockAdapter;
+
+  beforeEach(() => {
+    mock = new MockAdapter(axios);
+    mock.resetHistory();
+  });
+
+  it("should fail over reads to the next portal", async () => {
+    const client = new SkynetClient(portals);
+    mock.onGet(`https://siasky.net/${skylink}`).networkErrorOnce();
+    mock.onGet(`https://siasky.dev/${skylink}`).replyOnce(502);
+    mock.onGet(`https://example.com/${skylink}`).replyOnce(200, "foo", {});
+
+    const { data } = await client.getFileContent(skylink);
+
+    expect(data).toEqual("foo");
+    expect(mock.history.get.length).toBe(3);
+    expect(client.portalPool?.getReadPortals()).toEqual([
+      "https://example.com",
+      "https://siasky.net",
+      "https://siasky.dev",
+    ]);
+  });
+
+  it("should not fail over reads that the portal rejected", async () => {
+    const client = new SkynetClient(portals);
+    mock.onGet(`https://siasky.net/${skylink}`).replyOnce(404);
+
+    await expect(client.getFileContent(skylink)).rejects.toThrowError("Request failed with status code 404");
+    expect(mock.history.get.length).toBe(1);
+  });
+
+  it("should only send writes to the first portal", async () => {
+    const client = new SkynetClient(portals);
+    mock.onPost(`https://siasky.net/skynet/pin/${skylink}`).replyOnce(503);
+
+    await expect(client.pinSkylink(skylink)).rejects.toThrowError("Request failed with status code 503");
+    expect(mock.history.post.length).toBe(1);
+    expect(client.portalPool?.getHealth("https://siasky.net").failures).toEqual(1);
+  });
+});
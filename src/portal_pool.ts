@@ -0,0 +1,177 @@
+import { ValidationError } from "./errors";
+import { trimSuffix } from "./utils/string";
+
+/**
+ * The individual siasky.net servers. Can be used to seed a portal pool, e.g.
+ * `new SkynetClient(SIASKY_NET_SERVERS)`.
+ */
+export const SIASKY_NET_SERVERS = [
+  "as-hk-1",
+  "eu-fin-1",
+  "eu-fin-2",
+  "eu-fin-3",
+  "eu-fin-4",
+  "eu-ger-1",
+  "eu-ger-2",
+  "eu-ger-3",
+  "eu-ger-4",
+  "eu-ger-5",
+  "eu-ger-6",
+  "eu-ger-7",
+  "eu-ger-8",
+  "eu-pol-1",
+  "eu-pol-2",
+  "eu-pol-3",
+  "us-or-1",
+  "us-or-2",
+  "us-pa-1",
+  "us-pa-2",
+  "us-va-1",
+  "us-va-2",
+  "us-va-3",
+].map((server) => `https://${server}.siasky.net`);
+
+/**
+ * The weight of a new sample in the moving averages of the portal health.
+ */
+const HEALTH_SMOOTHING_FACTOR = 0.3;
+
+/**
+ * The penalty, in ms of latency, added to the score of a portal with an error rate of 1.
+ */
+const ERROR_RATE_PENALTY = 10_000;
+
+/**
+ * The health of a single portal in the pool.
+ *
+ * @property portalUrl - The portal URL.
+ * @property latency - Moving average of the request latency in ms. 0 if no request was made yet.
+ * @property errorRate - Moving average of the error rate, between 0 and 1.
+ * @property successes - The total number of successful requests.
+ * @property failures - The total number of failed requests.
+ */
+export type PortalHealth = {
+  portalUrl: string;
+  latency: number;
+  errorRate: number;
+  successes: number;
+  failures: number;
+};
+
+/**
+ * A pool of portals with health scores based on latency and error rates.
+ * Reads are spread over the healthiest portals while writes go to the
+ * preferred portal.
+ */
+export class PortalPool {
+  // The health of each portal, in the order the portals were given.
+  protected health: PortalHealth[];
+
+  /**
+   * Creates a portal pool.
+   *
+   * @param portalUrls - The portals in the pool. Must not be empty. The first portal is the preferred portal, which writes are sent to.
+   * @throws - Will throw if no portals were given.
+   */
+  constructor(portalUrls: string[]) {
+    if (portalUrls.length === 0) {
+      throw new ValidationError("Portal pool must contain at least one portal", "portalUrls", "parameter");
+    }
+    this.health = portalUrls.map((portalUrl) => ({
+      portalUrl: trimSuffix(portalUrl, "/"),
+      latency: 0,
+      errorRate: 0,
+      successes: 0,
+      failures: 0,
+    }));
+  }
+
+  /**
+   * Returns the portal that writes should be sent to.
+   *
+   * @returns - The preferred portal URL.
+   */
+  getWritePortal(): string {
+    return this.health[0].portalUrl;
+  }
+
+  /**
+   * Returns all portals ordered from healthiest to least healthy. Reads should
+   * be attempted in this order.
+   *
+   * @returns - The ordered portal URLs.
+   */
+  getReadPortals(): string[] {
+    // Array.prototype.sort is stable, so portals with equal scores keep their given order.
+    return [...this.health]
+      .sort((a, b) => this.score(a.portalUrl) - this.score(b.portalUrl))
+      .map((health) => health.portalUrl);
+  }
+
+  /**
+   * Returns the health of the given portal.
+   *
+   * @param portalUrl - The portal URL.
+   * @returns - The portal health.
+   * @throws - Will throw if the portal is not in the pool.
+   */
+  getHealth(portalUrl: string): PortalHealth {
+    const health = this.health.find((health) => health.portalUrl === trimSuffix(portalUrl, "/"));
+    if (!health) {
+      throw new ValidationError(`Portal '${portalUrl}' is not in the portal pool`, "portalUrl", "parameter");
+    }
+    return health;
+  }
+
+  /**
+   * Returns the score of the given portal. Lower is better.
+   *
+   * @param portalUrl - The portal URL.
+   * @returns - The score.
+   */
+  score(portalUrl: string): number {
+    const { latency, errorRate } = this.getHealth(portalUrl);
+    return latency + ERROR_RATE_PENALTY * errorRate;
+  }
+
+  /**
+   * Records a successful request to the given portal.
+   *
+   * @param portalUrl - The portal URL.
+   * @param latency - The request latency in ms.
+   */
+  recordSuccess(portalUrl: string, latency: number): void {
+    const health = this.getHealth(portalUrl);
+    health.latency = smooth(health.latency, latency, health.successes);
+    health.errorRate = smooth(health.errorRate, 0, health.successes + health.failures);
+    health.successes++;
+  }
+
+  /**
+   * Records a failed request to the given portal. The latency is not updated
+   * since failures are often fast and would otherwise make the portal look
+   * healthier.
+   *
+   * @param portalUrl - The portal URL.
+   */
+  recordFailure(portalUrl: string): void {
+    const health = this.getHealth(portalUrl);
+    health.errorRate = smooth(health.errorRate, 1, health.successes + health.failures);
+    health.failures++;
+  }
+}
+
+/**
+ * Adds a sample to an exponentially-weighted moving average.
+ *
+ * @param average - The current average.
+ * @param sample - The new sample.
+ * @param numSamples - The number of samples in the current average.
+ * @returns - The new average.
+ */
+function smooth(average: number, sample: number, numSamples: number): number {
+  if (numSamples === 0) {
+    return sample;
+  }
+  return average + HEALTH_SMOOTHING_FACTOR * (sample - average);
+}
@@ -0,0 +1,135 @@
+import { SkynetClient, DEFAULT_SKYNET_PORTAL_URL, UploadProgress } from "./index";
+import { UploadProgressTracker } from "./progress";
+import { TransportRequest, TransportResponse } from "./transport";
+
+const portalUrl = DEFAULT_SKYNET_PORTAL_URL;
+const skylink = "XABvi7JtJbQSMAcDwnUnmp2FKDPjg8_tTTFP4BwMSxVdEg";
+
+describe("UploadProgressTracker", () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 0;
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should compute the speed, throughput and eta", () => {
+    const tracker = new UploadProgressTracker();
+
+    now = 1000;
+    expect(tracker.update(100, 1000)).toEqual({
+      loaded: 100,
+      total: 1000,
+      progress: 0.1,
+      speed: 100,
+      throughput: 100,
+      eta: 9000,
+      chunk: undefined,
+      retries: 0,
+    });
+
+    now = 2000;
+    const progress = tracker.update(400, 1000);
+    expect(progress.speed).toEqual(300);
+    // 0.3 * 300 + 0.7 * 100
+    expect(progress.throughput).toBeCloseTo(160);
+    expect(progress.eta).toEqual(Math.round((600 * 1000) / 160));
+  });
+
+  it("should keep the previous speed for events in the same ms", () => {
+    const tracker = new UploadProgressTracker();
+
+    expect(tracker.update(0, 100)).toEqual(expect.objectContaining({ speed: 0, throughput: 0, eta: undefined }));
+    now = 1000;
+    tracker.update(50, 100);
+    expect(tracker.update(60, 100)).toEqual(expect.objectContaining({ speed: 50, throughput: 50, eta: 800 }));
+  });
+
+  it("should report 0-byte uploads as complete", () => {
+    const tracker = new UploadProgressTracker();
+
+    expect(tracker.update(0, 0).progress).toEqual(1);
+  });
+
+  it("should not estimate the progress if the total is unknown", () => {
+    const tracker = new UploadProgressTracker();
+
+    now = 1000;
+    expect(tracker.update(100, 0)).toEqual(expect.objectContaining({ progress: 0, throughput: 100, eta: undefined }));
+    now = 2000;
+    expect(tracker.update(300, 200)).toEqual(expect.objectContaining({ progress: 0, eta: undefined }));
+  });
+
+  it("should compute the chunk index", () => {
+    const tracker = new UploadProgressTracker(10);
+
+    expect(tracker.update(0, 25).chunk).toEqual(0);
+    expect(tracker.update(19, 25).chunk).toEqual(1);
+    expect(tracker.update(25, 25).chunk).toEqual(2);
+    expect(tracker.update(20, 20).chunk).toEqual(1);
+  });
+
+  it("should count retries and restart the speed from 0 bytes", () => {
+    const tracker = new UploadProgressTracker();
+    now = 1000;
+    tracker.update(80, 100);
+
+    tracker.retry();
+    now = 2000;
+    expect(tracker.update(20, 100)).toEqual(expect.objectContaining({ speed: 20, retries: 1 }));
+
+    tracker.retry(false);
+    now = 3000;
+    expect(tracker.update(30, 100)).toEqual(expect.objectContaining({ speed: 10, retries: 2 }));
+  });
+});
+
+describe("onUploadProgress details", () => {
+  const file = new File(["foo"], "foo.txt", { type: "text/plain" });
+
+  it("should pass the progress details of small uploads, including retries", async () => {
+    let attempt = 0;
+    const transport = async (request: TransportRequest): Promise<TransportResponse> => {
+      request.onUploadProgress?.({ loaded: 3, total: 3 } as ProgressEvent);
+      if (attempt++ === 0) {
+        throw new Error("Network Error");
+      }
+      return { data: { skylink, merkleroot: "", bitfield: 0 }, status: 200, headers: {} };
+    };
+    const onRetry = jest.fn();
+    const client = new SkynetClient(portalUrl, {
+      transport,
+      retry: { maxAttempts: 2, initialDelay: 0, retryNonIdempotent: true, onRetry },
+    });
+    const details: UploadProgress[] = [];
+
+    await client.uploadFile(file, { onUploadProgress: (_, __, progress) => details.push(progress) });
+
+    expect(details.map(({ loaded, total, retries }) => [loaded, total, retries])).toEqual([
+      [3, 3, 0],
+      [3, 3, 1],
+    ]);
+    expect(onRetry).toHaveBeenCalledTimes(1);
+  });
+
+  it("should pass the progress details of directory uploads", async () => {
+    const transport = async (request: TransportRequest): Promise<TransportResponse> => {
+      request.onUploadProgress?.({ loaded: 5, total: 10 } as ProgressEvent);
+      return { data: { skylink, merkleroot: "", bitfield: 0 }, status: 200, headers: {} };
+    };
+    const client = new SkynetClient(portalUrl, { transport });
+    const onUploadProgress = jest.fn();
+
+    await client.uploadDirectory({ "foo.txt": file }, "dir", { onUploadProgress });
+
+    expect(onUploadProgress).toHaveBeenCalledWith(
+      0.5,
+      expect.anything(),
+      expect.objectContaining({ loaded: 5, total: 10, progress: 0.5, retries: 0 })
+    );
+  });
+});
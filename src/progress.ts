@@ -0,0 +1,108 @@
+/**
+ * The weight of a new sample in the moving average of the throughput.
+ */
+const THROUGHPUT_SMOOTHING_FACTOR = 0.3;
+
+/**
+ * The progress of an upload, passed to `onUploadProgress` as the third
+ * argument for small, large and directory uploads.
+ *
+ * @property loaded - The number of bytes sent.
+ * @property total - The total number of bytes to send. 0 if unknown, e.g. for small uploads in Node.js.
+ * @property progress - The fraction of bytes sent, between 0 and 1. 0 while bytes are sent and the total is unknown.
+ * @property speed - The speed since the previous progress event, in bytes per second.
+ * @property throughput - The moving average of the speed, in bytes per second.
+ * @property [eta] - The estimated time until the upload completes, in ms. Undefined until the throughput is known, and if the total is unknown.
+ * @property [chunk] - The index of the tus chunk being uploaded, based on the bytes sent. Undefined for small uploads.
+ * @property retries - The number of times the upload, or one of its chunks, was retried.
+ */
+export type UploadProgress = {
+  loaded: number;
+  total: number;
+  progress: number;
+  speed: number;
+  throughput: number;
+  eta?: number;
+  chunk?: number;
+  retries: number;
+};
+
+/**
+ * Computes the progress of an upload from the number of bytes sent.
+ */
+export class UploadProgressTracker {
+  protected retries = 0;
+  protected lastLoaded = 0;
+  protected lastTime: number;
+  protected speed = 0;
+  protected throughput?: number;
+
+  /**
+   * Creates an upload progress tracker.
+   *
+   * @param [chunkSize] - The size of the tus chunks, for large uploads.
+   */
+  constructor(protected chunkSize?: number) {
+    this.lastTime = Date.now();
+  }
+
+  /**
+   * Records the number of bytes sent.
+   *
+   * @param loaded - The number of bytes sent.
+   * @param total - The total number of bytes to send.
+   * @returns - The progress of the upload.
+   */
+  update(loaded: number, total: number): UploadProgress {
+    const now = Date.now();
+    const elapsed = now - this.lastTime;
+    // Progress events can arrive in the same ms, keep the previous speed then.
+    if (elapsed > 0) {
+      this.speed = Math.max(0, ((loaded - this.lastLoaded) * 1000) / elapsed);
+      this.throughput =
+        this.throughput === undefined
+          ? this.speed
+          : THROUGHPUT_SMOOTHING_FACTOR * this.speed + (1 - THROUGHPUT_SMOOTHING_FACTOR) * this.throughput;
+      this.lastLoaded = loaded;
+      this.lastTime = now;
+    }
+
+    const throughput = this.throughput ?? 0;
+    // The total is unknown if it is 0 while bytes are sent, or less than the bytes sent.
+    const totalKnown = total >= loaded && (total > 0 || loaded === 0);
+    let progress = 0;
+    if (totalKnown) {
+      // Avoid NaN for 0-byte files.
+      progress = total ? loaded / total : 1;
+    }
+    let chunk: number | undefined = undefined;
+    if (this.chunkSize) {
+      const chunks = Math.max(1, Math.ceil(total / this.chunkSize));
+      chunk = Math.min(Math.floor(loaded / this.chunkSize), chunks - 1);
+    }
+    return {
+      loaded,
+      total,
+      progress,
+      speed: this.speed,
+      throughput,
+      eta: totalKnown && throughput > 0 ? Math.round(((total - loaded) * 1000) / throughput) : undefined,
+      chunk,
+      retries: this.retries,
+    };
+  }
+
+  /**
+   * Records a retry. Retried small uploads start over, so the bytes sent are
+   * counted from 0 again.
+   *
+   * @param [restart=true] - Whether the upload starts over.
+   */
+  retry(restart = true): void {
+    this.retries++;
+    if (restart) {
+      this.lastLoaded = 0;
+      this.lastTime = Date.now();
+    }
+  }
+}
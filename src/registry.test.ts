@@ -1,9 +1,15 @@
 import axios from "axios";
 import MockAdapter from "axios-mock-adapter";
 
-import { genKeyPairAndSeed } from "./crypto";
 import { SkynetClient, defaultSkynetPortalUrl, genKeyPairFromSeed } from "./index";
 import { getEntryUrlForPortal, signEntry } from "./registry";
+import {
+  AbortError,
+  PortalResponseError,
+  RevisionConflictError,
+  SignatureVerificationError,
+  TimeoutError,
+} from "./errors";
 import { uriSkynetPrefix } from "./utils/url";
 import { stringToUint8ArrayUtf8 } from "./utils/string";
 
@@ -44,6 +50,30 @@ describe("getEntry", () => {
     await expect(client.registry.getEntry(publicKey, dataKey)).rejects.toThrowError(
       "Request failed with status code 429"
     );
+    mock.onGet(registryLookupUrl).replyOnce(429, responseHTML);
+    await expect(client.registry.getEntry(publicKey, dataKey)).rejects.toMatchObject({
+      status: 429,
+      portalUrl,
+      responseBody: responseHTML,
+    });
+  });
+
+  it("should throw an AbortError when aborted", async () => {
+    const controller = new AbortController();
+    mock.onGet(registryLookupUrl).replyOnce(() => {
+      controller.abort();
+      return [404];
+    });
+
+    await expect(client.registry.getEntry(publicKey, dataKey, { signal: controller.signal })).rejects.toThrowError(
+      AbortError
+    );
+  });
+
+  it("should throw a TimeoutError when the request times out", async () => {
+    mock.onGet(registryLookupUrl).replyOnce(() => new Promise((resolve) => setTimeout(() => resolve([404]), 200)));
+
+    await expect(client.registry.getEntry(publicKey, dataKey, { timeout: 20 })).rejects.toThrowError(TimeoutError);
   });
 
   it("should throw if the signature could not be verified", async () => {
@@ -57,7 +87,7 @@ describe("getEntry", () => {
 
     mock.onGet(registryLookupUrl).replyOnce(200, JSON.stringify(entryData));
 
-    await expect(client.registry.getEntry(publicKey, dataKey)).rejects.toThrow();
+    await expect(client.registry.getEntry(publicKey, dataKey)).rejects.toThrowError(SignatureVerificationError);
   });
 
   it("Should throw an error if the public key is not hex-encoded", async () => {
@@ -99,13 +129,10 @@ describe("getEntryUrl", () => {
     expect(url).toEqual(`${portalUrl}/skynet/registry?publickey=${encodedPK}&datakey=${encodedDK}&timeout=5`);
   });
 
-  it("Should throw if a timeout is provided", async () => {
-    const { publicKey } = genKeyPairAndSeed();
+  it("Should not use the request timeout as the registry lookup timeout", async () => {
+    const url = await client.registry.getEntryUrl(publicKey, dataKey, { timeout: 1500 });
 
-    // @ts-expect-error - Pass an invalid timeout parameter on purpose.
-    await expect(client.registry.getEntryUrl(publicKey, dataKey, { timeout: 1.5 })).rejects.toThrowError(
-      "Object parameter 'customOptions' contains unexpected property 'timeout'"
-    );
+    expect(url).toEqual(`${portalUrl}/skynet/registry?publickey=${encodedPK}&datakey=${encodedDK}&timeout=5`);
   });
 
   it("should trim the prefix if it is provided", async () => {
@@ -116,6 +143,28 @@ describe("getEntryUrl", () => {
 });
 
 describe("setEntry", () => {
+  const registryUrl = `${portalUrl}/skynet/registry`;
+  const entry = { data: stringToUint8ArrayUtf8("test"), dataKey, revision: BigInt(11) };
+
+  it("Should throw a revision conflict error if the portal rejects the revision", async () => {
+    const mock = new MockAdapter(axios);
+    mock
+      .onPost(registryUrl)
+      .replyOnce(400, { message: "unable to update the registry: provided revision number is already registered" });
+
+    const promise = client.registry.setEntry(privateKey, entry);
+
+    await expect(promise).rejects.toThrowError(RevisionConflictError);
+    await expect(promise).rejects.toMatchObject({ revision: BigInt(11) });
+  });
+
+  it("Should throw a portal response error for other error responses", async () => {
+    const mock = new MockAdapter(axios);
+    mock.onPost(registryUrl).replyOnce(400, { message: "foo error" });
+
+    await expect(client.registry.setEntry(privateKey, entry)).rejects.toThrowError(PortalResponseError);
+  });
+
   it("Should throw an error if the private key is not hex-encoded", async () => {
     // @ts-expect-error We pass an invalid private key on purpose.
     await expect(client.registry.setEntry("foo", {})).rejects.toThrowError(
@@ -1,8 +1,15 @@
-import type { AxiosError, AxiosResponse } from "axios";
 import { Buffer } from "buffer";
 import { sign } from "tweetnacl";
 
 import { SkynetClient } from "./client";
+import {
+  PortalResponseError,
+  RevisionConflictError,
+  SignatureVerificationError,
+  SkynetError,
+  ValidationError,
+} from "./errors";
+import { TransportError, TransportResponse } from "./transport";
 import { assertUint64 } from "./utils/number";
 import { BaseCustomOptions, DEFAULT_BASE_OPTIONS } from "./utils/options";
 import { ensurePrefix, hexToUint8Array, isHexString, toHexString, trimPrefix } from "./utils/string";
@@ -66,6 +73,11 @@ export const REGEX_REVISION_NO_QUOTES = /"revision":\s*([0-9]+)/;
  */
 const REGEX_REVISION_WITH_QUOTES = /"revision":\s*"([0-9]+)"/;
 
+/**
+ * Regex for the skyd error messages returned when the revision number of an entry is rejected.
+ */
+const REGEX_REVISION_CONFLICT = /revision number/i;
+
 const ED25519_PREFIX = "ed25519:";
 
 /**
@@ -118,7 +130,7 @@ export async function getEntry(
 
   const url = await this.registry.getEntryUrl(publicKey, dataKey, opts);
 
-  let response: AxiosResponse;
+  let response: TransportResponse;
   try {
     response = await this.executeRequest({
       ...opts,
@@ -143,27 +155,30 @@ export async function getEntry(
       },
     });
   } catch (err) {
-    return handleGetEntryErrResponse(err as AxiosError);
+    return handleGetEntryErrResponse(err as TransportError);
   }
 
   // Sanity check.
+  const entryData = response.data as { data: string; revision: string; signature: string };
   try {
-    validateString("response.data.data", response.data.data, "entry response field");
-    validateString("response.data.revision", response.data.revision, "entry response field");
-    validateString("response.data.signature", response.data.signature, "entry response field");
+    validateString("response.data.data", entryData.data, "entry response field");
+    validateString("response.data.revision", entryData.revision, "entry response field");
+    validateString("response.data.signature", entryData.signature, "entry response field");
   } catch (err) {
-    throw new Error(
-      `Did not get a complete entry response despite a successful request. Please try again and report this issue to the devs if it persists. Error: ${err}`
+    throw new ValidationError(
+      `Did not get a complete entry response despite a successful request. Please try again and report this issue to the devs if it persists. Error: ${
+        (err as Error).message
+      }`
     );
   }
 
   // Convert the revision from a string to bigint.
-  const revision = BigInt(response.data.revision);
-  const signature = Buffer.from(hexToUint8Array(response.data.signature));
+  const revision = BigInt(entryData.revision);
+  const signature = Buffer.from(hexToUint8Array(entryData.signature));
   // Use empty array if the data is empty.
   let data = new Uint8Array([]);
-  if (response.data.data) {
-    data = hexToUint8Array(response.data.data);
+  if (entryData.data) {
+    data = hexToUint8Array(entryData.data);
   }
   const signedEntry = {
     entry: {
@@ -186,7 +201,11 @@ export async function getEntry(
   }
 
   // The response could not be verified.
-  throw new Error("could not verify signature from retrieved, signed registry entry -- possible corrupted entry");
+  throw new SignatureVerificationError(
+    "could not verify signature from retrieved, signed registry entry -- possible corrupted entry",
+    publicKey,
+    dataKey
+  );
 }
 
 /**
@@ -405,37 +424,61 @@ export async function postSignedEntry(
     signature: Array.from(signature),
   };
 
-  await this.executeRequest({
-    ...opts,
-    endpointPath: opts.endpointSetEntry,
-    method: "post",
-    data,
-    // Transform the request to remove quotes, since the revision needs to be
-    // parsed as a uint64 on the Go side.
-    transformRequest: function (data: unknown) {
-      // Convert the object data to JSON.
-      const json = JSON.stringify(data);
-      // Change the revision value from a string to a JSON integer.
-      return json.replace(REGEX_REVISION_WITH_QUOTES, '"revision":$1');
-    },
-  });
+  try {
+    await this.executeRequest({
+      ...opts,
+      endpointPath: opts.endpointSetEntry,
+      method: "post",
+      data,
+      // Transform the request to remove quotes, since the revision needs to be
+      // parsed as a uint64 on the Go side.
+      transformRequest: function (data: unknown) {
+        // Convert the object data to JSON.
+        const json = JSON.stringify(data);
+        // Change the revision value from a string to a JSON integer.
+        return json.replace(REGEX_REVISION_WITH_QUOTES, '"revision":$1');
+      },
+    });
+  } catch (err) {
+    throw toRevisionConflictError(err, entry.revision);
+  }
+}
+
+/**
+ * Converts the error response of setting an entry to a `RevisionConflictError`
+ * if skyd rejected the revision number, e.g. because the same or a higher
+ * revision is already registered.
+ *
+ * @param err - The error.
+ * @param revision - The revision of the entry that could not be set.
+ * @returns - The converted error, or the original error if it was not caused by the revision.
+ */
+function toRevisionConflictError(err: unknown, revision: bigint): unknown {
+  if (!(err instanceof PortalResponseError) || err.status !== 400) {
+    return err;
+  }
+  const body = err.responseBody as { message?: unknown } | undefined;
+  const message = typeof body?.message === "string" ? body.message : "";
+  if (!REGEX_REVISION_CONFLICT.test(message)) {
+    return err;
+  }
+  return new RevisionConflictError(message, revision);
 }
 
 /**
  * Handles error responses returned in getEntry.
  *
- * @param err - The Axios error.
+ * @param err - The transport error.
  * @returns - An empty signed registry entry if the status code is 404.
- * @throws - Will throw if the status code is not 404.
+ * @throws - Will throw if the status code is not 404. Errors without a response, e.g. an `AbortError` or a `TimeoutError`, are thrown as-is.
  */
-function handleGetEntryErrResponse(err: AxiosError): SignedRegistryEntry {
-  /* istanbul ignore next */
+function handleGetEntryErrResponse(err: TransportError): SignedRegistryEntry {
   if (!err.response) {
-    throw new Error(`Error response field not found, incomplete Axios error. Full error: ${err}`);
+    throw err;
   }
   /* istanbul ignore next */
   if (!err.response.status) {
-    throw new Error(`Error response did not contain expected field 'status'. Full error: ${err}`);
+    throw new SkynetError(`Error response did not contain expected field 'status'. Full error: ${err}`);
   }
   // Check if status was 404 "not found" and return null if so.
   if (err.response.status === 404) {
@@ -0,0 +1,160 @@
+import { Buffer } from "buffer";
+
+import { genKeyPairFromSeed, hashDataKey } from "./crypto";
+import { ContentVerificationError, SignatureVerificationError, SkynetClient } from "./index";
+import { signEntry } from "./registry";
+import { parseRegistryProof, RegistryProofEntry, verifyRegistryProof } from "./registry_proof";
+import { newEd25519PublicKey, newSkylinkV2, SiaSkylink } from "./skylink/sia";
+import { TransportResponse } from "./transport";
+import { toHexString } from "./utils/string";
+
+const portalUrl = "https://siasky.net";
+const dataLink = "XABvi7JtJbQSMAcDwnUnmp2FKDPjg8_tTTFP4BwMSxVdEg";
+
+/**
+ * A v2 skylink and the key pair of its registry entry.
+ *
+ * @property skylink - The v2 skylink.
+ * @property dataKey - The hashed data key, hex-encoded.
+ * @property publicKey - The public key.
+ * @property privateKey - The private key.
+ */
+type V2Skylink = { skylink: string; dataKey: string; publicKey: string; privateKey: string };
+
+/**
+ * Creates a v2 skylink from the seed.
+ *
+ * @param seed - The seed of the key pair.
+ * @returns - The v2 skylink and its keys.
+ */
+function createV2Skylink(seed: string): V2Skylink {
+  const { publicKey, privateKey } = genKeyPairFromSeed(seed);
+  const skylink = newSkylinkV2(newEd25519PublicKey(publicKey), hashDataKey("foo")).toString();
+  return { skylink, dataKey: toHexString(hashDataKey("foo")), publicKey, privateKey };
+}
+
+/**
+ * Builds a signed registry proof entry of the v2 skylink pointing to the link.
+ *
+ * @param v2Skylink - The v2 skylink.
+ * @param link - The skylink stored in the entry.
+ * @param [revision] - The revision of the entry.
+ * @returns - The entry.
+ */
+async function buildEntry(v2Skylink: V2Skylink, link: string, revision = 1): Promise<RegistryProofEntry> {
+  const data = SiaSkylink.fromString(link).toBytes();
+  const entry = { dataKey: v2Skylink.dataKey, data, revision: BigInt(revision) };
+  const signature = await signEntry(v2Skylink.privateKey, entry, true);
+  return {
+    data: toHexString(data),
+    revision: revision.toString(),
+    datakey: v2Skylink.dataKey,
+    publickey: { algorithm: "ed25519", key: Buffer.from(v2Skylink.publicKey, "hex").toString("base64") },
+    // Only the detached signature, without the signed message.
+    signature: toHexString(signature.slice(0, 64)),
+    type: 1,
+  };
+}
+
+const first = createV2Skylink("first seed");
+const second = createV2Skylink("second seed");
+
+describe("parseRegistryProof", () => {
+  it("should keep the revisions as strings", () => {
+    const header = `[{"data":"00","revision":18446744073709551615,"datakey":"01","publickey":{"algorithm":"ed25519","key":"AA=="},"signature":"02","type":1}]`;
+
+    expect(parseRegistryProof(header)[0].revision).toEqual("18446744073709551615");
+  });
+
+  it.each([
+    ["foo", "Could not parse the registry proof"],
+    ["{}", "Expected the registry proof to be an array"],
+    ['[{"data":"00"}]', "Expected registry proof field 'proof[0].revision' to be type 'string'"],
+  ])("should throw for the proof %s", (header, message) => {
+    expect(() => parseRegistryProof(header)).toThrowError(message);
+  });
+});
+
+describe("verifyRegistryProof", () => {
+  it("should verify a chain of v2 skylinks", async () => {
+    const proof = [await buildEntry(first, second.skylink), await buildEntry(second, dataLink)];
+
+    expect(() => verifyRegistryProof(proof, `sia://${first.skylink}`, dataLink)).not.toThrow();
+  });
+
+  it("should throw if the chain is out of order", async () => {
+    const proof = [await buildEntry(second, dataLink), await buildEntry(first, second.skylink)];
+
+    expect(() => verifyRegistryProof(proof, first.skylink, dataLink)).toThrowError(
+      `The registry proof contains the entry of '${second.skylink}' instead of '${first.skylink}'`
+    );
+  });
+
+  it("should throw if an entry is not signed by its public key", async () => {
+    const entry = await buildEntry(first, dataLink);
+    const proof = [{ ...entry, data: toHexString(SiaSkylink.fromString(second.skylink).toBytes()) }];
+
+    expect(() => verifyRegistryProof(proof, first.skylink, second.skylink)).toThrowError(SignatureVerificationError);
+  });
+
+  it("should throw if the chain does not end at the returned skylink", async () => {
+    const proof = [await buildEntry(first, second.skylink)];
+
+    expect(() => verifyRegistryProof(proof, first.skylink, dataLink)).toThrowError(ContentVerificationError);
+  });
+
+  it("should throw if the proof is empty", () => {
+    expect(() => verifyRegistryProof([], first.skylink, dataLink)).toThrowError(
+      "Expected the registry proof of the v2 skylink not to be empty"
+    );
+  });
+});
+
+describe("getFileContent with a v2 skylink", () => {
+  /**
+   * Creates a client whose portal returns the headers.
+   *
+   * @param headers - The response headers.
+   * @returns - The client.
+   */
+  function createClient(headers: Record<string, string>): SkynetClient {
+    const transport = async (): Promise<TransportResponse> => ({ data: "foo", status: 200, headers });
+    return new SkynetClient(portalUrl, { transport });
+  }
+
+  it("should return the verified proof", async () => {
+    const proof = [await buildEntry(first, dataLink)];
+    const client = createClient({ "skynet-skylink": dataLink, "skynet-proof": JSON.stringify(proof) });
+
+    const response = await client.getFileContent(first.skylink);
+
+    expect(response.skylink).toEqual(`sia://${dataLink}`);
+    expect(response.proof).toEqual(proof);
+  });
+
+  it("should throw if the proof does not match the returned skylink", async () => {
+    const proof = [await buildEntry(first, second.skylink)];
+    const client = createClient({ "skynet-skylink": dataLink, "skynet-proof": JSON.stringify(proof) });
+
+    await expect(client.getFileContent(first.skylink)).rejects.toThrowError(ContentVerificationError);
+  });
+
+  it("should only throw for a missing proof if it is required", async () => {
+    const client = createClient({ "skynet-skylink": dataLink });
+
+    const response = await client.getFileContent(first.skylink);
+
+    expect(response.proof).toBeUndefined();
+    await expect(client.getFileContent(first.skylink, { requireProof: true })).rejects.toThrowError(
+      "Expected the portal to return the resolved skylink and the registry proof of the v2 skylink"
+    );
+  });
+
+  it("should not return a proof for v1 skylinks", async () => {
+    const client = createClient({ "skynet-skylink": dataLink, "skynet-proof": "[]" });
+
+    const response = await client.getFileContent(dataLink, { requireProof: true });
+
+    expect(response.proof).toBeUndefined();
+  });
+});
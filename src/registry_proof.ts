@@ -0,0 +1,163 @@
+import { Buffer } from "buffer";
+import { sign } from "tweetnacl";
+
+import { hashRegistryEntry } from "./crypto";
+import { ContentVerificationError, SignatureVerificationError } from "./errors";
+import { REGEX_REVISION_NO_QUOTES } from "./registry";
+import { isSkylinkV2, newEd25519PublicKey, newSkylinkV2 } from "./skylink/sia";
+import { TransportHeaders } from "./transport";
+import { encodeSkylinkBase64 } from "./utils/encoding";
+import { hexToUint8Array, toHexString, trimUriPrefix } from "./utils/string";
+import { URI_SKYNET_PREFIX } from "./utils/url";
+import { validateNumber, validateObject, validateString } from "./utils/validation";
+
+/**
+ * The type of registry entries which don't contain the public key in their
+ * data. Matches `RegistryTypeWithoutPubkey` in skyd.
+ */
+const REGISTRY_TYPE_WITHOUT_PUBKEY = 1;
+
+/**
+ * A signed registry entry of the proof returned by the portal in the
+ * `skynet-proof` header when it resolved a v2 skylink.
+ *
+ * @property data - The hex-encoded data of the entry, a raw skylink.
+ * @property revision - The revision number, as a string since it may not fit in a JS number.
+ * @property datakey - The hex-encoded hashed data key of the entry.
+ * @property publickey - The public key of the entry, with the base64-encoded key.
+ * @property signature - The hex-encoded signature of the entry.
+ * @property type - The type of the entry.
+ */
+export type RegistryProofEntry = {
+  data: string;
+  revision: string;
+  datakey: string;
+  publickey: { algorithm: string; key: string };
+  signature: string;
+  type: number;
+};
+
+/**
+ * Parses the proof in the `skynet-proof` header.
+ *
+ * @param header - The value of the header.
+ * @returns - The registry entries of the proof.
+ * @throws - Will throw if the proof is not valid.
+ */
+export function parseRegistryProof(header: string): RegistryProofEntry[] {
+  let proof: unknown;
+  try {
+    // Keep the uint64 revisions as strings.
+    proof = JSON.parse(header.replace(new RegExp(REGEX_REVISION_NO_QUOTES, "g"), '"revision":"$1"'));
+  } catch (err) {
+    throw new ContentVerificationError(`Could not parse the registry proof: ${(err as Error).message}`);
+  }
+  if (!Array.isArray(proof)) {
+    throw new ContentVerificationError("Expected the registry proof to be an array");
+  }
+  proof.forEach((entry, i) => {
+    validateObject(`proof[${i}]`, entry, "registry proof field");
+    validateString(`proof[${i}].data`, entry.data, "registry proof field");
+    validateString(`proof[${i}].revision`, entry.revision, "registry proof field");
+    validateString(`proof[${i}].datakey`, entry.datakey, "registry proof field");
+    validateObject(`proof[${i}].publickey`, entry.publickey, "registry proof field");
+    validateString(`proof[${i}].publickey.key`, entry.publickey.key, "registry proof field");
+    validateString(`proof[${i}].signature`, entry.signature, "registry proof field");
+    validateNumber(`proof[${i}].type`, entry.type, "registry proof field");
+  });
+  return proof;
+}
+
+/**
+ * Verifies that the registry entries of the proof resolve the v2 skylink to
+ * the data link. Every entry must be signed by its public key, and must be
+ * the entry of the previous link in the chain.
+ *
+ * @param proof - The registry entries of the proof, in the order they were resolved.
+ * @param skylink - The requested v2 skylink.
+ * @param dataLink - The v1 skylink returned by the portal.
+ * @throws - Will throw a `ContentVerificationError` if the chain does not resolve the skylink to the data link, or a `SignatureVerificationError` if an entry is not signed correctly.
+ */
+export function verifyRegistryProof(proof: RegistryProofEntry[], skylink: string, dataLink: string): void {
+  if (proof.length === 0) {
+    throw new ContentVerificationError("Expected the registry proof of the v2 skylink not to be empty", skylink);
+  }
+
+  let link = trimUriPrefix(skylink, URI_SKYNET_PREFIX);
+  for (const entry of proof) {
+    if (entry.type !== REGISTRY_TYPE_WITHOUT_PUBKEY) {
+      throw new ContentVerificationError(
+        `Unsupported registry entry type '${entry.type}' in the registry proof`,
+        skylink
+      );
+    }
+
+    const publicKey = toHexString(Buffer.from(entry.publickey.key, "base64"));
+    const entryLink = newSkylinkV2(newEd25519PublicKey(publicKey), hexToUint8Array(entry.datakey)).toString();
+    if (entryLink !== link) {
+      throw new ContentVerificationError(
+        `The registry proof contains the entry of '${entryLink}' instead of '${link}'`,
+        skylink
+      );
+    }
+
+    const data = hexToUint8Array(entry.data);
+    const hash = hashRegistryEntry({ dataKey: entry.datakey, data, revision: BigInt(entry.revision) }, true);
+    const signature = hexToUint8Array(entry.signature);
+    if (
+      signature.length !== sign.signatureLength ||
+      !sign.detached.verify(hash, signature, hexToUint8Array(publicKey))
+    ) {
+      throw new SignatureVerificationError(
+        "could not verify signature of the registry entry in the registry proof",
+        publicKey,
+        entry.datakey
+      );
+    }
+
+    link = encodeSkylinkBase64(data);
+  }
+
+  if (link !== trimUriPrefix(dataLink, URI_SKYNET_PREFIX)) {
+    throw new ContentVerificationError(
+      `The registry proof resolves the v2 skylink to '${link}' instead of '${dataLink}'`,
+      skylink
+    );
+  }
+}
+
+/**
+ * Verifies the registry proof returned by the portal for a download of the
+ * skylink. Only v2 skylinks are resolved with a proof.
+ *
+ * @param skylink - The requested skylink.
+ * @param headers - The response headers.
+ * @param required - Whether to throw if the portal did not return a proof for a v2 skylink.
+ * @returns - The verified registry proof, or undefined if the skylink is not a v2 skylink or there is no proof.
+ * @throws - Will throw if the proof is not valid, or is missing and required.
+ */
+export function verifyResolutionProof(
+  skylink: string,
+  headers: TransportHeaders,
+  required: boolean
+): RegistryProofEntry[] | undefined {
+  if (!isSkylinkV2(skylink)) {
+    return undefined;
+  }
+
+  const dataLink = headers["skynet-skylink"];
+  const proof = headers["skynet-proof"];
+  if (!dataLink || !proof) {
+    if (required) {
+      throw new ContentVerificationError(
+        "Expected the portal to return the resolved skylink and the registry proof of the v2 skylink",
+        skylink
+      );
+    }
+    return undefined;
+  }
+
+  const entries = parseRegistryProof(proof);
+  verifyRegistryProof(entries, skylink, dataLink);
+  return entries;
+}
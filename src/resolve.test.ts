@@ -0,0 +1,144 @@
+import axios from "axios";
+import MockAdapter from "axios-mock-adapter";
+import { Buffer } from "buffer";
+
+import { hashDataKey } from "./crypto";
+import { SkynetClient, DEFAULT_SKYNET_PORTAL_URL, genKeyPairFromSeed } from "./index";
+import { getEntryUrlForPortal, signEntry } from "./registry";
+import { toHexString } from "./utils/string";
+import { decodeSkylinkBase64 } from "./utils/encoding";
+
+const portalUrl = DEFAULT_SKYNET_PORTAL_URL;
+const client = new SkynetClient(portalUrl);
+const dataLink = "XABvi7JtJbQSMAcDwnUnmp2FKDPjg8_tTTFP4BwMSxVdEg";
+const dataKey = "app";
+const first = genKeyPairFromSeed("first resolve seed");
+const second = genKeyPairFromSeed("second resolve seed");
+
+/**
+ * Signs a registry entry pointing to the link.
+ *
+ * @param privateKey - The private key of the entry.
+ * @param link - The skylink stored in the entry.
+ * @param revision - The revision of the entry.
+ * @returns - The hex-encoded data and detached signature.
+ */
+async function signLink(privateKey: string, link: string, revision: number): Promise<[string, string]> {
+  const data = decodeSkylinkBase64(link);
+  const signature = await signEntry(privateKey, { dataKey, data, revision: BigInt(revision) }, false);
+  return [toHexString(data), toHexString(signature.slice(0, 64))];
+}
+
+describe("resolveSkylink", () => {
+  let mock: MockAdapter;
+  let firstLink: string;
+  let secondLink: string;
+
+  beforeEach(async () => {
+    mock = new MockAdapter(axios);
+    mock.resetHistory();
+    await client.invalidatePortalCapabilities();
+    mock.onOptions(`${portalUrl}/skynet/tus`).reply(404);
+
+    firstLink = await client.registry.getEntryLink(first.publicKey, dataKey);
+    secondLink = await client.registry.getEntryLink(second.publicKey, dataKey);
+  });
+
+  it("should return v1 skylinks without any request", async () => {
+    const response = await client.resolveSkylink(dataLink);
+
+    expect(response).toEqual({ skylink: `sia://${dataLink}`, links: [], revisions: [] });
+    expect(mock.history.options.length).toEqual(0);
+  });
+
+  it("should use the resolve endpoint and verify its proof", async () => {
+    const secondBase64 = secondLink.slice("sia://".length);
+    const firstBase64 = firstLink.slice("sia://".length);
+    const [firstData, firstSignature] = await signLink(first.privateKey, secondBase64, 3);
+    const [secondData, secondSignature] = await signLink(second.privateKey, dataLink, 7);
+    const toProofEntry = (publicKey: string, data: string, revision: number, signature: string) => ({
+      data,
+      revision,
+      datakey: toHexString(hashDataKey(dataKey)),
+      publickey: { algorithm: "ed25519", key: Buffer.from(publicKey, "hex").toString("base64") },
+      signature,
+      type: 1,
+    });
+    const proof = JSON.stringify([
+      toProofEntry(first.publicKey, firstData, 3, firstSignature),
+      toProofEntry(second.publicKey, secondData, 7, secondSignature),
+    ]);
+    mock.onOptions(`${portalUrl}/skynet/resolve`).reply(204);
+    mock
+      .onGet(`${portalUrl}/skynet/resolve/${firstBase64}`)
+      .replyOnce(200, { skylink: dataLink }, { "skynet-proof": proof });
+
+    const response = await client.resolveSkylink(firstLink);
+
+    expect(response).toEqual({
+      skylink: `sia://${dataLink}`,
+      links: [firstLink, secondLink],
+      revisions: [BigInt(3), BigInt(7)],
+    });
+    await client.invalidatePortalCapabilities();
+    mock
+      .onGet(`${portalUrl}/skynet/resolve/${firstBase64}`)
+      .replyOnce(200, { skylink: dataLink }, { "skynet-proof": proof });
+    await expect(client.resolveSkylink(firstLink, { maxDepth: 1 })).rejects.toThrowError(
+      "The skylink resolves through 2 v2 skylinks, more than '1'"
+    );
+  });
+
+  describe("without the resolve endpoint", () => {
+    const entryKeys = [
+      { publicKey: first.publicKey, dataKey },
+      { publicKey: second.publicKey, dataKey },
+    ];
+
+    beforeEach(async () => {
+      mock.onOptions(`${portalUrl}/skynet/resolve`).reply(404);
+      const [firstData, firstSignature] = await signLink(first.privateKey, secondLink.slice("sia://".length), 3);
+      const [secondData, secondSignature] = await signLink(second.privateKey, dataLink, 7);
+      mock
+        .onGet(getEntryUrlForPortal(portalUrl, first.publicKey, dataKey))
+        .reply(200, JSON.stringify({ data: firstData, revision: 3, signature: firstSignature }));
+      mock
+        .onGet(getEntryUrlForPortal(portalUrl, second.publicKey, dataKey))
+        .reply(200, JSON.stringify({ data: secondData, revision: 7, signature: secondSignature }));
+    });
+
+    it("should look up the registry entries", async () => {
+      const response = await client.resolveSkylink(firstLink, { entryKeys });
+
+      expect(response).toEqual({
+        skylink: `sia://${dataLink}`,
+        links: [firstLink, secondLink],
+        revisions: [BigInt(3), BigInt(7)],
+      });
+    });
+
+    it("should throw if the chain is longer than the max depth", async () => {
+      await expect(client.resolveSkylink(firstLink, { entryKeys, maxDepth: 1 })).rejects.toThrowError(
+        "The skylink resolves through more than '1' v2 skylinks"
+      );
+    });
+
+    it("should throw if the keys of an entry are missing", async () => {
+      await expect(client.resolveSkylink(firstLink, { entryKeys: entryKeys.slice(0, 1) })).rejects.toThrowError(
+        `The portal does not support resolving skylinks and the keys of the entry of '${secondLink}' were not given in 'entryKeys'`
+      );
+    });
+  });
+
+  it.each([
+    [
+      "skylink",
+      "foo",
+      undefined,
+      "Expected parameter 'skylinkUrl' to be valid skylink of type 'string', was type 'string', value 'foo'",
+    ],
+    ["max depth", dataLink, { maxDepth: 0 }, "Expected option 'maxDepth' to be a positive integer, was '0'"],
+  ])("should throw if the %s is invalid", async (_, skylink, customOptions, message) => {
+    await expect(client.resolveSkylink(skylink, customOptions)).rejects.toThrowError(message);
+  });
+});
@@ -0,0 +1,214 @@
+import { SkynetClient } from "./client";
+import { ContentVerificationError, SkynetError, ValidationError } from "./errors";
+import { verifyResolutionProof } from "./registry_proof";
+import { formatSkylink } from "./skylink/format";
+import { parseSkylink } from "./skylink/parse";
+import { isSkylinkV1, isSkylinkV2, RAW_SKYLINK_SIZE } from "./skylink/sia";
+import { encodeSkylinkBase64 } from "./utils/encoding";
+import { BaseCustomOptions, DEFAULT_BASE_OPTIONS, extractOptions } from "./utils/options";
+import { hexToUint8Array } from "./utils/string";
+import {
+  throwValidationError,
+  validateOptionalObject,
+  validateSkylinkString,
+  validateString,
+} from "./utils/validation";
+
+/**
+ * The keys of a registry entry, used to look up the entry of a v2 skylink.
+ *
+ * @property publicKey - The public key of the entry.
+ * @property dataKey - The data key of the entry.
+ * @property [hashedDataKeyHex=false] - Whether the data key is already hashed and in hex format.
+ */
+export type RegistryEntryKeys = {
+  publicKey: string;
+  dataKey: string;
+  hashedDataKeyHex?: boolean;
+};
+
+/**
+ * Custom resolve skylink options.
+ *
+ * @property [endpointResolve] - The relative URL path of the portal endpoint to contact.
+ * @property [endpointGetEntry] - The relative URL path of the registry endpoint, for portals without the resolve endpoint.
+ * @property [entryKeys] - The keys of the v2 skylinks in the chain, for portals without the resolve endpoint. A v2 skylink can't be looked up in the registry without the keys of its entry.
+ * @property [maxDepth=8] - The maximum number of v2 skylinks to follow.
+ */
+export type CustomResolveSkylinkOptions = BaseCustomOptions & {
+  endpointResolve?: string;
+  endpointGetEntry?: string;
+  entryKeys?: RegistryEntryKeys[];
+  maxDepth?: number;
+};
+
+/**
+ * The response to a resolve skylink request.
+ *
+ * @property skylink - The v1 skylink the requested skylink resolves to.
+ * @property links - The v2 skylinks which were followed, in order, starting with the requested skylink. Empty for v1 skylinks.
+ * @property revisions - The revisions of the registry entries of the followed v2 skylinks.
+ */
+export type ResolveSkylinkResponse = {
+  skylink: string;
+  links: string[];
+  revisions: bigint[];
+};
+
+export const DEFAULT_RESOLVE_SKYLINK_OPTIONS = {
+  ...DEFAULT_BASE_OPTIONS,
+  endpointResolve: "/skynet/resolve",
+  endpointGetEntry: "/skynet/registry",
+  entryKeys: undefined,
+  maxDepth: 8,
+};
+
+/**
+ * Resolves the given skylink to the v1 skylink it currently points to,
+ * following chains of v2 skylinks. Uses the resolve endpoint of the portal if
+ * it is supported, and verifies the registry proof it returns. Otherwise the
+ * registry entries are looked up with the keys in `entryKeys`.
+ *
+ * @param this - SkynetClient
+ * @param skylinkUrl - 46-character skylink, or a valid skylink URL.
+ * @param [customOptions] - Additional settings that can optionally be set.
+ * @returns - The v1 skylink, the followed v2 skylinks and the revisions of their entries.
+ * @throws - Will throw if the skylink could not be resolved or the chain is longer than `maxDepth`.
+ */
+export async function resolveSkylink(
+  this: SkynetClient,
+  skylinkUrl: string,
+  customOptions?: CustomResolveSkylinkOptions
+): Promise<ResolveSkylinkResponse> {
+  const skylink = validateSkylinkString("skylinkUrl", skylinkUrl, "parameter");
+  validateOptionalObject("customOptions", customOptions, "parameter", DEFAULT_RESOLVE_SKYLINK_OPTIONS);
+
+  const opts = { ...DEFAULT_RESOLVE_SKYLINK_OPTIONS, ...this.customOptions, ...customOptions };
+  if (!Number.isInteger(opts.maxDepth) || opts.maxDepth < 1) {
+    throw new ValidationError(
+      `Expected option 'maxDepth' to be a positive integer, was '${opts.maxDepth}'`,
+      "maxDepth",
+      "option"
+    );
+  }
+  if (opts.entryKeys !== undefined && !Array.isArray(opts.entryKeys)) {
+    throwValidationError("entryKeys", opts.entryKeys, "option", "type 'array'");
+  }
+
+  // Don't include the path since the endpoint doesn't support it.
+  const path = parseSkylink(skylinkUrl, { onlyPath: true });
+  if (path) {
+    throw new ValidationError("Skylink string should not contain a path", "skylinkUrl", "parameter");
+  }
+
+  if (isSkylinkV1(skylink)) {
+    return { skylink: formatSkylink(skylink), links: [], revisions: [] };
+  }
+  if (!isSkylinkV2(skylink)) {
+    throwValidationError("skylinkUrl", skylinkUrl, "parameter", "v1 or v2 skylink");
+  }
+
+  const capabilities = await this.getPortalCapabilities({
+    ...extractOptions(opts, DEFAULT_BASE_OPTIONS),
+    endpointResolve: opts.endpointResolve,
+  });
+  if (capabilities.endpoints.resolve) {
+    return resolveSkylinkWithEndpoint.call(this, skylink, opts);
+  }
+  return resolveSkylinkWithRegistry.call(this, skylink, opts);
+}
+
+/**
+ * Resolves the v2 skylink with the resolve endpoint of the portal.
+ *
+ * @param this - SkynetClient
+ * @param skylink - The v2 skylink.
+ * @param opts - The resolve skylink options.
+ * @returns - The resolve skylink response.
+ * @throws - Will throw if the response or its registry proof is not valid.
+ */
+async function resolveSkylinkWithEndpoint(
+  this: SkynetClient,
+  skylink: string,
+  opts: CustomResolveSkylinkOptions & Pick<typeof DEFAULT_RESOLVE_SKYLINK_OPTIONS, "endpointResolve" | "maxDepth">
+): Promise<ResolveSkylinkResponse> {
+  const response = await this.executeRequest({
+    ...opts,
+    endpointPath: opts.endpointResolve,
+    method: "get",
+    extraPath: skylink,
+  });
+
+  const dataLink = (response.data as { skylink?: unknown } | undefined)?.skylink;
+  validateString("response.data.skylink", dataLink, "resolve response field");
+  // The proof contains every entry which was followed.
+  const proof = verifyResolutionProof(skylink, { ...response.headers, "skynet-skylink": dataLink }, true) ?? [];
+  if (proof.length > opts.maxDepth) {
+    throw new SkynetError(`The skylink resolves through ${proof.length} v2 skylinks, more than '${opts.maxDepth}'`);
+  }
+
+  const links = [skylink];
+  proof.slice(0, -1).forEach((entry) => links.push(encodeSkylinkBase64(hexToUint8Array(entry.data))));
+  return {
+    skylink: formatSkylink(dataLink),
+    links: links.map(formatSkylink),
+    revisions: proof.map((entry) => BigInt(entry.revision)),
+  };
+}
+
+/**
+ * Resolves the v2 skylink by looking up the registry entries of the chain.
+ *
+ * @param this - SkynetClient
+ * @param skylink - The v2 skylink.
+ * @param opts - The resolve skylink options.
+ * @returns - The resolve skylink response.
+ * @throws - Will throw if an entry could not be found or the chain is longer than `maxDepth`.
+ */
+async function resolveSkylinkWithRegistry(
+  this: SkynetClient,
+  skylink: string,
+  opts: CustomResolveSkylinkOptions & Pick<typeof DEFAULT_RESOLVE_SKYLINK_OPTIONS, "endpointGetEntry" | "maxDepth">
+): Promise<ResolveSkylinkResponse> {
+  // The entry links of the given keys.
+  const entryKeys = new Map<string, RegistryEntryKeys>();
+  for (const keys of opts.entryKeys ?? []) {
+    const entryLink = await this.registry.getEntryLink(keys.publicKey, keys.dataKey, {
+      hashedDataKeyHex: keys.hashedDataKeyHex,
+    });
+    entryKeys.set(entryLink, keys);
+  }
+
+  const links: string[] = [];
+  const revisions: bigint[] = [];
+  let link = formatSkylink(skylink);
+  while (!isSkylinkV1(link)) {
+    if (links.length === opts.maxDepth) {
+      throw new SkynetError(`The skylink resolves through more than '${opts.maxDepth}' v2 skylinks`);
+    }
+    const keys = entryKeys.get(link);
+    if (!keys) {
+      throw new SkynetError(
+        `The portal does not support resolving skylinks and the keys of the entry of '${link}' were not given in 'entryKeys'`
+      );
+    }
+
+    const { entry } = await this.registry.getEntry(keys.publicKey, keys.dataKey, {
+      ...extractOptions(opts, DEFAULT_BASE_OPTIONS),
+      endpointGetEntry: opts.endpointGetEntry,
+      hashedDataKeyHex: keys.hashedDataKeyHex ?? false,
+    });
+    if (!entry) {
+      throw new SkynetError(`The registry entry of '${link}' was not found`);
+    }
+    if (entry.data.length !== RAW_SKYLINK_SIZE) {
+      throw new ContentVerificationError(`The registry entry of '${link}' does not contain a skylink`, skylink);
+    }
+
+    links.push(link);
+    revisions.push(entry.revision);
+    link = formatSkylink(encodeSkylinkBase64(entry.data));
+  }
+
+  return { skylink: link, links, revisions };
+}
@@ -0,0 +1,198 @@
+import axios from "axios";
+import MockAdapter from "axios-mock-adapter";
+import { PreviousUpload, Upload } from "tus-js-client";
+
+import { AbortError, SkynetClient, DEFAULT_SKYNET_PORTAL_URL, PendingUpload, UploadUrlStorage } from "./index";
+import { computeUploadFingerprint } from "./resumable_upload";
+import { mockTusServer } from "../utils/testing";
+
+const portalUrl = DEFAULT_SKYNET_PORTAL_URL;
+const endpoint = `${portalUrl}/skynet/tus`;
+
+/**
+ * Creates a URL storage which keeps the uploads in memory.
+ *
+ * @param entries - The stored uploads, keyed by URL storage key.
+ * @returns - The URL storage.
+ */
+function createMemoryUrlStorage(entries: Record<string, PreviousUpload>): UploadUrlStorage {
+  const findEntries = async (prefix: string) =>
+    Object.entries(entries)
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([key, upload]) => ({ ...upload, urlStorageKey: key }));
+  return {
+    findAllUploads: () => findEntries("tus::"),
+    findUploadsByFingerprint: (fingerprint) => findEntries(`tus::${fingerprint}::`),
+    removeUpload: async (key) => {
+      delete entries[key];
+    },
+    addUpload: async (fingerprint, upload) => {
+      const key = `tus::${fingerprint}::${Object.keys(entries).length}`;
+      entries[key] = upload;
+      return key;
+    },
+  };
+}
+
+describe("computeUploadFingerprint", () => {
+  const data = new Blob(["foo"], { type: "text/plain" });
+
+  it("should return the same fingerprint for the same content", async () => {
+    const fingerprint = await computeUploadFingerprint(data, "foo.txt", endpoint);
+
+    expect(fingerprint).toMatch(/^skynet-[0-9a-f]{64}$/);
+    expect(await computeUploadFingerprint(new Blob(["foo"], { type: "text/plain" }), "foo.txt", endpoint)).toEqual(
+      fingerprint
+    );
+  });
+
+  it("should return a different fingerprint if the middle of the content changed", async () => {
+    const content = new Uint8Array(5 << 20);
+    const fingerprint = await computeUploadFingerprint(new Blob([content]), "foo.txt", endpoint);
+    content[content.length / 2] = 1;
+
+    expect(await computeUploadFingerprint(new Blob([content]), "foo.txt", endpoint)).not.toEqual(fingerprint);
+  });
+
+  it.each([
+    ["content", new Blob(["bar"], { type: "text/plain" }), "foo.txt", endpoint],
+    ["type", new Blob(["foo"]), "foo.txt", endpoint],
+    ["filename", data, "bar.txt", endpoint],
+    ["endpoint", data, "foo.txt", "https://siasky.dev/skynet/tus"],
+  ])("should return a different fingerprint for a different %s", async (_, otherData, filename, otherEndpoint) => {
+    const fingerprint = await computeUploadFingerprint(data, "foo.txt", endpoint);
+
+    expect(await computeUploadFingerprint(otherData, filename, otherEndpoint)).not.toEqual(fingerprint);
+  });
+});
+
+describe("pending uploads", () => {
+  const upload = {
+    size: 100,
+    metadata: { filename: "foo.txt", filetype: "text/plain" },
+    creationTime: "Mon Oct 19 2026 10:00:00 GMT+0000",
+  };
+  let entries: Record<string, PreviousUpload>;
+  let client: SkynetClient;
+  let mock: MockAdapter;
+
+  beforeEach(async () => {
+    entries = {
+      "tus::skynet-foo::1": { ...upload, uploadUrl: `${endpoint}/foo` } as PreviousUpload,
+      "tus::skynet-bar::2": {
+        ...upload,
+        metadata: { filename: "bar.txt", filetype: "" },
+        parallelUploadUrls: [`${endpoint}/bar1`, `${endpoint}/bar2`],
+      } as PreviousUpload,
+    };
+    client = new SkynetClient(portalUrl, { urlStorage: createMemoryUrlStorage(entries) });
+    mock = new MockAdapter(axios);
+    await client.invalidatePortalCapabilities();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should list the pending uploads", async () => {
+    const pendingUploads = await client.listPendingUploads();
+
+    expect(pendingUploads).toEqual([
+      {
+        urlStorageKey: "tus::skynet-foo::1",
+        filename: "foo.txt",
+        filetype: "text/plain",
+        size: 100,
+        creationTime: upload.creationTime,
+        uploadUrls: [`${endpoint}/foo`],
+      },
+      {
+        urlStorageKey: "tus::skynet-bar::2",
+        filename: "bar.txt",
+        filetype: "",
+        size: 100,
+        creationTime: upload.creationTime,
+        uploadUrls: [`${endpoint}/bar1`, `${endpoint}/bar2`],
+      },
+    ]);
+  });
+
+  it("should return no pending uploads for the default storage in Node.js", async () => {
+    const client = new SkynetClient(portalUrl);
+
+    expect(await client.listPendingUploads()).toEqual([]);
+  });
+
+  it("should discard a pending upload and terminate it on the portal", async () => {
+    mock.onOptions(endpoint).replyOnce(204, undefined, { "tus-extension": "creation,termination" });
+    mock.onOptions().reply(404);
+    mock.onGet().reply(404);
+    const terminate = jest.spyOn(Upload, "terminate").mockResolvedValue(undefined);
+    const [, pendingUpload] = await client.listPendingUploads();
+
+    await client.discardPendingUpload(pendingUpload);
+
+    expect(terminate.mock.calls.map(([url]) => url)).toEqual([`${endpoint}/bar1`, `${endpoint}/bar2`]);
+    expect(Object.keys(entries)).toEqual(["tus::skynet-foo::1"]);
+  });
+
+  it("should only remove the pending upload if the portal does not support termination", async () => {
+    mock.onOptions(endpoint).replyOnce(204, undefined, { "tus-extension": "creation" });
+    mock.onOptions().reply(404);
+    mock.onGet().reply(404);
+    const terminate = jest.spyOn(Upload, "terminate").mockResolvedValue(undefined);
+    const [pendingUpload] = await client.listPendingUploads();
+
+    await client.discardPendingUpload(pendingUpload);
+
+    expect(terminate).not.toHaveBeenCalled();
+    expect(Object.keys(entries)).toEqual(["tus::skynet-bar::2"]);
+  });
+
+  it("should throw if the pending upload is invalid", async () => {
+    await expect(client.discardPendingUpload({} as PendingUpload)).rejects.toThrowError(
+      "Expected parameter 'pendingUpload.urlStorageKey' to be type 'string', was type 'undefined'"
+    );
+  });
+});
+
+describe("resuming uploads", () => {
+  const file = new File(["foo"], "foo.txt", { type: "text/plain" });
+  let mock: MockAdapter;
+
+  beforeEach(async () => {
+    mock = new MockAdapter(axios);
+    mock.onHead(portalUrl).reply(200, {}, { "skynet-portal-api": portalUrl });
+    mock.onOptions(endpoint).reply(204, undefined, { "tus-extension": "creation" });
+    mock.onOptions().reply(404);
+    mock.onGet().reply(404);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should not start the upload if it is aborted while looking for previous uploads", async () => {
+    // Blocks the lookup until it is finished by the test.
+    let finishLookup: (() => void) | undefined;
+    const urlStorage = {
+      ...createMemoryUrlStorage({}),
+      findUploadsByFingerprint: () => new Promise<PreviousUpload[]>((resolve) => (finishLookup = () => resolve([]))),
+    };
+    const client = new SkynetClient(portalUrl, { urlStorage });
+    await client.invalidatePortalCapabilities();
+    const requests = mockTusServer(endpoint);
+    const controller = new AbortController();
+
+    const promise = client.uploadFile(file, { largeFileSize: 1, signal: controller.signal });
+    while (!finishLookup) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    controller.abort();
+    finishLookup();
+
+    await expect(promise).rejects.toThrowError(AbortError);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(requests).toEqual([]);
+  });
+});
@@ -0,0 +1,166 @@
+import { defaultOptions, Upload } from "tus-js-client";
+import type { PreviousUpload, UrlStorage } from "tus-js-client";
+
+import { buildRequestHeaders, SkynetClient } from "./client";
+import { hashAll } from "./crypto";
+import { readBlob } from "./utils/file";
+import { BaseCustomOptions, DEFAULT_BASE_OPTIONS, extractOptions } from "./utils/options";
+import { stringToUint8ArrayUtf8, toHexString } from "./utils/string";
+import { validateObject, validateOptionalObject, validateString } from "./utils/validation";
+
+/**
+ * The number of bytes of the data which are read and hashed at once for the
+ * fingerprint of an upload.
+ */
+const FINGERPRINT_CHUNK_SIZE = 1 << 22;
+
+/**
+ * The storage for the URLs of unfinished large uploads. Has the same interface
+ * as the `urlStorage` of tus-js-client.
+ */
+export type UploadUrlStorage = UrlStorage;
+
+/**
+ * Custom pending uploads options.
+ *
+ * @property [endpointLargeUpload] - The relative URL path of the portal endpoint to contact for large uploads.
+ */
+export type CustomPendingUploadsOptions = BaseCustomOptions & {
+  endpointLargeUpload?: string;
+};
+
+/**
+ * An unfinished large upload which can be resumed by uploading the same data
+ * again, e.g. with `uploadFile`.
+ *
+ * @property urlStorageKey - The key of the upload in the URL storage.
+ * @property filename - The filename of the upload.
+ * @property filetype - The content type of the upload.
+ * @property size - The size of the upload in bytes, if known.
+ * @property creationTime - The time at which the upload was started.
+ * @property uploadUrls - The tus URLs of the upload. Parallel uploads have one URL per part.
+ */
+export type PendingUpload = {
+  urlStorageKey: string;
+  filename: string;
+  filetype: string;
+  size: number | null;
+  creationTime: string;
+  uploadUrls: string[];
+};
+
+/**
+ * A previous upload as stored by tus-js-client.
+ */
+type StoredUpload = PreviousUpload & {
+  urlStorageKey: string;
+  uploadUrl?: string;
+  parallelUploadUrls?: string[];
+};
+
+export const DEFAULT_PENDING_UPLOADS_OPTIONS = {
+  ...DEFAULT_BASE_OPTIONS,
+  endpointLargeUpload: "/skynet/tus",
+};
+
+/**
+ * Lists the unfinished large uploads in the URL storage. Portals keep partial
+ * uploads for about 20 minutes, older uploads will be restarted when resumed.
+ *
+ * @param this - SkynetClient
+ * @param [customOptions] - Additional settings that can optionally be set.
+ * @returns - The pending uploads.
+ */
+export async function listPendingUploads(
+  this: SkynetClient,
+  customOptions?: CustomPendingUploadsOptions
+): Promise<PendingUpload[]> {
+  validateOptionalObject("customOptions", customOptions, "parameter", DEFAULT_PENDING_UPLOADS_OPTIONS);
+
+  const opts = { ...DEFAULT_PENDING_UPLOADS_OPTIONS, ...this.customOptions, ...customOptions };
+
+  const urlStorage = getUploadUrlStorage(opts.urlStorage);
+  // The default storage of tus-js-client in Node.js doesn't store anything and doesn't implement `findAllUploads`.
+  if (typeof urlStorage.findAllUploads !== "function") {
+    return [];
+  }
+  const uploads = (await urlStorage.findAllUploads()) as StoredUpload[];
+  return uploads.map((upload) => ({
+    urlStorageKey: upload.urlStorageKey,
+    filename: upload.metadata?.filename ?? "",
+    filetype: upload.metadata?.filetype ?? "",
+    size: upload.size,
+    creationTime: upload.creationTime,
+    uploadUrls: upload.parallelUploadUrls ?? (upload.uploadUrl ? [upload.uploadUrl] : []),
+  }));
+}
+
+/**
+ * Discards an unfinished large upload. It is removed from the URL storage and,
+ * if the portal supports it, terminated on the portal.
+ *
+ * @param this - SkynetClient
+ * @param pendingUpload - The pending upload, as returned by `listPendingUploads`.
+ * @param [customOptions] - Additional settings that can optionally be set.
+ * @param [customOptions.endpointLargeUpload="/skynet/tus"] - The relative URL path of the portal endpoint to contact.
+ * @throws - Will throw if the pending upload is invalid or the portal failed to terminate it.
+ */
+export async function discardPendingUpload(
+  this: SkynetClient,
+  pendingUpload: PendingUpload,
+  customOptions?: CustomPendingUploadsOptions
+): Promise<void> {
+  validateObject("pendingUpload", pendingUpload, "parameter");
+  validateString("pendingUpload.urlStorageKey", pendingUpload.urlStorageKey, "parameter");
+  validateOptionalObject("customOptions", customOptions, "parameter", DEFAULT_PENDING_UPLOADS_OPTIONS);
+
+  const opts = { ...DEFAULT_PENDING_UPLOADS_OPTIONS, ...this.customOptions, ...customOptions };
+
+  const capabilities = await this.getPortalCapabilities(extractOptions(opts, DEFAULT_PENDING_UPLOADS_OPTIONS));
+  if (capabilities.tus.extensions.includes("termination")) {
+    const headers = buildRequestHeaders(undefined, opts.customUserAgent, opts.customCookie);
+    for (const url of pendingUpload.uploadUrls) {
+      await Upload.terminate(url, { headers, retryDelays: [] });
+    }
+  }
+
+  await getUploadUrlStorage(opts.urlStorage).removeUpload(pendingUpload.urlStorageKey);
+}
+
+/**
+ * Returns the given URL storage, or the default of tus-js-client, which is
+ * localStorage in browsers and stores nothing in Node.js.
+ *
+ * @param [urlStorage] - The URL storage.
+ * @returns - The URL storage to use.
+ */
+export function getUploadUrlStorage(urlStorage?: UploadUrlStorage): UploadUrlStorage {
+  return urlStorage ?? (defaultOptions.urlStorage as UploadUrlStorage);
+}
+
+/**
+ * Computes the fingerprint of an upload, which identifies the upload in the
+ * URL storage. It is a hash of the size and the whole content of the data, the
+ * filename, the content type and the tus endpoint, so that only uploading the
+ * same content again resumes the upload. The data is read in chunks, which are
+ * hashed one by one.
+ *
+ * @param data - The data to upload.
+ * @param filename - The filename of the upload.
+ * @param endpoint - The tus endpoint.
+ * @returns - The fingerprint.
+ */
+export async function computeUploadFingerprint(data: Blob, filename: string, endpoint: string): Promise<string> {
+  const chunkHashes: Uint8Array[] = [];
+  for (let offset = 0; offset < data.size; offset += FINGERPRINT_CHUNK_SIZE) {
+    chunkHashes.push(hashAll(await readBlob(data.slice(offset, offset + FINGERPRINT_CHUNK_SIZE))));
+  }
+  const hash = hashAll(
+    stringToUint8ArrayUtf8(`${data.size}`),
+    ...chunkHashes,
+    stringToUint8ArrayUtf8(filename),
+    stringToUint8ArrayUtf8(data.type),
+    stringToUint8ArrayUtf8(endpoint)
+  );
+  return `skynet-${toHexString(hash)}`;
+}
@@ -0,0 +1,127 @@
+import axios from "axios";
+import MockAdapter from "axios-mock-adapter";
+
+import { SkynetClient, DEFAULT_SKYNET_PORTAL_URL } from "./index";
+import { getRetryAfter, getRetryDelay } from "./retry";
+
+const portalUrl = DEFAULT_SKYNET_PORTAL_URL;
+const client = new SkynetClient(portalUrl);
+const skylink = "XABvi7JtJbQSMAcDwnUnmp2FKDPjg8_tTTFP4BwMSxVdEg";
+const downloadUrl = `${portalUrl}/${skylink}`;
+const pinUrl = `${portalUrl}/skynet/pin/${skylink}`;
+const retry = { maxAttempts: 3, initialDelay: 1 };
+
+describe("retry", () => {
+  let mock: MockAdapter;
+
+  beforeEach(() => {
+    mock = new MockAdapter(axios);
+    mock.resetHistory();
+  });
+
+  it("should not retry by default", async () => {
+    mock.onGet(downloadUrl).replyOnce(503);
+
+    await expect(client.getFileContent(skylink)).rejects.toThrowError("Request failed with status code 503");
+    expect(mock.history.get.length).toBe(1);
+  });
+
+  it("should retry retryable status codes and network errors until the request succeeds", async () => {
+    mock
+      .onGet(downloadUrl)
+      .replyOnce(502)
+      .onGet(downloadUrl)
+      .networkErrorOnce()
+      .onGet(downloadUrl)
+      .replyOnce(200, "foo", {});
+    const onRetry = jest.fn();
+
+    const { data } = await client.getFileContent(skylink, { retry: { ...retry, onRetry } });
+
+    expect(data).toEqual("foo");
+    expect(mock.history.get.length).toBe(3);
+    expect(onRetry).toHaveBeenCalledTimes(2);
+    expect(onRetry.mock.calls[0][0]).toEqual(expect.objectContaining({ attempt: 1, method: "get", url: downloadUrl }));
+    expect(onRetry.mock.calls[1][0]).toEqual(expect.objectContaining({ attempt: 2 }));
+  });
+
+  it("should give up after the maximum number of attempts", async () => {
+    mock.onGet(downloadUrl).reply(503);
+
+    await expect(client.getFileContent(skylink, { retry })).rejects.toThrowError("Request failed with status code 503");
+    expect(mock.history.get.length).toBe(3);
+  });
+
+  it("should not retry status codes that are not retryable", async () => {
+    mock.onGet(downloadUrl).reply(400);
+
+    await expect(client.getFileContent(skylink, { retry })).rejects.toThrowError("Request failed with status code 400");
+    expect(mock.history.get.length).toBe(1);
+  });
+
+  it("should only retry non-idempotent requests if enabled", async () => {
+    mock.onPost(pinUrl).reply(503);
+
+    await expect(client.pinSkylink(skylink, { retry })).rejects.toThrowError("Request failed with status code 503");
+    expect(mock.history.post.length).toBe(1);
+
+    mock.resetHistory();
+    await expect(client.pinSkylink(skylink, { retry: { ...retry, retryNonIdempotent: true } })).rejects.toThrowError(
+      "Request failed with status code 503"
+    );
+    expect(mock.history.post.length).toBe(3);
+  });
+
+  it("should wait for the Retry-After delay before retrying", async () => {
+    mock.onGet(downloadUrl).replyOnce(429, "", { "retry-after": "0.05" }).onGet(downloadUrl).replyOnce(200, "foo", {});
+    const onRetry = jest.fn();
+
+    await client.getFileContent(skylink, { retry: { ...retry, onRetry } });
+
+    expect(onRetry.mock.calls[0][0]).toEqual(expect.objectContaining({ delay: 50 }));
+  });
+});
+
+describe("getRetryAfter", () => {
+  const errorWithRetryAfter = (retryAfter: string) => ({
+    response: { status: 429, headers: { "retry-after": retryAfter } },
+  });
+
+  it("should parse the delay in seconds", () => {
+    expect(getRetryAfter(errorWithRetryAfter("2"))).toEqual(2000);
+  });
+
+  it("should parse the delay as an HTTP date", () => {
+    const date = new Date(Date.now() + 10_000).toUTCString();
+
+    const delay = getRetryAfter(errorWithRetryAfter(date));
+
+    expect(delay).toBeGreaterThan(8000);
+    expect(delay).toBeLessThanOrEqual(10_000);
+  });
+
+  it("should return undefined for missing or invalid headers", () => {
+    expect(getRetryAfter(new Error("Network Error"))).toBeUndefined();
+    expect(getRetryAfter(errorWithRetryAfter("soon"))).toBeUndefined();
+    expect(getRetryAfter(errorWithRetryAfter("-1"))).toBeUndefined();
+  });
+});
+
+describe("getRetryDelay", () => {
+  it("should back off exponentially up to the maximum delay", () => {
+    const opts = { initialDelay: 100, backoffFactor: 3, maxDelay: 1000, jitter: 0 };
+
+    expect(getRetryDelay(1, opts)).toEqual(100);
+    expect(getRetryDelay(2, opts)).toEqual(300);
+    expect(getRetryDelay(3, opts)).toEqual(900);
+    expect(getRetryDelay(4, opts)).toEqual(1000);
+  });
+
+  it("should apply jitter within the given fraction", () => {
+    for (let i = 0; i < 20; i++) {
+      const delay = getRetryDelay(1, { initialDelay: 100, jitter: 0.5 });
+      expect(delay).toBeGreaterThanOrEqual(50);
+      expect(delay).toBeLessThanOrEqual(100);
+    }
+  });
+});
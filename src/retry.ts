@@ -0,0 +1,177 @@
+import type { Method } from "axios";
+
+import { AbortError } from "./errors";
+import { TransportError } from "./transport";
+import { sleep } from "./utils/abort";
+
+/**
+ * Information about a request that is about to be retried.
+ *
+ * @property attempt - The number of the attempt that failed, starting at 1.
+ * @property delay - The delay in ms before the next attempt.
+ * @property error - The error returned by the failed attempt.
+ * @property method - The request method.
+ * @property url - The request URL.
+ */
+export type RetryEvent = {
+  attempt: number;
+  delay: number;
+  error: unknown;
+  method: string;
+  url: string;
+};
+
+/**
+ * Retry policy for requests to the portal.
+ *
+ * @property [maxAttempts=1] - The maximum number of attempts, including the first one. 1 disables retrying.
+ * @property [initialDelay=500] - The delay in ms before the first retry.
+ * @property [maxDelay=30_000] - The maximum delay in ms between two attempts.
+ * @property [backoffFactor=2] - The factor by which the delay grows after every retry.
+ * @property [jitter=0.2] - The fraction of the delay, between 0 and 1, which is randomly removed from it so that clients don't retry in lockstep.
+ * @property [retryableStatusCodes=[408, 429, 500, 502, 503, 504]] - The status codes that are retried. Requests that failed without a response, e.g. due to a socket reset, are always retried.
+ * @property [retryNonIdempotent=false] - Whether to retry non-idempotent requests, e.g. POST uploads.
+ * @property [onRetry] - Called before every retry.
+ */
+export type RetryOptions = {
+  maxAttempts?: number;
+  initialDelay?: number;
+  maxDelay?: number;
+  backoffFactor?: number;
+  jitter?: number;
+  retryableStatusCodes?: number[];
+  retryNonIdempotent?: boolean;
+  onRetry?: (event: RetryEvent) => void;
+};
+
+export const DEFAULT_RETRY_OPTIONS = {
+  maxAttempts: 1,
+  initialDelay: 500,
+  maxDelay: 30_000,
+  backoffFactor: 2,
+  jitter: 0.2,
+  retryableStatusCodes: [408, 429, 500, 502, 503, 504],
+  retryNonIdempotent: false,
+  onRetry: undefined,
+};
+
+/**
+ * The request methods which can safely be sent more than once.
+ */
+const IDEMPOTENT_METHODS = ["get", "head", "options", "put", "delete"];
+
+/**
+ * Runs the given request, retrying it according to the retry policy.
+ *
+ * @param request - The function that makes a single attempt.
+ * @param method - The request method.
+ * @param url - The request URL.
+ * @param [customOptions] - The retry policy.
+ * @param [signal] - Aborts waiting for the next attempt.
+ * @returns - The result of the first successful attempt.
+ * @throws - Will throw the last error if all attempts failed or the error is not retryable.
+ */
+export async function executeWithRetry<T>(
+  request: () => Promise<T>,
+  method: Method,
+  url: string,
+  customOptions?: RetryOptions,
+  signal?: AbortSignal
+): Promise<T> {
+  const opts = { ...DEFAULT_RETRY_OPTIONS, ...customOptions };
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (err) {
+      if (attempt >= opts.maxAttempts || !isRetryable(err, method, opts)) {
+        throw err;
+      }
+
+      // Wait at least as long as the portal asked us to.
+      const delay = Math.max(getRetryDelay(attempt, opts), getRetryAfter(err) ?? 0);
+      if (opts.onRetry) {
+        opts.onRetry({ attempt, delay, error: err, method, url });
+      }
+      await sleep(delay, signal);
+    }
+  }
+}
+
+/**
+ * Gets the delay before the retry following the given attempt.
+ *
+ * @param attempt - The number of the attempt that failed, starting at 1.
+ * @param [customOptions] - The retry policy.
+ * @returns - The delay in ms.
+ */
+export function getRetryDelay(attempt: number, customOptions?: RetryOptions): number {
+  const opts = { ...DEFAULT_RETRY_OPTIONS, ...customOptions };
+
+  const delay = Math.min(opts.maxDelay, opts.initialDelay * Math.pow(opts.backoffFactor, attempt - 1));
+  return Math.round(delay * (1 - opts.jitter * Math.random()));
+}
+
+/**
+ * Gets the delay requested by the portal in the `Retry-After` header of the
+ * error response, either in seconds or as an HTTP date.
+ *
+ * @param err - The error of the failed request.
+ * @returns - The delay in ms, or undefined if the response has no valid `Retry-After` header.
+ */
+export function getRetryAfter(err: unknown): number | undefined {
+  const retryAfter = (err as TransportError)?.response?.headers?.["retry-after"];
+  if (!retryAfter) {
+    return undefined;
+  }
+
+  const seconds = Number(retryAfter);
+  if (!isNaN(seconds)) {
+    return seconds >= 0 ? seconds * 1000 : undefined;
+  }
+  const date = Date.parse(retryAfter);
+  if (isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, date - Date.now());
+}
+
+/**
+ * Returns whether the given error indicates that the portal itself failed, as
+ * opposed to the portal rejecting the request.
+ *
+ * @param err - The error.
+ * @returns - Whether the portal failed.
+ */
+export function isPortalFailure(err: unknown): boolean {
+  const response = (err as TransportError).response;
+  return !response || response.status === 429 || response.status >= 500;
+}
+
+/**
+ * Checks whether the given error may be retried under the retry policy.
+ *
+ * @param err - The error of the failed attempt.
+ * @param method - The request method.
+ * @param opts - The retry policy.
+ * @returns - Whether the request should be retried.
+ */
+function isRetryable(
+  err: unknown,
+  method: Method,
+  opts: Required<Pick<RetryOptions, "retryableStatusCodes" | "retryNonIdempotent">>
+): boolean {
+  if (err instanceof AbortError) {
+    return false;
+  }
+  if (!opts.retryNonIdempotent && !IDEMPOTENT_METHODS.includes(method.toLowerCase())) {
+    return false;
+  }
+
+  const response = (err as TransportError).response;
+  if (!response) {
+    // The request failed without a response, e.g. due to a network error.
+    return true;
+  }
+  return opts.retryableStatusCodes.includes(response.status);
+}
@@ -0,0 +1,183 @@
+import { SkynetClient, DEFAULT_SKYNET_PORTAL_URL } from "./index";
+import { AbortError, ValidationError } from "./errors";
+import { RequestScheduler } from "./scheduler";
+import { TransportRequest, TransportResponse } from "./transport";
+
+const portalUrl = DEFAULT_SKYNET_PORTAL_URL;
+const skylink = "XABvi7JtJbQSMAcDwnUnmp2FKDPjg8_tTTFP4BwMSxVdEg";
+const response = { data: "foo", status: 200, headers: {} };
+
+/**
+ * A transport which holds all requests until they are released.
+ */
+class HoldingTransport {
+  pending: Array<{ request: TransportRequest; release: (response: TransportResponse) => void }> = [];
+
+  send = (request: TransportRequest): Promise<TransportResponse> =>
+    new Promise((resolve) => this.pending.push({ request, release: resolve }));
+
+  release(response: TransportResponse): void {
+    const next = this.pending.shift();
+    next?.release(response);
+  }
+}
+
+/**
+ * Waits until all pending promise callbacks have run.
+ *
+ * @returns - An empty promise.
+ */
+function flushPromises(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe("request scheduler", () => {
+  it("should limit the number of requests in flight", async () => {
+    const transport = new HoldingTransport();
+    const client = new SkynetClient(portalUrl, { transport: transport.send, concurrency: { download: 2 } });
+
+    const promises = [1, 2, 3, 4].map(() => client.getFileContent(skylink));
+    await flushPromises();
+    expect(transport.pending.length).toEqual(2);
+
+    transport.release(response);
+    await flushPromises();
+    expect(transport.pending.length).toEqual(2);
+
+    transport.release(response);
+    transport.release(response);
+    await flushPromises();
+    transport.release(response);
+    await Promise.all(promises);
+  });
+
+  it("should not limit the number of requests by default", async () => {
+    const transport = new HoldingTransport();
+    const client = new SkynetClient(portalUrl, { transport: transport.send });
+
+    const promises = Array.from({ length: 20 }, () => client.getFileContent(skylink));
+    await flushPromises();
+    expect(transport.pending.length).toEqual(20);
+
+    promises.forEach(() => transport.release(response));
+    await Promise.all(promises);
+  });
+
+  it("should limit each request class separately", async () => {
+    const transport = new HoldingTransport();
+    const client = new SkynetClient(portalUrl, { transport: transport.send, concurrency: { download: 1 } });
+
+    void client.getFileContent(skylink);
+    void client.getFileContent(skylink);
+    void client.pinSkylink(skylink);
+    await flushPromises();
+
+    expect(transport.pending.map(({ request }) => request.method).sort()).toEqual(["get", "post"]);
+  });
+
+  it("should send queued requests with higher priorities first", async () => {
+    const transport = new HoldingTransport();
+    const client = new SkynetClient(portalUrl, { transport: transport.send, concurrency: { download: 1 } });
+
+    const promises = [
+      client.getFileContent(skylink, { path: "first" }),
+      client.getFileContent(skylink, { path: "low", priority: -1 }),
+      client.getFileContent(skylink, { path: "normal" }),
+      client.getFileContent(skylink, { path: "high", priority: 1 }),
+    ];
+    const urls: string[] = [];
+    for (let i = 0; i < promises.length; i++) {
+      await flushPromises();
+      urls.push(transport.pending[0].request.url);
+      transport.release(response);
+    }
+    await Promise.all(promises);
+
+    expect(urls.map((url) => url.split("/").pop())).toEqual(["first", "high", "normal", "low"]);
+  });
+
+  describe("with Retry-After headers", () => {
+    const rateLimited = Object.assign(new Error("Request failed with status code 429"), {
+      response: { status: 429, data: "", headers: { "retry-after": "0.05" } },
+    });
+
+    beforeEach(() => {
+      jest.useFakeTimers("modern");
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("should pause a request class for the duration of the header", async () => {
+      const scheduler = new RequestScheduler({ download: 1 });
+      const request = jest.fn(() => Promise.resolve());
+
+      await expect(scheduler.schedule("download", () => Promise.reject(rateLimited))).rejects.toThrowError(
+        rateLimited.message
+      );
+      await scheduler.schedule("registry", () => Promise.resolve());
+      const promise = scheduler.schedule("download", request);
+      jest.advanceTimersByTime(49);
+      expect(request).not.toHaveBeenCalled();
+      jest.advanceTimersByTime(1);
+
+      expect(request).toHaveBeenCalledTimes(1);
+      await promise;
+    });
+
+    it("should resume the request class if the timer fires early", async () => {
+      const scheduler = new RequestScheduler({ download: 1 });
+      const request = jest.fn(() => Promise.resolve());
+
+      await expect(scheduler.schedule("download", () => Promise.reject(rateLimited))).rejects.toThrowError(
+        rateLimited.message
+      );
+      const promise = scheduler.schedule("download", request);
+      // Let the clock lag behind the timer.
+      jest.setSystemTime(Date.now() - 1);
+      jest.advanceTimersByTime(50);
+
+      expect(request).toHaveBeenCalledTimes(1);
+      await promise;
+    });
+  });
+
+  it("should reject queued requests when they are aborted", async () => {
+    const scheduler = new RequestScheduler({ upload: 1 });
+    const controller = new AbortController();
+    let release = () => undefined as void;
+    const first = scheduler.schedule("upload", () => new Promise<void>((resolve) => (release = resolve)));
+    const second = scheduler.schedule("upload", () => Promise.resolve("second"), 0, controller.signal);
+    const third = scheduler.schedule("upload", () => Promise.resolve("third"));
+
+    controller.abort();
+    await expect(second).rejects.toThrowError(AbortError);
+
+    release();
+    await first;
+    await expect(third).resolves.toEqual("third");
+  });
+
+  it("should use the default for limits that are undefined", async () => {
+    const transport = new HoldingTransport();
+    const client = new SkynetClient(portalUrl, {
+      transport: transport.send,
+      concurrency: { upload: undefined, download: 1 },
+    });
+
+    void client.getFileContent(skylink);
+    void client.getFileContent(skylink);
+    void client.pinSkylink(skylink);
+    await flushPromises();
+
+    expect(transport.pending.map(({ request }) => request.method).sort()).toEqual(["get", "post"]);
+  });
+
+  it("should throw if a limit is not a positive number", () => {
+    expect(() => new RequestScheduler({ upload: 0 })).toThrowError(ValidationError);
+    expect(() => new SkynetClient(portalUrl, { concurrency: { download: NaN } })).toThrowError(
+      "Expected concurrency limit 'download' to be a positive number, was 'NaN'"
+    );
+  });
+});
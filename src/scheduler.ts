@@ -0,0 +1,191 @@
+import { AbortError, ValidationError } from "./errors";
+import { getRetryAfter } from "./retry";
+import { onAbort } from "./utils/abort";
+
+/**
+ * The class of a request, which determines the concurrency limit it counts towards.
+ */
+export type RequestClass = "upload" | "download" | "registry";
+
+/**
+ * The maximum number of requests in flight at once for each request class.
+ * Requests over the limit are queued. The number of requests is not limited
+ * by default.
+ *
+ * @property [upload=Infinity] - The limit for uploads and other requests sending data, e.g. pins.
+ * @property [download=Infinity] - The limit for downloads and other requests fetching data.
+ * @property [registry=Infinity] - The limit for registry requests.
+ */
+export type ConcurrencyOptions = {
+  upload?: number;
+  download?: number;
+  registry?: number;
+};
+
+export const DEFAULT_CONCURRENCY_OPTIONS = {
+  upload: Infinity,
+  download: Infinity,
+  registry: Infinity,
+};
+
+/**
+ * A queued request.
+ *
+ * @property priority - The priority of the request. Higher priorities are started first.
+ * @property sequence - The position in which the request was scheduled. Requests with equal priorities are started in this order.
+ * @property start - Starts the request.
+ */
+type QueuedRequest = {
+  priority: number;
+  sequence: number;
+  start: () => void;
+};
+
+/**
+ * Schedules the requests of a client, limiting the number of requests in
+ * flight per request class. Queued requests are started by priority. When the
+ * portal responds with a `Retry-After` header, no new requests of the class
+ * are started until the given time.
+ */
+export class RequestScheduler {
+  protected limits: Record<RequestClass, number>;
+  protected inFlight: Record<RequestClass, number> = { upload: 0, download: 0, registry: 0 };
+  protected queues: Record<RequestClass, QueuedRequest[]> = { upload: [], download: [], registry: [] };
+  // The time until which no new requests of each class are started, in ms since the epoch.
+  protected pausedUntil: Record<RequestClass, number> = { upload: 0, download: 0, registry: 0 };
+  protected resumeTimers: Partial<Record<RequestClass, ReturnType<typeof setTimeout>>> = {};
+  protected sequence = 0;
+
+  /**
+   * Creates a request scheduler.
+   *
+   * @param [customOptions] - The concurrency limits.
+   * @throws - Will throw if a limit is not a positive number.
+   */
+  constructor(customOptions?: ConcurrencyOptions) {
+    this.limits = { ...DEFAULT_CONCURRENCY_OPTIONS };
+    for (const [requestClass, limit] of Object.entries(customOptions ?? {})) {
+      // Limits which are set to undefined keep the default, like omitted limits.
+      if (limit === undefined) {
+        continue;
+      }
+      if (typeof limit !== "number" || !(limit >= 1)) {
+        throw new ValidationError(
+          `Expected concurrency limit '${requestClass}' to be a positive number, was '${limit}'`,
+          requestClass,
+          "option"
+        );
+      }
+      this.limits[requestClass as RequestClass] = limit;
+    }
+  }
+
+  /**
+   * Runs the request once a slot of its class is free.
+   *
+   * @param requestClass - The class of the request.
+   * @param request - The function that sends the request.
+   * @param [priority=0] - The priority of the request. Higher priorities are started first.
+   * @param [signal] - Aborts the request while it is queued.
+   * @returns - The result of the request.
+   */
+  schedule<T>(requestClass: RequestClass, request: () => Promise<T>, priority = 0, signal?: AbortSignal): Promise<T> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new AbortError());
+        return;
+      }
+
+      const queued: QueuedRequest = {
+        priority,
+        sequence: this.sequence++,
+        start: () => {
+          removeAbortListener();
+          this.run(requestClass, request).then(resolve, reject);
+        },
+      };
+      const removeAbortListener = onAbort(signal, () => {
+        const queue = this.queues[requestClass];
+        const index = queue.indexOf(queued);
+        if (index !== -1) {
+          queue.splice(index, 1);
+          reject(new AbortError());
+        }
+      });
+
+      // Insert the request after all requests with the same or a higher priority.
+      const queue = this.queues[requestClass];
+      const index = queue.findIndex((other) => other.priority < priority);
+      queue.splice(index === -1 ? queue.length : index, 0, queued);
+
+      this.dispatch(requestClass);
+    });
+  }
+
+  /**
+   * Stops starting new requests of the given class for the given time.
+   * Requests in flight are not affected.
+   *
+   * @param requestClass - The request class.
+   * @param delay - The time to pause for, in ms.
+   */
+  pause(requestClass: RequestClass, delay: number): void {
+    const until = Date.now() + delay;
+    if (until <= this.pausedUntil[requestClass]) {
+      return;
+    }
+    this.pausedUntil[requestClass] = until;
+
+    const timer = this.resumeTimers[requestClass];
+    if (timer) {
+      clearTimeout(timer);
+    }
+    this.resumeTimers[requestClass] = setTimeout(() => {
+      delete this.resumeTimers[requestClass];
+      // Timers can fire slightly before `Date.now()` reaches the end of the pause.
+      this.pausedUntil[requestClass] = 0;
+      this.dispatch(requestClass);
+    }, delay);
+  }
+
+  /**
+   * Runs the request in a slot of its class and frees the slot afterwards.
+   *
+   * @param requestClass - The class of the request.
+   * @param request - The function that sends the request.
+   * @returns - The result of the request.
+   */
+  protected async run<T>(requestClass: RequestClass, request: () => Promise<T>): Promise<T> {
+    this.inFlight[requestClass]++;
+    try {
+      return await request();
+    } catch (err) {
+      const retryAfter = getRetryAfter(err);
+      if (retryAfter !== undefined) {
+        this.pause(requestClass, retryAfter);
+      }
+      throw err;
+    } finally {
+      this.inFlight[requestClass]--;
+      this.dispatch(requestClass);
+    }
+  }
+
+  /**
+   * Starts queued requests of the given class while there are free slots.
+   *
+   * @param requestClass - The request class.
+   */
+  protected dispatch(requestClass: RequestClass): void {
+    if (this.pausedUntil[requestClass] > Date.now()) {
+      // The resume timer will dispatch the requests.
+      return;
+    }
+
+    const queue = this.queues[requestClass];
+    while (queue.length > 0 && this.inFlight[requestClass] < this.limits[requestClass]) {
+      const queued = queue.shift() as QueuedRequest;
+      queued.start();
+    }
+  }
+}
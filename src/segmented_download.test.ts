@@ -0,0 +1,256 @@
+import { SkynetClient } from "./index";
+import { TransportRequest, TransportResponse } from "./transport";
+
+const portalUrl = "https://siasky.net";
+const skylink = "XABvi7JtJbQSMAcDwnUnmp2FKDPjg8_tTTFP4BwMSxVdEg";
+const file = Uint8Array.from({ length: 10 }, (_, i) => i);
+
+/**
+ * Creates a transport which serves the range requests for the file.
+ *
+ * @param requests - Receives the URL and the range of every request.
+ * @param [fail] - Returns the status code to fail the request with, if any.
+ * @returns - The transport.
+ */
+function createTransport(
+  requests: string[][],
+  fail?: (url: string, range: string) => number | undefined
+): (request: TransportRequest) => Promise<TransportResponse> {
+  return async (request) => {
+    const range = request.headers.Range;
+    requests.push([request.url, range]);
+
+    const headers = { "content-type": "application/octet-stream", "skynet-skylink": skylink };
+    const status = fail?.(request.url, range);
+    if (status) {
+      throw Object.assign(new Error(`Request failed with status code ${status}`), {
+        response: { status, data: "", headers: {} },
+      });
+    }
+
+    const [, start, end] = (range.match(/^bytes=(\d+)-(\d+)$/) as string[]).map(Number);
+    const last = Math.min(end, file.length - 1);
+    const data = file.slice(start, last + 1);
+    request.onDownloadProgress?.({ loaded: data.length, total: data.length } as ProgressEvent);
+    return {
+      data: data.buffer,
+      status: 206,
+      headers: { ...headers, "content-range": `bytes ${start}-${last}/${file.length}` },
+    };
+  };
+}
+
+describe("segmented downloads", () => {
+  let requests: string[][];
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  it("should fetch the segments and reassemble them in order", async () => {
+    const client = new SkynetClient(portalUrl, { transport: createTransport(requests) });
+    const onDownloadProgress = jest.fn();
+
+    const {
+      data,
+      contentType,
+      skylink: returnedSkylink,
+    } = await client.getFileContent<ArrayBuffer>(skylink, {
+      segmented: { segmentSize: 4 },
+      responseType: "arraybuffer",
+      onDownloadProgress,
+    });
+
+    expect(Array.from(new Uint8Array(data))).toEqual(Array.from(file));
+    expect(contentType).toEqual("application/octet-stream");
+    expect(returnedSkylink).toEqual(`sia://${skylink}`);
+    expect(requests.map(([, range]) => range)).toEqual(["bytes=0-3", "bytes=4-7", "bytes=8-9"]);
+    const progress = onDownloadProgress.mock.calls.map(([progress]) => progress);
+    expect(progress).toEqual([...progress].sort());
+    expect(progress[progress.length - 1]).toEqual(1);
+    expect(onDownloadProgress.mock.calls[progress.length - 1][1]).toMatchObject({ loaded: 10, total: 10 });
+  });
+
+  it("should limit the number of segments in flight", async () => {
+    const transport = createTransport(requests);
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const client = new SkynetClient(portalUrl, {
+      transport: async (request) => {
+        maxInFlight = Math.max(maxInFlight, ++inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        inFlight--;
+        return transport(request);
+      },
+    });
+
+    const { data } = await client.getFileContent<ArrayBuffer>(skylink, {
+      segmented: { segmentSize: 1, concurrency: 2 },
+      responseType: "arraybuffer",
+    });
+
+    expect(new Uint8Array(data)).toEqual(file);
+    expect(requests.length).toEqual(10);
+    expect(maxInFlight).toEqual(2);
+  });
+
+  it("should retry failed segments individually", async () => {
+    let failures = 0;
+    const fail = (_: string, range: string) => (range === "bytes=4-7" && failures++ < 2 ? 503 : undefined);
+    const client = new SkynetClient(portalUrl, {
+      transport: createTransport(requests, fail),
+      retry: { initialDelay: 0 },
+    });
+
+    const { data } = await client.getFileContent<Blob>(skylink, {
+      segmented: { segmentSize: 4 },
+      responseType: "arraybuffer",
+    });
+
+    expect(Array.from(new Uint8Array(data as unknown as ArrayBuffer))).toEqual(Array.from(file));
+    expect(requests.map(([, range]) => range)).toEqual([
+      "bytes=0-3",
+      "bytes=4-7",
+      "bytes=8-9",
+      "bytes=4-7",
+      "bytes=4-7",
+    ]);
+  });
+
+  it("should spread the segments over the portals of the pool", async () => {
+    const portals = [portalUrl, "https://siasky.dev", "https://example.com"];
+    const fail = (url: string, range: string) =>
+      url.startsWith("https://example.com") && range === "bytes=8-9" ? 502 : undefined;
+    const client = new SkynetClient(portals, {
+      transport: createTransport(requests, fail),
+      retry: { initialDelay: 0 },
+    });
+
+    await client.getFileContent(skylink, { segmented: { segmentSize: 4 } });
+
+    expect(requests.slice(0, 3)).toEqual([
+      [`${portalUrl}/${skylink}`, "bytes=0-3"],
+      [`https://siasky.dev/${skylink}`, "bytes=4-7"],
+      [`https://example.com/${skylink}`, "bytes=8-9"],
+    ]);
+    // The failed segment is retried on another portal.
+    expect(requests.length).toEqual(4);
+    expect(requests[3][0]).not.toEqual(`https://example.com/${skylink}`);
+    expect(requests[3][1]).toEqual("bytes=8-9");
+  });
+
+  it("should retry segments of another file on another portal", async () => {
+    const portals = [portalUrl, "https://siasky.dev", "https://example.com"];
+    const otherSkylink = "AABvi7JtJbQSMAcDwnUnmp2FKDPjg8_tTTFP4BwMSxVdEg";
+    const serve = createTransport(requests);
+    // The last portal is behind on the registry and serves another revision.
+    const transport = async (request: TransportRequest): Promise<TransportResponse> => {
+      const response = await serve(request);
+      if (request.url.startsWith("https://example.com")) {
+        return { ...response, headers: { ...response.headers, "skynet-skylink": otherSkylink } };
+      }
+      return response;
+    };
+    const client = new SkynetClient(portals, { transport, retry: { initialDelay: 0 } });
+
+    const { data } = await client.getFileContent<ArrayBuffer>(skylink, {
+      segmented: { segmentSize: 4 },
+      responseType: "arraybuffer",
+    });
+
+    expect(Array.from(new Uint8Array(data))).toEqual(Array.from(file));
+    expect(requests.length).toEqual(4);
+    expect(requests[3][0]).not.toEqual(`https://example.com/${skylink}`);
+    expect(requests[3][1]).toEqual("bytes=8-9");
+
+    // Fail if no portal serves the same file.
+    const otherClient = new SkynetClient(portalUrl, {
+      transport: async (request) => {
+        const response = await serve(request);
+        if (request.headers.Range === "bytes=0-3") {
+          return response;
+        }
+        return { ...response, headers: { ...response.headers, "content-range": "bytes 4-7/12" } };
+      },
+      retry: { initialDelay: 0 },
+    });
+    await expect(otherClient.getFileContent(skylink, { segmented: { segmentSize: 4 } })).rejects.toThrowError(
+      `Expected segment 'bytes 4-7' of '${skylink}' with 10 bytes, got '${skylink}' with 12 bytes`
+    );
+  });
+
+  it("should return an empty file", async () => {
+    const client = new SkynetClient(portalUrl, {
+      transport: async (request) => {
+        requests.push([request.url, request.headers.Range]);
+        throw Object.assign(new Error("Request failed with status code 416"), {
+          response: {
+            status: 416,
+            data: "",
+            headers: { "content-type": "text/plain", "content-range": "bytes */0", "skynet-skylink": skylink },
+          },
+        });
+      },
+    });
+
+    const { data, contentType, skylink: returnedSkylink } = await client.getFileContent(skylink, { segmented: true });
+
+    expect(data).toEqual("");
+    expect(contentType).toEqual("text/plain");
+    expect(returnedSkylink).toEqual(`sia://${skylink}`);
+    expect(requests.length).toEqual(1);
+  });
+
+  it("should fail after the maximum number of attempts", async () => {
+    const fail = (_: string, range: string) => (range === "bytes=8-9" ? 503 : undefined);
+    const client = new SkynetClient(portalUrl, {
+      transport: createTransport(requests, fail),
+      retry: { initialDelay: 0 },
+    });
+
+    await expect(
+      client.getFileContent(skylink, { segmented: { segmentSize: 4, maxAttempts: 2 } })
+    ).rejects.toMatchObject({ status: 503 });
+    expect(requests.filter(([, range]) => range === "bytes=8-9").length).toEqual(2);
+  });
+
+  it("should not retry segments that the portal rejected", async () => {
+    const client = new SkynetClient(portalUrl, { transport: createTransport(requests, () => 404) });
+
+    await expect(client.getFileContent(skylink, { segmented: true })).rejects.toMatchObject({ status: 404 });
+    expect(requests.length).toEqual(1);
+  });
+
+  it("should return the file if the portal ignores the range", async () => {
+    const transport = async (request: TransportRequest): Promise<TransportResponse> => {
+      requests.push([request.url, request.headers.Range]);
+      return { data: Buffer.from('{"foo":"bar"}'), status: 200, headers: { "content-type": "application/json" } };
+    };
+    const client = new SkynetClient(portalUrl, { transport });
+
+    const { data, contentType } = await client.getFileContent(skylink, { segmented: { segmentSize: 4 } });
+
+    expect(data).toEqual({ foo: "bar" });
+    expect(contentType).toEqual("application/json");
+    expect(requests.length).toEqual(1);
+  });
+
+  it("should send a single request if a range is set", async () => {
+    const client = new SkynetClient(portalUrl, { transport: createTransport(requests) });
+
+    await client.getFileContent(skylink, { segmented: true, range: "bytes=2-5" });
+
+    expect(requests.map(([, range]) => range)).toEqual(["bytes=2-5"]);
+  });
+
+  it.each([
+    [{ segmentSize: 0 }, "Expected option 'segmentSize' to be a positive integer, was '0'"],
+    [{ maxAttempts: 1.5 }, "Expected option 'maxAttempts' to be a positive integer, was '1.5'"],
+    [{ concurrency: 0 }, "Expected option 'concurrency' to be a positive integer, was '0'"],
+  ])("should throw for invalid options %s", async (segmented, message) => {
+    const client = new SkynetClient(portalUrl, { transport: createTransport(requests) });
+
+    await expect(client.getFileContent(skylink, { segmented })).rejects.toThrowError(message);
+    expect(requests.length).toEqual(0);
+  });
+});
@@ -0,0 +1,376 @@
+import type { ResponseType } from "axios";
+
+import { SkynetClient } from "./client";
+import {
+  CustomDownloadOptions,
+  DEFAULT_DOWNLOAD_OPTIONS,
+  getResolutionProof,
+  GetFileContentResponse,
+} from "./download";
+import { AbortError, ContentVerificationError, PortalResponseError, ValidationError } from "./errors";
+import { getRetryDelay, isPortalFailure } from "./retry";
+import { formatSkylink } from "./skylink/format";
+import { TransportResponse } from "./transport";
+import { createLinkedAbortController, sleep } from "./utils/abort";
+import { toUint8Array } from "./utils/stream";
+import { uint8ArrayToStringUtf8 } from "./utils/string";
+import { replacePortalInUrl } from "./utils/url";
+
+/**
+ * Options for segmented downloads, which split the file into byte ranges that
+ * are fetched in parallel. The segments also count towards the `download`
+ * concurrency limit of the client.
+ *
+ * @property [segmentSize=8 MiB] - The size of each segment in bytes.
+ * @property [maxAttempts=3] - The maximum number of attempts per segment. With a portal pool, every attempt is sent to the next portal.
+ * @property [concurrency=8] - The maximum number of segments in flight at once.
+ */
+export type SegmentedDownloadOptions = {
+  segmentSize?: number;
+  maxAttempts?: number;
+  concurrency?: number;
+};
+
+export const DEFAULT_SEGMENTED_DOWNLOAD_OPTIONS = {
+  segmentSize: 8 * (1 << 20),
+  maxAttempts: 3,
+  concurrency: 8,
+};
+
+/**
+ * A byte range of the file.
+ *
+ * @property index - The position of the segment in the file.
+ * @property start - The first byte of the segment.
+ * @property end - The last byte of the segment, inclusive.
+ */
+type Segment = {
+  index: number;
+  start: number;
+  end: number;
+};
+
+/**
+ * The range returned in the `Content-Range` header of a range response.
+ *
+ * @property start - The first returned byte.
+ * @property end - The last returned byte, inclusive.
+ * @property total - The size of the file in bytes.
+ */
+type ContentRange = {
+  start: number;
+  end: number;
+  total: number;
+};
+
+/**
+ * The file which all segments must belong to, as returned for the first
+ * segment. Portals which are behind on the registry may serve another revision
+ * of a v2 skylink.
+ *
+ * @property [skylink] - The `skynet-skylink` header of the first segment.
+ * @property total - The size of the file in bytes.
+ */
+type SegmentedFile = {
+  skylink?: string;
+  total: number;
+};
+
+/**
+ * Downloads the file at the given URL in segments using range requests. The
+ * first segment is fetched on its own to find out the size of the file, the
+ * remaining segments are fetched in parallel, at most `concurrency` at once.
+ * Failed segments are retried individually, as are segments of another file
+ * than the first segment.
+ *
+ * @param this - SkynetClient
+ * @param url - The URL of the file.
+ * @param opts - The download options. `opts.segmented` must be set.
+ * @returns - An object containing the data of the file, the content-type and the file's skylink.
+ * @throws - Will throw if a segment failed after all attempts or the response type is not supported.
+ */
+export async function getFileContentSegmented<T = unknown>(
+  this: SkynetClient,
+  url: string,
+  opts: CustomDownloadOptions & Pick<typeof DEFAULT_DOWNLOAD_OPTIONS, "endpointDownload">
+): Promise<GetFileContentResponse<T>> {
+  const segmentOpts = {
+    ...DEFAULT_SEGMENTED_DOWNLOAD_OPTIONS,
+    ...(typeof opts.segmented === "object" ? opts.segmented : undefined),
+  };
+  validateSegmentedDownloadOptions(segmentOpts);
+  if (opts.responseType === "stream" || opts.responseType === "document") {
+    throw new ValidationError(
+      `Response type '${opts.responseType}' is not supported by segmented downloads`,
+      "responseType",
+      "option"
+    );
+  }
+
+  // The number of bytes received per segment, for the aggregated progress.
+  const loaded: number[] = [];
+  let total = 0;
+  const reportProgress = () => {
+    if (!opts.onDownloadProgress || !total) {
+      return;
+    }
+    const loadedTotal = loaded.reduce((sum, segmentLoaded) => sum + segmentLoaded, 0);
+    const event = { lengthComputable: true, loaded: loadedTotal, total } as ProgressEvent;
+    opts.onDownloadProgress(loadedTotal / total, event);
+  };
+
+  // Spread the segments over the portals, ordered by their health when the download starts. Segments on the first
+  // portal are routed like any other read.
+  const getSegmentUrl = (n: number) => {
+    const pool = this.portalPool;
+    if (!pool) {
+      return url;
+    }
+    return replacePortalInUrl(url, pool.getWritePortal(), portals[n % portals.length]) ?? url;
+  };
+  const portals = this.portalPool?.getReadPortals() ?? [];
+
+  // Abort the other segments if one of them fails.
+  const [controller, unlinkController] = createLinkedAbortController(opts.signal);
+  const fetchSegment = async (segment: Segment, file?: SegmentedFile): Promise<[Uint8Array, TransportResponse]> => {
+    try {
+      return await fetchSegmentWithRetry.call(
+        this,
+        getSegmentUrl,
+        segment,
+        file,
+        opts,
+        segmentOpts,
+        controller.signal,
+        (bytes) => {
+          loaded[segment.index] = bytes;
+          reportProgress();
+        }
+      );
+    } catch (err) {
+      controller.abort();
+      throw err;
+    }
+  };
+
+  let data: Uint8Array;
+  let response: TransportResponse;
+  try {
+    // The first segment tells us the size of the file.
+    const [firstSegment, firstResponse] = await fetchSegment({
+      index: 0,
+      start: 0,
+      end: segmentOpts.segmentSize - 1,
+    }).catch((err) => {
+      // Empty files don't have a first byte to request.
+      if (
+        err instanceof PortalResponseError &&
+        err.status === 416 &&
+        /\/0$/.test(err.response.headers?.["content-range"])
+      ) {
+        return [new Uint8Array(), err.response] as [Uint8Array, TransportResponse];
+      }
+      throw err;
+    });
+    response = firstResponse;
+
+    if (response.status !== 206) {
+      // The portal ignored the range and returned the whole file.
+      data = firstSegment;
+    } else {
+      total = parseContentRange(response).total;
+      reportProgress();
+      const file = { skylink: response.headers["skynet-skylink"], total };
+
+      const segments: Segment[] = [];
+      for (let start = segmentOpts.segmentSize; start < total; start += segmentOpts.segmentSize) {
+        const end = Math.min(start + segmentOpts.segmentSize, total) - 1;
+        segments.push({ index: segments.length + 1, start, end });
+      }
+      // Reassemble the segments in order.
+      data = new Uint8Array(total);
+      data.set(firstSegment, 0);
+      let next = 0;
+      const fetchNext = async (): Promise<void> => {
+        while (next < segments.length) {
+          const segment = segments[next++];
+          const [segmentData] = await fetchSegment(segment, file);
+          data.set(segmentData, segment.start);
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(segmentOpts.concurrency, segments.length) }, fetchNext));
+    }
+  } finally {
+    unlinkController();
+  }
+
+  const contentType = response.headers["content-type"] ?? "";
+  const portalUrl = response.headers["skynet-portal-api"] ?? "";
+  const skylink = response.headers["skynet-skylink"] ? formatSkylink(response.headers["skynet-skylink"]) : "";
+  const proof = getResolutionProof(url, response.headers, opts.requireProof ?? false);
+
+  return {
+    data: convertResponseData(data, contentType, opts.responseType) as T,
+    contentType,
+    portalUrl,
+    skylink,
+    proof,
+  };
+}
+
+/**
+ * Fetches a single segment. Every retry is sent to the next URL.
+ *
+ * @param this - SkynetClient
+ * @param getUrl - Returns the URL of the file for the given segment index plus the number of failed attempts.
+ * @param segment - The segment to fetch.
+ * @param file - The file which the segment must belong to. Undefined for the first segment.
+ * @param opts - The download options.
+ * @param segmentOpts - The segmented download options.
+ * @param signal - Aborts the request.
+ * @param onProgress - Called with the number of bytes received for the segment.
+ * @returns - The data of the segment and the response.
+ * @throws - Will throw the last error if all attempts failed or the error is not retryable.
+ */
+async function fetchSegmentWithRetry(
+  this: SkynetClient,
+  getUrl: (n: number) => string,
+  segment: Segment,
+  file: SegmentedFile | undefined,
+  opts: CustomDownloadOptions & Pick<typeof DEFAULT_DOWNLOAD_OPTIONS, "endpointDownload">,
+  segmentOpts: Required<SegmentedDownloadOptions>,
+  signal: AbortSignal,
+  onProgress: (bytes: number) => void
+): Promise<[Uint8Array, TransportResponse]> {
+  for (let attempt = 1; ; attempt++) {
+    onProgress(0);
+    try {
+      const response = await this.executeRequest({
+        ...opts,
+        endpointPath: opts.endpointDownload,
+        method: "get",
+        url: getUrl(segment.index + attempt - 1),
+        headers: { Range: `bytes=${segment.start}-${segment.end}` },
+        responseType: "arraybuffer",
+        signal,
+        onDownloadProgress: (_, event) => onProgress(event.loaded),
+      });
+
+      const data = toUint8Array(response.data);
+      if (response.status === 206) {
+        validateSegmentResponse(segment, data, response, file);
+      } else if (file) {
+        throw new ContentVerificationError(
+          `Expected a range response for segment 'bytes ${segment.start}-${segment.end}', got status ${response.status}`,
+          file.skylink
+        );
+      }
+      onProgress(data.length);
+      return [data, response];
+    } catch (err) {
+      // Segments of another file may be served correctly by the next portal.
+      const retryable = isPortalFailure(err) || err instanceof ContentVerificationError;
+      if (err instanceof AbortError || attempt >= segmentOpts.maxAttempts || !retryable) {
+        throw err;
+      }
+      await sleep(getRetryDelay(attempt, opts.retry), signal);
+    }
+  }
+}
+
+/**
+ * Parses the `Content-Range` header of a range response.
+ *
+ * @param response - The range response.
+ * @returns - The returned range and the size of the file in bytes.
+ * @throws - Will throw if the header is missing or does not contain the size.
+ */
+function parseContentRange(response: TransportResponse): ContentRange {
+  const contentRange = response.headers["content-range"];
+  const match = contentRange?.match(/^bytes (\d+)-(\d+)\/(\d+)$/);
+  if (!match) {
+    throw new ValidationError(
+      `Expected response header 'content-range' to contain the returned range and the file size, was '${contentRange}'`,
+      "content-range",
+      "response header"
+    );
+  }
+  return { start: Number(match[1]), end: Number(match[2]), total: Number(match[3]) };
+}
+
+/**
+ * Checks that the portal returned the requested segment of the same file as
+ * the first segment. The last segment may end before the requested end.
+ *
+ * @param segment - The requested segment.
+ * @param data - The returned data.
+ * @param response - The range response.
+ * @param [file] - The file which the segment must belong to.
+ * @throws - Will throw if the portal returned a different range or the data does not match the range.
+ * @throws - Will throw a `ContentVerificationError` if the segment belongs to another file.
+ */
+function validateSegmentResponse(
+  segment: Segment,
+  data: Uint8Array,
+  response: TransportResponse,
+  file?: SegmentedFile
+): void {
+  const { start, end, total } = parseContentRange(response);
+  const skylink = response.headers["skynet-skylink"];
+  if (file && (skylink !== file.skylink || total !== file.total)) {
+    throw new ContentVerificationError(
+      `Expected segment 'bytes ${segment.start}-${segment.end}' of '${file.skylink}' with ${file.total} bytes, got '${skylink}' with ${total} bytes`,
+      file.skylink
+    );
+  }
+  if (start !== segment.start || end !== Math.min(segment.end, total - 1) || data.length !== end - start + 1) {
+    throw new ValidationError(
+      `Expected segment 'bytes ${segment.start}-${segment.end}', got ${data.length} bytes for 'bytes ${start}-${end}/${total}'`,
+      "response.data",
+      "response field"
+    );
+  }
+}
+
+/**
+ * Converts the reassembled bytes to the requested response type, the same way
+ * the transports do.
+ *
+ * @param data - The bytes of the file.
+ * @param contentType - The content type of the file.
+ * @param [responseType] - The requested response type.
+ * @returns - The converted data.
+ */
+export function convertResponseData(data: Uint8Array, contentType: string, responseType?: ResponseType): unknown {
+  if (responseType === "arraybuffer") {
+    return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength);
+  }
+  if (responseType === "blob") {
+    return new Blob([data], { type: contentType });
+  }
+
+  const text = uint8ArrayToStringUtf8(data);
+  if (responseType === "text") {
+    return text;
+  }
+  // Like the transports, try to parse JSON and fall back to the text.
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Validates the segmented download options.
+ *
+ * @param opts - The segmented download options.
+ * @throws - Will throw if the segment size or the maximum number of attempts is not a positive integer.
+ */
+function validateSegmentedDownloadOptions(opts: Required<SegmentedDownloadOptions>): void {
+  for (const [name, value] of Object.entries(opts)) {
+    if (!Number.isInteger(value) || value < 1) {
+      throw new ValidationError(`Expected option '${name}' to be a positive integer, was '${value}'`, name, "option");
+    }
+  }
+}
@@ -7,6 +7,7 @@ import { DEFAULT_SKYNET_PORTAL_URL, URI_SKYNET_PREFIX } from "./utils/url";
 import { SkynetClient, genKeyPairFromSeed } from "./index";
 import { getEntryUrlForPortal, REGEX_REVISION_NO_QUOTES } from "./registry";
 import { checkCachedDataLink } from "./skydb";
+import { RevisionConflictError } from "./errors";
 
 const { publicKey, privateKey } = genKeyPairFromSeed("insecure test seed");
 const dataKey = "app";
@@ -207,6 +208,7 @@ describe("setJSON", () => {
     await expect(client.db.setJSON(privateKey, dataKey, entryData)).rejects.toThrowError(
       "Current entry already has maximum allowed revision, could not update the entry"
     );
+    await expect(client.db.setJSON(privateKey, dataKey, entryData)).rejects.toThrowError(RevisionConflictError);
   });
 
   it("Should throw an error if the private key is not hex-encoded", async () => {
@@ -2,6 +2,7 @@ import { sign } from "tweetnacl";
 
 import { SkynetClient } from "./client";
 import { DEFAULT_DOWNLOAD_OPTIONS, CustomDownloadOptions } from "./download";
+import { RevisionConflictError, ValidationError } from "./errors";
 import {
   DEFAULT_GET_ENTRY_OPTIONS,
   DEFAULT_SET_ENTRY_OPTIONS,
@@ -22,6 +23,8 @@ import {
 } from "./utils/string";
 import { formatSkylink } from "./skylink/format";
 import { DEFAULT_UPLOAD_OPTIONS, CustomUploadOptions, UploadRequestResponse } from "./upload";
+import { traceOperation } from "./tracing";
+import { createLinkedAbortController } from "./utils/abort";
 import { areEqualUint8Arrays } from "./utils/array";
 import { decodeSkylinkBase64, encodeSkylinkBase64 } from "./utils/encoding";
 import { DEFAULT_BASE_OPTIONS, extractOptions } from "./utils/options";
@@ -143,7 +146,7 @@ export async function getJSON(
   const { data } = await this.getFileContent<JsonData>(dataLink, downloadOpts);
 
   if (typeof data !== "object" || data === null) {
-    throw new Error(`File data for the entry at data key '${dataKey}' is not JSON.`);
+    throw new ValidationError(`File data for the entry at data key '${dataKey}' is not JSON.`, "data", "file data");
   }
 
   if (!(data["_data"] && data["_v"])) {
@@ -153,7 +156,11 @@ export async function getJSON(
 
   const actualData = data["_data"];
   if (typeof actualData !== "object" || data === null) {
-    throw new Error(`File data '_data' for the entry at data key '${dataKey}' is not JSON.`);
+    throw new ValidationError(
+      `File data '_data' for the entry at data key '${dataKey}' is not JSON.`,
+      "data._data",
+      "file data"
+    );
   }
   return { data: actualData as JsonData, dataLink };
 }
@@ -187,15 +194,19 @@ export async function setJSON(
     ...customOptions,
   };
 
-  const { publicKey: publicKeyArray } = sign.keyPair.fromSecretKey(hexToUint8Array(privateKey));
+  return traceOperation(opts, "db.setJSON", { "skynet.data_key": dataKey }, async (parentSpan) => {
+    opts.parentSpan = parentSpan;
 
-  const [entry, dataLink] = await getOrCreateRegistryEntry(this, toHexString(publicKeyArray), dataKey, json, opts);
+    const { publicKey: publicKeyArray } = sign.keyPair.fromSecretKey(hexToUint8Array(privateKey));
 
-  // Update the registry.
-  const setEntryOpts = extractOptions(opts, DEFAULT_SET_ENTRY_OPTIONS);
-  await this.registry.setEntry(privateKey, entry, setEntryOpts);
+    const [entry, dataLink] = await getOrCreateRegistryEntry(this, toHexString(publicKeyArray), dataKey, json, opts);
+
+    // Update the registry.
+    const setEntryOpts = extractOptions(opts, DEFAULT_SET_ENTRY_OPTIONS);
+    await this.registry.setEntry(privateKey, entry, setEntryOpts);
 
-  return { data: json, dataLink: formatSkylink(dataLink) };
+    return { data: json, dataLink: formatSkylink(dataLink) };
+  });
 }
 
 /**
@@ -247,6 +258,7 @@ export async function deleteJSON(
  * @param dataKey - The data key.
  * @param dataLink - The data link to set at the entry.
  * @param [customOptions] - Additional settings that can optionally be set.
+ * @returns - An empty promise.
  * @throws - Will throw if the input keys are not valid strings.
  */
 export async function setDataLink(
@@ -267,20 +279,24 @@ export async function setDataLink(
     ...customOptions,
   };
 
-  const { publicKey: publicKeyArray } = sign.keyPair.fromSecretKey(hexToUint8Array(privateKey));
+  return traceOperation(opts, "db.setDataLink", { "skynet.data_key": dataKey }, async (parentSpan) => {
+    opts.parentSpan = parentSpan;
 
-  const getEntryOpts = extractOptions(opts, DEFAULT_GET_ENTRY_OPTIONS);
-  const entry = await getNextRegistryEntry(
-    this,
-    toHexString(publicKeyArray),
-    dataKey,
-    decodeSkylink(dataLink),
-    getEntryOpts
-  );
+    const { publicKey: publicKeyArray } = sign.keyPair.fromSecretKey(hexToUint8Array(privateKey));
 
-  // Update the registry.
-  const setEntryOpts = extractOptions(opts, DEFAULT_SET_ENTRY_OPTIONS);
-  await this.registry.setEntry(privateKey, entry, setEntryOpts);
+    const getEntryOpts = extractOptions(opts, DEFAULT_GET_ENTRY_OPTIONS);
+    const entry = await getNextRegistryEntry(
+      this,
+      toHexString(publicKeyArray),
+      dataKey,
+      decodeSkylink(dataLink),
+      getEntryOpts
+    );
+
+    // Update the registry.
+    const setEntryOpts = extractOptions(opts, DEFAULT_SET_ENTRY_OPTIONS);
+    await this.registry.setEntry(privateKey, entry, setEntryOpts);
+  });
 }
 
 // =========
@@ -366,41 +382,62 @@ export async function getOrCreateRawBytesRegistryEntry(
     ...customOptions,
   };
 
-  // Create the data to upload to acquire its skylink.
-  let dataKeyHex = dataKey;
-  if (!opts.hashedDataKeyHex) {
-    dataKeyHex = toHexString(stringToUint8ArrayUtf8(dataKey));
-  }
-  const file = new File([data], `dk:${dataKeyHex}`, { type: "application/octet-stream" });
-
-  // Start file upload, do not block.
-  const uploadOpts = extractOptions(opts, DEFAULT_UPLOAD_OPTIONS);
-  const skyfilePromise: Promise<UploadRequestResponse> = client.uploadFile(file, uploadOpts);
-
-  // Fetch the current value to find out the revision.
-  //
-  // Start getEntry, do not block.
-  const getEntryOpts = extractOptions(opts, DEFAULT_GET_ENTRY_OPTIONS);
-  const entryPromise: Promise<SignedRegistryEntry> = client.registry.getEntry(publicKey, dataKey, getEntryOpts);
-
-  // Block until both getEntry and uploadFile are finished.
-  const [signedEntry, skyfile] = await Promise.all<SignedRegistryEntry, UploadRequestResponse>([
-    entryPromise,
-    skyfilePromise,
-  ]);
-
-  const revision = getNextRevisionFromEntry(signedEntry.entry);
-
-  // Build the registry entry.
-  const dataLink = trimUriPrefix(skyfile.skylink, URI_SKYNET_PREFIX);
-  const rawDataLink = decodeSkylinkBase64(dataLink);
-  validateUint8ArrayLen("rawDataLink", rawDataLink, "skylink byte array", RAW_SKYLINK_SIZE);
-  const entry: RegistryEntry = {
-    dataKey,
-    data: rawDataLink,
-    revision,
-  };
-  return entry;
+  return traceOperation(opts, "db.getOrCreateRawBytesEntry", { "skynet.data_key": dataKey }, async (parentSpan) => {
+    opts.parentSpan = parentSpan;
+
+    // Name the uploaded data after the data key.
+    let dataKeyHex = dataKey;
+    if (!opts.hashedDataKeyHex) {
+      dataKeyHex = toHexString(stringToUint8ArrayUtf8(dataKey));
+    }
+
+    // Abort the other request if one of them fails.
+    const [controller, unlinkController] = createLinkedAbortController(opts.signal);
+    const abortOnError = (err: unknown) => {
+      controller.abort();
+      throw err;
+    };
+
+    // Start file upload, do not block.
+    const uploadOpts = { ...extractOptions(opts, DEFAULT_UPLOAD_OPTIONS), signal: controller.signal };
+    const skyfilePromise: Promise<UploadRequestResponse> = client
+      .uploadData(data, `dk:${dataKeyHex}`, { ...uploadOpts, contentType: "application/octet-stream" })
+      .catch(abortOnError);
+
+    // Fetch the current value to find out the revision.
+    //
+    // Start getEntry, do not block.
+    const getEntryOpts = { ...extractOptions(opts, DEFAULT_GET_ENTRY_OPTIONS), signal: controller.signal };
+    const entryPromise: Promise<SignedRegistryEntry> = client.registry
+      .getEntry(publicKey, dataKey, getEntryOpts)
+      .catch(abortOnError);
+
+    // Block until both getEntry and uploadData are finished. Rejects with the first error, not the abort error of the
+    // other request.
+    let signedEntry: SignedRegistryEntry;
+    let skyfile: UploadRequestResponse;
+    try {
+      [signedEntry, skyfile] = await Promise.all<SignedRegistryEntry, UploadRequestResponse>([
+        entryPromise,
+        skyfilePromise,
+      ]);
+    } finally {
+      unlinkController();
+    }
+
+    const revision = getNextRevisionFromEntry(signedEntry.entry);
+
+    // Build the registry entry.
+    const dataLink = trimUriPrefix(skyfile.skylink, URI_SKYNET_PREFIX);
+    const rawDataLink = decodeSkylinkBase64(dataLink);
+    validateUint8ArrayLen("rawDataLink", rawDataLink, "skylink byte array", RAW_SKYLINK_SIZE);
+    const entry: RegistryEntry = {
+      dataKey,
+      data: rawDataLink,
+      revision,
+    };
+    return entry;
+  });
 }
 
 // =======
@@ -474,44 +511,65 @@ export async function getOrCreateRegistryEntry(
     ...customOptions,
   };
 
-  // Set the hidden _data and _v fields.
-  const fullData: JsonFullData = { _data: json, _v: JSON_RESPONSE_VERSION };
-
-  // Create the data to upload to acquire its skylink.
-  let dataKeyHex = dataKey;
-  if (!opts.hashedDataKeyHex) {
-    dataKeyHex = toHexString(stringToUint8ArrayUtf8(dataKey));
-  }
-  const file = new File([JSON.stringify(fullData)], `dk:${dataKeyHex}`, { type: "application/json" });
-
-  // Start file upload, do not block.
-  const uploadOpts = extractOptions(opts, DEFAULT_UPLOAD_OPTIONS);
-  const skyfilePromise: Promise<UploadRequestResponse> = client.uploadFile(file, uploadOpts);
-
-  // Fetch the current value to find out the revision.
-  //
-  // Start getEntry, do not block.
-  const getEntryOpts = extractOptions(opts, DEFAULT_GET_ENTRY_OPTIONS);
-  const entryPromise: Promise<SignedRegistryEntry> = client.registry.getEntry(publicKey, dataKey, getEntryOpts);
-
-  // Block until both getEntry and uploadFile are finished.
-  const [signedEntry, skyfile] = await Promise.all<SignedRegistryEntry, UploadRequestResponse>([
-    entryPromise,
-    skyfilePromise,
-  ]);
-
-  const revision = getNextRevisionFromEntry(signedEntry.entry);
-
-  // Build the registry entry.
-  const dataLink = trimUriPrefix(skyfile.skylink, URI_SKYNET_PREFIX);
-  const data = decodeSkylinkBase64(dataLink);
-  validateUint8ArrayLen("data", data, "skylink byte array", RAW_SKYLINK_SIZE);
-  const entry: RegistryEntry = {
-    dataKey,
-    data,
-    revision,
-  };
-  return [entry, formatSkylink(dataLink)];
+  return traceOperation(opts, "db.getOrCreateEntry", { "skynet.data_key": dataKey }, async (parentSpan) => {
+    opts.parentSpan = parentSpan;
+
+    // Set the hidden _data and _v fields.
+    const fullData: JsonFullData = { _data: json, _v: JSON_RESPONSE_VERSION };
+
+    // Name the uploaded data after the data key.
+    let dataKeyHex = dataKey;
+    if (!opts.hashedDataKeyHex) {
+      dataKeyHex = toHexString(stringToUint8ArrayUtf8(dataKey));
+    }
+
+    // Abort the other request if one of them fails.
+    const [controller, unlinkController] = createLinkedAbortController(opts.signal);
+    const abortOnError = (err: unknown) => {
+      controller.abort();
+      throw err;
+    };
+
+    // Start file upload, do not block.
+    const uploadOpts = { ...extractOptions(opts, DEFAULT_UPLOAD_OPTIONS), signal: controller.signal };
+    const skyfilePromise: Promise<UploadRequestResponse> = client
+      .uploadData(JSON.stringify(fullData), `dk:${dataKeyHex}`, { ...uploadOpts, contentType: "application/json" })
+      .catch(abortOnError);
+
+    // Fetch the current value to find out the revision.
+    //
+    // Start getEntry, do not block.
+    const getEntryOpts = { ...extractOptions(opts, DEFAULT_GET_ENTRY_OPTIONS), signal: controller.signal };
+    const entryPromise: Promise<SignedRegistryEntry> = client.registry
+      .getEntry(publicKey, dataKey, getEntryOpts)
+      .catch(abortOnError);
+
+    // Block until both getEntry and uploadData are finished. Rejects with the first error, not the abort error of the
+    // other request.
+    let signedEntry: SignedRegistryEntry;
+    let skyfile: UploadRequestResponse;
+    try {
+      [signedEntry, skyfile] = await Promise.all<SignedRegistryEntry, UploadRequestResponse>([
+        entryPromise,
+        skyfilePromise,
+      ]);
+    } finally {
+      unlinkController();
+    }
+
+    const revision = getNextRevisionFromEntry(signedEntry.entry);
+
+    // Build the registry entry.
+    const dataLink = trimUriPrefix(skyfile.skylink, URI_SKYNET_PREFIX);
+    const data = decodeSkylinkBase64(dataLink);
+    validateUint8ArrayLen("data", data, "skylink byte array", RAW_SKYLINK_SIZE);
+    const entry: RegistryEntry = {
+      dataKey,
+      data,
+      revision,
+    };
+    return [entry, formatSkylink(dataLink)];
+  });
 }
 
 /**
@@ -531,7 +589,10 @@ export function getNextRevisionFromEntry(entry: RegistryEntry | null): bigint {
 
   // Throw if the revision is already the maximum value.
   if (revision > MAX_REVISION) {
-    throw new Error("Current entry already has maximum allowed revision, could not update the entry");
+    throw new RevisionConflictError(
+      "Current entry already has maximum allowed revision, could not update the entry",
+      revision
+    );
   }
 
   return revision;
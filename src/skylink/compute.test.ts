@@ -0,0 +1,81 @@
+import { hashAll } from "../crypto";
+import { stringToUint8ArrayUtf8 } from "../utils/string";
+import { computeSectorMerkleRoot, computeSkylink } from "./compute";
+import { isSkylinkV1, SECTOR_SIZE } from "./sia";
+
+/**
+ * Computes the Merkle root of the data by hashing every leaf.
+ *
+ * @param data - The data, a power of 2 multiple of 64 bytes.
+ * @returns - The Merkle root.
+ */
+function computeMerkleRootNaive(data: Uint8Array): Uint8Array {
+  let level: Uint8Array[] = [];
+  for (let offset = 0; offset < data.length; offset += 64) {
+    level.push(hashAll(new Uint8Array([0]), data.slice(offset, offset + 64)));
+  }
+  while (level.length > 1) {
+    const nextLevel: Uint8Array[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      nextLevel.push(hashAll(new Uint8Array([1]), level[i], level[i + 1]));
+    }
+    level = nextLevel;
+  }
+  return level[0];
+}
+
+describe("computeSectorMerkleRoot", () => {
+  const sectorSize = 1024;
+
+  it.each([0, 1, 64, 100, 512, 1000, 1024])("should match the root of the padded sector for %s bytes", (size) => {
+    const data = new Uint8Array(size).map((_, i) => i % 251);
+    const sector = new Uint8Array(sectorSize);
+    sector.set(data);
+
+    expect(computeSectorMerkleRoot(data, sectorSize)).toEqual(computeMerkleRootNaive(sector));
+  });
+
+  it("should throw if the data does not fit in the sector", () => {
+    expect(() => computeSectorMerkleRoot(new Uint8Array(sectorSize + 1), sectorSize)).toThrowError(
+      "Expected data to fit in the sector of 1024 bytes, was 1025 bytes"
+    );
+  });
+});
+
+describe("computeSkylink", () => {
+  it("should compute a v1 skylink", async () => {
+    const skylink = await computeSkylink("foo", "foo.txt");
+
+    expect(isSkylinkV1(skylink)).toBeTruthy();
+    expect(await computeSkylink(stringToUint8ArrayUtf8("foo"), "foo.txt")).toEqual(skylink);
+    expect(await computeSkylink(new Blob(["foo"]), "foo.txt")).toEqual(skylink);
+    expect(await computeSkylink(stringToUint8ArrayUtf8("foo").buffer, "foo.txt")).toEqual(skylink);
+    expect(await computeSkylink("bar", "foo.txt")).not.toEqual(skylink);
+    expect(await computeSkylink("foo", "bar.txt")).not.toEqual(skylink);
+  });
+
+  it("should encode the metadata like skyd", async () => {
+    const skylink = await computeSkylink("foo", "<foo>.txt", { tryfiles: ["index.html"] });
+
+    expect(
+      await computeSkylink(
+        "foo",
+        "<foo>.txt",
+        '{"filename":"\\u003cfoo\\u003e.txt","length":3,"tryfiles":["index.html"]}'
+      )
+    ).toEqual(skylink);
+  });
+
+  it("should throw if the file does not fit in the base sector", async () => {
+    await expect(computeSkylink(new Uint8Array(SECTOR_SIZE), "foo.txt")).rejects.toThrowError(
+      "Expected the file and its metadata to fit in the base sector of 4194304 bytes"
+    );
+  });
+
+  it("should throw if the data is not valid", async () => {
+    // @ts-expect-error Testing invalid input.
+    await expect(computeSkylink(123, "foo.txt")).rejects.toThrowError(
+      "Expected parameter 'data' to be type 'Uint8Array', 'Blob', 'string' or 'ArrayBuffer', was type 'number'"
+    );
+  });
+});
@@ -0,0 +1,247 @@
+import { hashAll } from "../crypto";
+import { ValidationError } from "../errors";
+import { encodeNumber } from "../utils/encoding";
+import { readBlob } from "../utils/file";
+import { JsonData } from "../utils/types";
+import { stringToUint8ArrayUtf8 } from "../utils/string";
+import { throwValidationError, validateString } from "../utils/validation";
+import { newSkylinkV1, SECTOR_SIZE } from "./sia";
+
+/**
+ * The size of the layout at the start of the base sector. Matches
+ * `SkyfileLayoutSize` in skyd.
+ */
+export const SKYFILE_LAYOUT_SIZE = 99;
+
+/**
+ * The version of the skyfile layout.
+ */
+const SKYFILE_VERSION = 1;
+
+/**
+ * The cipher type of unencrypted skyfiles. Matches `TypePlain` in Sia.
+ */
+export const CIPHER_TYPE_PLAIN = new Uint8Array([0, 0, 0, 0, 0, 0, 0, 1]);
+
+/**
+ * The size of the leaves of the sector Merkle tree. Matches `SegmentSize` in Sia.
+ */
+export const SEGMENT_SIZE = 64;
+
+/**
+ * The prefixes of leaf and node hashes in Sia Merkle trees.
+ */
+const LEAF_HASH_PREFIX = new Uint8Array([0]);
+const NODE_HASH_PREFIX = new Uint8Array([1]);
+
+/**
+ * The layout at the start of the base sector of a skyfile. Matches
+ * `SkyfileLayout` in skyd.
+ *
+ * @property version - The version of the layout.
+ * @property filesize - The size of the file in bytes.
+ * @property metadataSize - The size of the metadata in bytes.
+ * @property fanoutSize - The size of the fanout in bytes. 0 if the file fits in the base sector.
+ * @property fanoutDataPieces - The number of data pieces of each chunk of the fanout.
+ * @property fanoutParityPieces - The number of parity pieces of each chunk of the fanout.
+ * @property cipherType - The cipher type of the file.
+ */
+export type SkyfileLayout = {
+  version: number;
+  filesize: number;
+  metadataSize: number;
+  fanoutSize: number;
+  fanoutDataPieces: number;
+  fanoutParityPieces: number;
+  cipherType: Uint8Array;
+};
+
+/**
+ * The roots of subtrees containing only zeros, indexed by their height.
+ * Computed lazily.
+ */
+const zeroSubtreeRoots: Uint8Array[] = [];
+
+/**
+ * Computes the v1 skylink of a file which fits in the base sector, without
+ * uploading it. Matches how skyd builds the base sector of a skyfile: the
+ * layout, the JSON metadata and the data, padded with zeros to a sector.
+ *
+ * The skylink depends on the exact bytes of the metadata stored by the portal,
+ * which can be passed as a string. Objects are encoded like skyd encodes them,
+ * with the properties in the given order and the filename first.
+ *
+ * @param data - The data of the file.
+ * @param filename - The filename stored in the metadata.
+ * @param [metadata] - The metadata of the file, as an object or JSON string. Defaults to the filename and length.
+ * @returns - The skylink.
+ * @throws - Will throw if the input is not valid or the file does not fit in the base sector.
+ */
+export async function computeSkylink(
+  data: Uint8Array | Blob | string | ArrayBuffer,
+  filename: string,
+  metadata?: JsonData | string
+): Promise<string> {
+  validateString("filename", filename, "parameter");
+
+  let bytes: Uint8Array;
+  if (typeof data === "string") {
+    bytes = stringToUint8ArrayUtf8(data);
+  } else if (data instanceof Blob) {
+    bytes = await readBlob(data);
+  } else if (ArrayBuffer.isView(data)) {
+    bytes = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  } else if (Object.prototype.toString.call(data) === "[object ArrayBuffer]") {
+    bytes = new Uint8Array(data);
+  } else {
+    throwValidationError("data", data, "parameter", "type 'Uint8Array', 'Blob', 'string' or 'ArrayBuffer'");
+    return "";
+  }
+
+  let metadataBytes: Uint8Array;
+  if (typeof metadata === "string") {
+    metadataBytes = stringToUint8ArrayUtf8(metadata);
+  } else {
+    metadataBytes = encodeSkyfileMetadata({ filename, length: bytes.length, ...metadata });
+  }
+
+  const fetchSize = SKYFILE_LAYOUT_SIZE + metadataBytes.length + bytes.length;
+  if (fetchSize > SECTOR_SIZE) {
+    throw new ValidationError(
+      `Expected the file and its metadata to fit in the base sector of ${SECTOR_SIZE} bytes, but they need ${fetchSize} bytes`,
+      "data",
+      "parameter"
+    );
+  }
+
+  const baseSector = new Uint8Array(fetchSize);
+  baseSector.set(encodeSkyfileLayout(bytes.length, metadataBytes.length));
+  baseSector.set(metadataBytes, SKYFILE_LAYOUT_SIZE);
+  baseSector.set(bytes, SKYFILE_LAYOUT_SIZE + metadataBytes.length);
+
+  return newSkylinkV1(computeSectorMerkleRoot(baseSector), 0, fetchSize).toString();
+}
+
+/**
+ * Computes the Merkle root of a sector. Matches `MerkleRoot` in Sia for data
+ * of the sector size. Subtrees in the zero padding after the data are not
+ * hashed again.
+ *
+ * @param data - The start of the sector. The rest of the sector is filled with zeros.
+ * @param [sectorSize] - The size of the sector, a power of 2 multiple of the segment size.
+ * @returns - The Merkle root.
+ * @throws - Will throw if the data does not fit in the sector.
+ */
+export function computeSectorMerkleRoot(data: Uint8Array, sectorSize = SECTOR_SIZE): Uint8Array {
+  if (data.length > sectorSize) {
+    throw new ValidationError(
+      `Expected data to fit in the sector of ${sectorSize} bytes, was ${data.length} bytes`,
+      "data",
+      "parameter"
+    );
+  }
+
+  let level: Uint8Array[] = [];
+  for (let offset = 0; offset < data.length; offset += SEGMENT_SIZE) {
+    const segment = new Uint8Array(SEGMENT_SIZE);
+    segment.set(data.subarray(offset, offset + SEGMENT_SIZE));
+    level.push(hashAll(LEAF_HASH_PREFIX, segment));
+  }
+
+  let height = 0;
+  for (let width = sectorSize / SEGMENT_SIZE; width > 1; width /= 2) {
+    if (level.length === 0) {
+      // Only zeros left.
+      level = [getZeroSubtreeRoot(height)];
+    }
+    const nextLevel: Uint8Array[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      nextLevel.push(hashAll(NODE_HASH_PREFIX, level[i], level[i + 1] ?? getZeroSubtreeRoot(height)));
+    }
+    level = nextLevel;
+    height++;
+  }
+  return level[0] ?? getZeroSubtreeRoot(height);
+}
+
+/**
+ * Encodes the metadata of a skyfile like skyd, which escapes HTML characters
+ * in JSON strings.
+ *
+ * @param metadata - The metadata.
+ * @returns - The encoded metadata.
+ */
+function encodeSkyfileMetadata(metadata: JsonData): Uint8Array {
+  const json = JSON.stringify(metadata).replace(
+    /[<>&\u2028\u2029]/g,
+    (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, "0")}`
+  );
+  return stringToUint8ArrayUtf8(json);
+}
+
+/**
+ * Encodes the layout of a skyfile without fanout. Matches `SkyfileLayout.Encode`
+ * in skyd.
+ *
+ * @param filesize - The size of the file.
+ * @param metadataSize - The size of the encoded metadata.
+ * @returns - The encoded layout.
+ */
+function encodeSkyfileLayout(filesize: number, metadataSize: number): Uint8Array {
+  const layout = new Uint8Array(SKYFILE_LAYOUT_SIZE);
+  layout[0] = SKYFILE_VERSION;
+  layout.set(encodeNumber(filesize), 1);
+  layout.set(encodeNumber(metadataSize), 9);
+  // The fanout size, data pieces and parity pieces are 0 for files without fanout.
+  layout.set(CIPHER_TYPE_PLAIN, 27);
+  // The key data is empty for unencrypted files.
+  return layout;
+}
+
+/**
+ * Decodes the layout at the start of a base sector. Matches
+ * `SkyfileLayout.Decode` in skyd.
+ *
+ * @param baseSector - The base sector.
+ * @returns - The layout.
+ * @throws - Will throw if the base sector is too short.
+ */
+export function decodeSkyfileLayout(baseSector: Uint8Array): SkyfileLayout {
+  if (baseSector.length < SKYFILE_LAYOUT_SIZE) {
+    throw new ValidationError(
+      `Expected the base sector to contain the layout of ${SKYFILE_LAYOUT_SIZE} bytes, was ${baseSector.length} bytes`,
+      "baseSector",
+      "parameter"
+    );
+  }
+
+  const view = new DataView(baseSector.buffer, baseSector.byteOffset, SKYFILE_LAYOUT_SIZE);
+  // JS can't read uint64s, sizes within a skyfile fit in 53 bits.
+  const getUint64 = (offset: number) => view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 2 ** 32;
+  return {
+    version: view.getUint8(0),
+    filesize: getUint64(1),
+    metadataSize: getUint64(9),
+    fanoutSize: getUint64(17),
+    fanoutDataPieces: view.getUint8(25),
+    fanoutParityPieces: view.getUint8(26),
+    cipherType: baseSector.slice(27, 35),
+  };
+}
+
+/**
+ * Returns the root of a subtree of the given height which contains only zeros.
+ *
+ * @param height - The height of the subtree, 0 for a leaf.
+ * @returns - The root of the subtree.
+ */
+function getZeroSubtreeRoot(height: number): Uint8Array {
+  if (zeroSubtreeRoots.length === 0) {
+    zeroSubtreeRoots.push(hashAll(LEAF_HASH_PREFIX, new Uint8Array(SEGMENT_SIZE)));
+  }
+  while (zeroSubtreeRoots.length <= height) {
+    const root = zeroSubtreeRoots[zeroSubtreeRoots.length - 1];
+    zeroSubtreeRoots.push(hashAll(NODE_HASH_PREFIX, root, root));
+  }
+  return zeroSubtreeRoots[height];
+}
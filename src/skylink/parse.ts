@@ -1,5 +1,6 @@
 import parse from "url-parse";
 
+import { ValidationError } from "../errors";
 import { trimForwardSlash, trimSuffix, trimUriPrefix } from "../utils/string";
 import { URI_SKYNET_PREFIX } from "../utils/url";
 import { validateOptionalObject, validateString } from "../utils/validation";
@@ -46,10 +47,10 @@ export function parseSkylink(skylinkUrl: string, customOptions?: ParseSkylinkOpt
   const opts = { ...defaultParseSkylinkOptions, ...customOptions };
 
   if (opts.includePath && opts.onlyPath) {
-    throw new Error("The includePath and onlyPath options cannot both be set");
+    throw new ValidationError("The includePath and onlyPath options cannot both be set");
   }
   if (opts.includePath && opts.fromSubdomain) {
-    throw new Error("The includePath and fromSubdomain options cannot both be set");
+    throw new ValidationError("The includePath and fromSubdomain options cannot both be set");
   }
 
   if (opts.fromSubdomain) {
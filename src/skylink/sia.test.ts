@@ -5,6 +5,7 @@ import {
   isSkylinkV1,
   isSkylinkV2,
   newEd25519PublicKey,
+  newSkylinkV1,
   newSkylinkV2,
   newSpecifier,
   SiaSkylink,
@@ -122,3 +123,51 @@ describe("SiaSkylink.toString", () => {
     expect(skylink.toString()).toEqual(str);
   });
 });
+
+describe("newSkylinkV1", () => {
+  const merkleRoot = new Uint8Array(32);
+
+  it.each([
+    [0, 0],
+    [4096, 0],
+    [32 * 1024, 0b111000],
+    [36 * 1024, 0b000100],
+    [64 * 1024, 0b1110100],
+    [160 * 1024, 0b1011100],
+    [4 * 1024 * 1024, 0b1110111111100],
+  ])("should encode the fetch size %s", (fetchSize, bitfield) => {
+    expect(newSkylinkV1(merkleRoot, 0, fetchSize).bitfield).toEqual(bitfield);
+  });
+
+  it("should encode the offset", () => {
+    expect(newSkylinkV1(merkleRoot, 8192, 4096).bitfield).toEqual(2 << 6);
+  });
+
+  it.each([
+    [0, 4096],
+    [0, 36 * 1024],
+    [16384, 128 * 1024],
+    [1 << 20, 160 * 1024],
+    [0, 4 * 1024 * 1024],
+  ])("should decode the offset %s and fetch size %s", (offset, fetchSize) => {
+    expect(newSkylinkV1(merkleRoot, offset, fetchSize).offsetAndFetchSize()).toEqual([offset, fetchSize]);
+  });
+
+  it("should match an existing skylink", () => {
+    const skylink = SiaSkylink.fromString(skylinkV1);
+
+    expect(newSkylinkV1(skylink.merkleRoot, 0, 150 * 1024).toString()).toEqual(skylinkV1);
+  });
+
+  it("should throw if the data doesn't fit in the sector", () => {
+    expect(() => newSkylinkV1(merkleRoot, 4096, 4 * 1024 * 1024)).toThrowError(
+      "Expected fetch size '4194304' to fit in the sector"
+    );
+  });
+
+  it("should throw if the offset is not aligned", () => {
+    expect(() => newSkylinkV1(merkleRoot, 4096, 64 * 1024)).toThrowError(
+      "Expected offset '4096' to be aligned to '8192'"
+    );
+  });
+});
@@ -1,4 +1,5 @@
 import { hashAll } from "../crypto";
+import { ValidationError } from "../errors";
 import { decodeSkylinkBase64, encodeSkylinkBase64, encodePrefixedBytes, decodeSkylinkBase32 } from "../utils/encoding";
 import { hexToUint8Array, stringToUint8ArrayUtf8, trimUriPrefix } from "../utils/string";
 import { URI_SKYNET_PREFIX } from "../utils/url";
@@ -30,6 +31,16 @@ export const RAW_SKYLINK_SIZE = 34;
  */
 export const EMPTY_SKYLINK = new Uint8Array(RAW_SKYLINK_SIZE);
 
+/**
+ * The size of a sector in bytes.
+ */
+export const SECTOR_SIZE = 1 << 22;
+
+/**
+ * The smallest alignment of the offset and fetch size of v1 skylinks.
+ */
+const SKYLINK_V1_ALIGNMENT = 1 << 12;
+
 export class SiaSkylink {
   constructor(public bitfield: number, public merkleRoot: Uint8Array) {
     validateNumber("bitfield", bitfield, "constructor parameter");
@@ -51,6 +62,40 @@ export class SiaSkylink {
     return encodeSkylinkBase64(this.toBytes());
   }
 
+  /**
+   * Returns the offset and fetch size of a v1 skylink. Matches
+   * `sl.OffsetAndFetchSize` in skyd. See `newSkylinkV1` for the encoding.
+   *
+   * @returns - The offset and the fetch size in bytes.
+   * @throws - Will throw if the skylink is not a v1 skylink or the mode is invalid.
+   */
+  offsetAndFetchSize(): [number, number] {
+    if (!isBitfieldSkylinkV1(this.bitfield)) {
+      throw new ValidationError("Expected a v1 skylink", "skylink", "parameter");
+    }
+
+    // Skip the version bits and count the 1 bits of the mode.
+    let bitfield = this.bitfield >> 2;
+    let mode = 0;
+    while (bitfield & 1) {
+      mode++;
+      bitfield >>= 1;
+    }
+    if (mode > 7) {
+      throw new ValidationError("Expected a valid v1 skylink mode", "skylink", "parameter");
+    }
+    // Skip the 0 bit which ends the mode.
+    bitfield >>= 1;
+
+    const fetchSizeAlign = mode > 1 ? SKYLINK_V1_ALIGNMENT << (mode - 1) : SKYLINK_V1_ALIGNMENT;
+    let fetchSize = ((bitfield & 7) + 1) * fetchSizeAlign;
+    if (mode > 0) {
+      fetchSize += 8 * fetchSizeAlign;
+    }
+    const offset = (bitfield >> 3) * (SKYLINK_V1_ALIGNMENT << mode);
+    return [offset, fetchSize];
+  }
+
   /**
    * Loads the given raw data and returns the result. Based on sl.LoadBytes in
    * skyd.
@@ -189,6 +234,52 @@ export function newEd25519PublicKey(publicKey: string): SiaPublicKey {
   return new SiaPublicKey(algorithm, publicKeyBytes);
 }
 
+/**
+ * Creates a new v1 skylink. Matches `NewSkylinkV1` in skyd.
+ *
+ * The bitfield starts with the 2 version bits, followed by the mode, encoded
+ * as that many 1 bits and a 0 bit. Mode 0 encodes fetch sizes up to 32 KiB in
+ * 4 KiB steps, every further mode doubles the maximum fetch size and the step.
+ * Then follow 3 bits for the fetch size and the remaining bits for the offset.
+ *
+ * @param merkleRoot - The Merkle root of the base sector.
+ * @param offset - The offset of the data in the sector.
+ * @param fetchSize - The number of bytes to fetch from the sector.
+ * @returns - The v1 skylink.
+ * @throws - Will throw if the offset or fetch size can't be encoded.
+ */
+export function newSkylinkV1(merkleRoot: Uint8Array, offset: number, fetchSize: number): SiaSkylink {
+  if (fetchSize < 0 || offset < 0 || offset + fetchSize > SECTOR_SIZE) {
+    throw new ValidationError(`Expected fetch size '${fetchSize}' to fit in the sector`, "fetchSize", "parameter");
+  }
+
+  // Find the smallest mode which can encode the fetch size.
+  let mode = 0;
+  let fetchSizeAlign = SKYLINK_V1_ALIGNMENT;
+  let minFetchSize = 0;
+  while (fetchSize > minFetchSize + 8 * fetchSizeAlign) {
+    mode++;
+    if (mode > 1) {
+      fetchSizeAlign *= 2;
+    }
+    minFetchSize = 8 * fetchSizeAlign;
+  }
+  const fetchSizeBits = Math.max(0, Math.ceil((fetchSize - minFetchSize) / fetchSizeAlign) - 1);
+  const offsetAlign = SKYLINK_V1_ALIGNMENT << mode;
+  if (offset % offsetAlign !== 0) {
+    throw new ValidationError(`Expected offset '${offset}' to be aligned to '${offsetAlign}'`, "offset", "parameter");
+  }
+
+  // Build the bitfield from the most significant bits.
+  let bitfield = offset / offsetAlign;
+  bitfield = (bitfield << 3) | fetchSizeBits;
+  bitfield = (bitfield << (mode + 1)) | ((1 << mode) - 1);
+  // The version bits are 0 for v1 skylinks.
+  bitfield = bitfield << 2;
+
+  return new SiaSkylink(bitfield, merkleRoot);
+}
+
 /**
  * Creates a new v2 skylink. Matches `NewSkylinkV2` in skyd.
  *
@@ -221,13 +312,13 @@ export function decodeSkylink(encoded: string): Uint8Array {
   } else if (encoded.length === BASE64_ENCODED_SKYLINK_SIZE) {
     bytes = decodeSkylinkBase64(encoded);
   } else {
-    throw new Error(ERR_SKYLINK_INCORRECT_SIZE);
+    throw new ValidationError(ERR_SKYLINK_INCORRECT_SIZE, "skylink", "parameter");
   }
 
   // Sanity check the size of the given data.
   /* istanbul ignore next */
   if (bytes.length != RAW_SKYLINK_SIZE) {
-    throw new Error("failed to load skylink data");
+    throw new ValidationError("failed to load skylink data", "skylink", "parameter");
   }
 
   return bytes;
@@ -0,0 +1,91 @@
+import axios from "axios";
+import MockAdapter from "axios-mock-adapter";
+
+import { SkynetClient, DEFAULT_SKYNET_PORTAL_URL } from "./index";
+import { TimeoutError } from "./errors";
+import { normalizeTimeout } from "./timeout";
+import { TransportRequest, TransportResponse } from "./transport";
+
+const portalUrl = DEFAULT_SKYNET_PORTAL_URL;
+const skylink = "XABvi7JtJbQSMAcDwnUnmp2FKDPjg8_tTTFP4BwMSxVdEg";
+const downloadUrl = `${portalUrl}/${skylink}`;
+const response = { data: "foo", status: 200, headers: {} };
+
+/**
+ * Returns a promise which resolves after the given number of ms.
+ *
+ * @param ms - The number of ms.
+ * @returns - An empty promise.
+ */
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe("timeout", () => {
+  let mock: MockAdapter;
+
+  beforeEach(() => {
+    mock = new MockAdapter(axios);
+    mock.resetHistory();
+  });
+
+  it("should reject with a timeout error when the overall timeout is exceeded", async () => {
+    mock.onGet(downloadUrl).replyOnce(async () => {
+      await delay(200);
+      return [200, "foo", {}];
+    });
+    const client = new SkynetClient(portalUrl, { timeout: 20 });
+
+    const promise = client.getFileContent(skylink);
+
+    await expect(promise).rejects.toThrowError(TimeoutError);
+    await expect(promise).rejects.toMatchObject({ phase: "overall", timeout: 20 });
+  });
+
+  it("should reject with a timeout error when the connect timeout is exceeded", async () => {
+    // A transport which never responds and ignores the abort signal.
+    const transport = (): Promise<TransportResponse> => new Promise(() => undefined);
+    const client = new SkynetClient(portalUrl, { transport });
+
+    const promise = client.getFileContent(skylink, { timeout: { connect: 20 } });
+
+    await expect(promise).rejects.toThrowError("Request timed out after 20 ms (connect timeout)");
+  });
+
+  it("should stop the connect timeout once the response is received", async () => {
+    const transport = async (request: TransportRequest): Promise<TransportResponse> => {
+      request.onDownloadProgress?.({ loaded: 1, total: 3 } as ProgressEvent);
+      await delay(50);
+      return response;
+    };
+    const client = new SkynetClient(portalUrl, { transport });
+
+    const { data } = await client.getFileContent(skylink, { timeout: { connect: 20, overall: 1000 } });
+
+    expect(data).toEqual("foo");
+  });
+
+  it("should retry timed out requests", async () => {
+    mock
+      .onGet(downloadUrl)
+      .replyOnce(async () => {
+        await delay(200);
+        return [200, "foo", {}];
+      })
+      .onGet(downloadUrl)
+      .replyOnce(200, "bar", {});
+    const client = new SkynetClient(portalUrl);
+
+    const { data } = await client.getFileContent(skylink, { timeout: 20, retry: { maxAttempts: 2, initialDelay: 1 } });
+
+    expect(data).toEqual("bar");
+  });
+});
+
+describe("normalizeTimeout", () => {
+  it("should use a number as the overall timeout", () => {
+    expect(normalizeTimeout(1000)).toEqual({ overall: 1000 });
+    expect(normalizeTimeout({ connect: 10 })).toEqual({ connect: 10 });
+    expect(normalizeTimeout()).toEqual({});
+  });
+});
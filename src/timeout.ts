@@ -0,0 +1,98 @@
+import { TimeoutError } from "./errors";
+import { Transport, TransportRequest, TransportResponse } from "./transport";
+import { createLinkedAbortController } from "./utils/abort";
+
+/**
+ * Timeouts for a single request, in ms. Unset timeouts are disabled.
+ *
+ * @property [connect] - The maximum time until the portal starts receiving the request body or sending the response. Transports that don't report progress, e.g. axios in Node, only finish this phase once the response is complete.
+ * @property [overall] - The maximum time until the response is complete.
+ */
+export type TimeoutOptions = {
+  connect?: number;
+  overall?: number;
+};
+
+/**
+ * Normalizes the timeout option. A number sets the overall timeout.
+ *
+ * @param [timeout] - The timeout option.
+ * @returns - The timeout options.
+ */
+export function normalizeTimeout(timeout?: number | TimeoutOptions): TimeoutOptions {
+  if (typeof timeout === "number") {
+    return { overall: timeout };
+  }
+  return { ...timeout };
+}
+
+/**
+ * Sends the request with the given transport, rejecting with a `TimeoutError`
+ * if it exceeds the given timeouts.
+ *
+ * @param transport - The transport.
+ * @param request - The request.
+ * @param [timeout] - The timeout option.
+ * @returns - The response.
+ * @throws - Will throw a `TimeoutError` if the request timed out.
+ */
+export async function executeWithTimeout(
+  transport: Transport,
+  request: TransportRequest,
+  timeout?: number | TimeoutOptions
+): Promise<TransportResponse> {
+  const { connect, overall } = normalizeTimeout(timeout);
+  if (!connect && !overall) {
+    return transport(request);
+  }
+
+  // Abort the request on timeout. Also reject independently of the transport, in case it ignores the signal.
+  const [controller, unlinkController] = createLinkedAbortController(request.signal);
+  let timeoutError: TimeoutError | undefined;
+  let rejectTimeout: (err: TimeoutError) => void = () => undefined;
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    rejectTimeout = reject;
+  });
+  const expire = (phase: "connect" | "overall", ms: number) => {
+    timeoutError = new TimeoutError(`Request timed out after ${ms} ms (${phase} timeout)`, phase, ms);
+    rejectTimeout(timeoutError);
+    controller.abort();
+  };
+
+  let connectTimer = connect ? setTimeout(() => expire("connect", connect), connect) : undefined;
+  const overallTimer = overall ? setTimeout(() => expire("overall", overall), overall) : undefined;
+  const clearConnectTimer = () => {
+    if (connectTimer) {
+      clearTimeout(connectTimer);
+      connectTimer = undefined;
+    }
+  };
+  const onProgress = (callback?: (event: ProgressEvent) => void) => (event: ProgressEvent) => {
+    // The connection is up once data is flowing.
+    clearConnectTimer();
+    if (callback) {
+      callback(event);
+    }
+  };
+
+  try {
+    return await Promise.race([
+      transport({
+        ...request,
+        signal: controller.signal,
+        onDownloadProgress: onProgress(request.onDownloadProgress),
+        onUploadProgress: onProgress(request.onUploadProgress),
+      }),
+      timeoutPromise,
+    ]);
+  } catch (err) {
+    // The transport rejects with an abort error after a timeout, prefer the timeout error.
+    throw timeoutError ?? err;
+  } finally {
+    clearConnectTimer();
+    if (overallTimer) {
+      clearTimeout(overallTimer);
+    }
+    unlinkController();
+  }
+}
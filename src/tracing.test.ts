@@ -0,0 +1,143 @@
+import axios from "axios";
+import MockAdapter from "axios-mock-adapter";
+
+import { SkynetClient, DEFAULT_SKYNET_PORTAL_URL, genKeyPairFromSeed } from "./index";
+import { getEntryUrlForPortal } from "./registry";
+import { createOpenTelemetryTracer, Span, SpanAttributes, SpanStatus, SpanStatusCode, Tracer } from "./tracing";
+
+const portalUrl = DEFAULT_SKYNET_PORTAL_URL;
+const skylink = "XABvi7JtJbQSMAcDwnUnmp2FKDPjg8_tTTFP4BwMSxVdEg";
+const { publicKey, privateKey } = genKeyPairFromSeed("insecure test seed");
+const dataKey = "app";
+
+/**
+ * A recorded span.
+ */
+type RecordedSpan = Span & {
+  name: string;
+  attributes: SpanAttributes;
+  parent?: RecordedSpan;
+  status?: SpanStatus;
+  ended: boolean;
+};
+
+/**
+ * Creates a tracer which records all spans.
+ *
+ * @returns - The tracer and the recorded spans.
+ */
+function createRecordingTracer(): [Tracer, RecordedSpan[]] {
+  const spans: RecordedSpan[] = [];
+  const tracer = {
+    startSpan(name: string, attributes: SpanAttributes, parent?: Span): Span {
+      const span: RecordedSpan = {
+        name,
+        attributes: { ...attributes },
+        parent: parent as RecordedSpan | undefined,
+        ended: false,
+        setAttribute: (key, value) => {
+          span.attributes[key] = value;
+        },
+        setStatus: (status) => {
+          span.status = status;
+        },
+        recordException: () => undefined,
+        end: () => {
+          span.ended = true;
+        },
+      };
+      spans.push(span);
+      return span;
+    },
+  };
+  return [tracer, spans];
+}
+
+describe("tracing", () => {
+  let mock: MockAdapter;
+
+  beforeEach(() => {
+    mock = new MockAdapter(axios);
+    mock.resetHistory();
+  });
+
+  it("should emit a span per request with the request details", async () => {
+    mock.onGet(`${portalUrl}/${skylink}`).replyOnce(200, "foo", { "content-length": "3" });
+    const [tracer, spans] = createRecordingTracer();
+    const client = new SkynetClient(portalUrl, { tracer });
+
+    await client.getFileContent(skylink);
+
+    expect(spans.length).toEqual(1);
+    expect(spans[0]).toMatchObject({
+      name: "HTTP GET",
+      attributes: {
+        "http.method": "GET",
+        "http.url": `${portalUrl}/${skylink}`,
+        "http.status_code": 200,
+        "http.response_content_length": 3,
+      },
+      status: { code: SpanStatusCode.OK },
+      ended: true,
+    });
+  });
+
+  it("should nest the requests of composite operations", async () => {
+    mock.onPost(`${portalUrl}/skynet/skyfile`).replyOnce(200, { skylink });
+    mock.onGet(getEntryUrlForPortal(portalUrl, publicKey, dataKey)).replyOnce(404);
+    mock.onPost(`${portalUrl}/skynet/registry`).replyOnce(204);
+    const [tracer, spans] = createRecordingTracer();
+    const client = new SkynetClient(portalUrl, { tracer });
+
+    await client.db.setJSON(privateKey, dataKey, { foo: "bar" });
+
+    const setJSONSpan = spans.find((span) => span.name === "db.setJSON");
+    const getOrCreateSpan = spans.find((span) => span.name === "db.getOrCreateEntry");
+    expect(setJSONSpan?.parent).toBeUndefined();
+    expect(getOrCreateSpan?.parent).toBe(setJSONSpan);
+
+    const requestSpans = spans.filter((span) => span.name.startsWith("HTTP"));
+    expect(requestSpans.map((span) => [span.name, span.parent?.name])).toEqual([
+      ["HTTP POST", "db.getOrCreateEntry"],
+      ["HTTP GET", "db.getOrCreateEntry"],
+      ["HTTP POST", "db.setJSON"],
+    ]);
+    expect(spans.every((span) => span.ended)).toBeTruthy();
+  });
+
+  it("should log requests and failures", async () => {
+    mock.onGet(`${portalUrl}/${skylink}`).replyOnce(200, "foo", {}).onGet(`${portalUrl}/${skylink}`).replyOnce(500);
+    const logger = { debug: jest.fn(), error: jest.fn() };
+    const [tracer, spans] = createRecordingTracer();
+    const client = new SkynetClient(portalUrl, { logger, tracer });
+
+    await client.getFileContent(skylink);
+    await expect(client.getFileContent(skylink)).rejects.toThrowError("Request failed with status code 500");
+
+    expect(logger.debug).toHaveBeenCalledWith(
+      "HTTP GET succeeded",
+      expect.objectContaining({ "http.status_code": 200, durationMs: expect.any(Number) })
+    );
+    expect(logger.error).toHaveBeenCalledWith(
+      "HTTP GET failed: Request failed with status code 500",
+      expect.objectContaining({ "http.status_code": 500 })
+    );
+    expect(spans[1].status).toEqual({ code: SpanStatusCode.ERROR, message: "Request failed with status code 500" });
+  });
+});
+
+describe("createOpenTelemetryTracer", () => {
+  it("should start spans in the context of the parent span", () => {
+    const span = {} as Span;
+    const otelTracer = { startSpan: jest.fn().mockReturnValue(span) };
+    const api = { context: { active: () => "active" }, trace: { setSpan: jest.fn().mockReturnValue("child") } };
+    const tracer = createOpenTelemetryTracer(otelTracer, api);
+
+    tracer.startSpan("foo", { bar: 1 });
+    tracer.startSpan("foo", { bar: 1 }, span);
+
+    expect(otelTracer.startSpan).toHaveBeenNthCalledWith(1, "foo", { attributes: { bar: 1 } }, undefined);
+    expect(api.trace.setSpan).toHaveBeenCalledWith("active", span);
+    expect(otelTracer.startSpan).toHaveBeenNthCalledWith(2, "foo", { attributes: { bar: 1 } }, "child");
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * A log function. The fields contain structured data about the logged event.
+ */
+export type LogFunction = (message: string, fields?: Record<string, unknown>) => void;
+
+/**
+ * A structured logger. Compatible with `console` and most logging libraries.
+ *
+ * @property debug - Called for every request and operation.
+ * @property error - Called for failed requests and operations.
+ */
+export type Logger = {
+  debug: LogFunction;
+  error: LogFunction;
+};
+
+/**
+ * The value of a span attribute.
+ */
+export type SpanAttributeValue = string | number | boolean;
+
+/**
+ * The attributes of a span.
+ */
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+/**
+ * The status codes of a span. Matches the OpenTelemetry `SpanStatusCode` values.
+ */
+export const SpanStatusCode = {
+  UNSET: 0,
+  OK: 1,
+  ERROR: 2,
+} as const;
+
+/**
+ * The status of a span.
+ *
+ * @property code - The status code.
+ * @property [message] - The error message.
+ */
+export type SpanStatus = {
+  code: typeof SpanStatusCode[keyof typeof SpanStatusCode];
+  message?: string;
+};
+
+/**
+ * A span covering a single request or operation. OpenTelemetry spans satisfy
+ * this interface.
+ */
+export type Span = {
+  setAttribute(key: string, value: SpanAttributeValue): void;
+  setStatus(status: SpanStatus): void;
+  recordException(exception: Error): void;
+  end(): void;
+};
+
+/**
+ * A tracer which creates spans. Use `createOpenTelemetryTracer` to emit OpenTelemetry spans.
+ */
+export type Tracer = {
+  startSpan(name: string, attributes: SpanAttributes, parent?: Span): Span;
+};
+
+/**
+ * Options for logging and tracing.
+ *
+ * @property [logger] - The logger for requests and operations.
+ * @property [tracer] - The tracer which creates a span for every request and operation.
+ * @property [parentSpan] - The span that the spans of the call are children of.
+ */
+export type TracingOptions = {
+  logger?: Logger;
+  tracer?: Tracer;
+  parentSpan?: Span;
+};
+
+/**
+ * The minimal OpenTelemetry tracer API used by `createOpenTelemetryTracer`.
+ */
+export type OpenTelemetryTracer = {
+  startSpan(name: string, options?: { attributes?: SpanAttributes }, context?: unknown): Span;
+};
+
+/**
+ * The minimal OpenTelemetry API used by `createOpenTelemetryTracer`, i.e. the `@opentelemetry/api` module.
+ */
+export type OpenTelemetryApi = {
+  context: { active(): unknown };
+  trace: { setSpan(context: unknown, span: Span): unknown };
+};
+
+/**
+ * Creates a tracer which emits OpenTelemetry spans, e.g.
+ * `createOpenTelemetryTracer(api.trace.getTracer("skynet-js"), api)`.
+ *
+ * @param tracer - The OpenTelemetry tracer.
+ * @param api - The OpenTelemetry API, used to link child spans to their parents.
+ * @returns - The tracer.
+ */
+export function createOpenTelemetryTracer(tracer: OpenTelemetryTracer, api: OpenTelemetryApi): Tracer {
+  return {
+    startSpan(name: string, attributes: SpanAttributes, parent?: Span): Span {
+      const context = parent ? api.trace.setSpan(api.context.active(), parent) : undefined;
+      return tracer.startSpan(name, { attributes }, context);
+    },
+  };
+}
+
+/**
+ * A traced request or operation.
+ */
+export class Trace {
+  // The span, if a tracer was given.
+  readonly span?: Span;
+
+  protected startTime = Date.now();
+
+  /**
+   * Starts tracing the request or operation.
+   *
+   * @param opts - The tracing options.
+   * @param name - The name of the span.
+   * @param attributes - The initial attributes.
+   */
+  constructor(protected opts: TracingOptions, protected name: string, protected attributes: SpanAttributes) {
+    this.span = opts.tracer?.startSpan(name, attributes, opts.parentSpan);
+  }
+
+  /**
+   * Sets an attribute on the span. Undefined values are ignored.
+   *
+   * @param key - The attribute key.
+   * @param [value] - The attribute value.
+   */
+  setAttribute(key: string, value?: SpanAttributeValue): void {
+    if (value === undefined) {
+      return;
+    }
+    this.attributes[key] = value;
+    this.span?.setAttribute(key, value);
+  }
+
+  /**
+   * Ends the span successfully.
+   */
+  end(): void {
+    const durationMs = Date.now() - this.startTime;
+    this.span?.setStatus({ code: SpanStatusCode.OK });
+    this.span?.end();
+    this.opts.logger?.debug(`${this.name} succeeded`, { ...this.attributes, durationMs });
+  }
+
+  /**
+   * Ends the span with the given error.
+   *
+   * @param err - The error.
+   */
+  fail(err: unknown): void {
+    const durationMs = Date.now() - this.startTime;
+    const message = (err as Error)?.message ?? String(err);
+    if (err instanceof Error) {
+      this.span?.recordException(err);
+    }
+    this.span?.setStatus({ code: SpanStatusCode.ERROR, message });
+    this.span?.end();
+    this.opts.logger?.error(`${this.name} failed: ${message}`, { ...this.attributes, durationMs, error: err });
+  }
+}
+
+/**
+ * Runs the operation in a span. The span is passed to the operation so that it
+ * can be set as the parent span of its sub-requests.
+ *
+ * @param opts - The tracing options.
+ * @param name - The name of the operation.
+ * @param attributes - The span attributes.
+ * @param operation - The operation.
+ * @returns - The result of the operation.
+ */
+export async function traceOperation<T>(
+  opts: TracingOptions,
+  name: string,
+  attributes: SpanAttributes,
+  operation: (parentSpan?: Span) => Promise<T>
+): Promise<T> {
+  if (!opts.tracer && !opts.logger) {
+    return operation(opts.parentSpan);
+  }
+
+  const trace = new Trace(opts, name, attributes);
+  try {
+    const result = await operation(trace.span ?? opts.parentSpan);
+    trace.end();
+    return result;
+  } catch (err) {
+    trace.fail(err);
+    throw err;
+  }
+}
@@ -0,0 +1,128 @@
+import { SkynetClient, DEFAULT_SKYNET_PORTAL_URL } from "./index";
+import { createFetchTransport, TransportError, TransportRequest } from "./transport";
+import { stringToUint8ArrayUtf8 } from "./utils/string";
+
+const portalUrl = DEFAULT_SKYNET_PORTAL_URL;
+const skylink = "XABvi7JtJbQSMAcDwnUnmp2FKDPjg8_tTTFP4BwMSxVdEg";
+
+/**
+ * Returns a minimal fetch response with the given body, status and headers.
+ *
+ * @param body - The response body.
+ * @param [status=200] - The status code.
+ * @param [headers={}] - The response headers.
+ * @returns - The fake response.
+ */
+function fakeResponse(body: string, status = 200, headers: Record<string, string> = {}): Response {
+  const bytes = stringToUint8ArrayUtf8(body);
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: {
+      forEach: (callback: (value: string, key: string) => void) =>
+        Object.entries(headers).forEach(([key, value]) => callback(value, key)),
+    },
+    body: null,
+    arrayBuffer: async () => bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength),
+  } as unknown as Response;
+}
+
+describe("custom transport", () => {
+  it("should send every request through the given transport", async () => {
+    const requests: TransportRequest[] = [];
+    const transport = async (request: TransportRequest) => {
+      requests.push(request);
+      return { data: "", status: 200, headers: { "skynet-skylink": skylink } };
+    };
+    const client = new SkynetClient(portalUrl, { transport });
+
+    const { skylink: pinned } = await client.pinSkylink(skylink, { APIKey: "foobar" });
+
+    expect(pinned).toEqual(`sia://${skylink}`);
+    expect(requests.length).toEqual(1);
+    expect(requests[0].url).toEqual(`${portalUrl}/skynet/pin/${skylink}`);
+    expect(requests[0].method).toEqual("post");
+    expect(requests[0].auth).toEqual({ username: "", password: "foobar" });
+  });
+});
+
+describe("createFetchTransport", () => {
+  const url = `${portalUrl}/skynet/foo`;
+
+  it("should parse JSON responses and lower-case header names", async () => {
+    const fetchImpl = jest.fn().mockResolvedValue(fakeResponse('{"foo":"bar"}', 200, { "Skynet-Skylink": skylink }));
+    const transport = createFetchTransport(fetchImpl);
+
+    const response = await transport({ url, method: "get", headers: {} });
+
+    expect(response.data).toEqual({ foo: "bar" });
+    expect(response.status).toEqual(200);
+    expect(response.headers["skynet-skylink"]).toEqual(skylink);
+    expect(fetchImpl).toHaveBeenCalledWith(url, expect.objectContaining({ method: "GET", credentials: "include" }));
+  });
+
+  it("should send JSON bodies and basic auth", async () => {
+    const fetchImpl = jest.fn().mockResolvedValue(fakeResponse(""));
+    const transport = createFetchTransport(fetchImpl);
+
+    await transport({
+      url,
+      method: "post",
+      headers: {},
+      data: { foo: "bar" },
+      auth: { username: "", password: "foobar" },
+    });
+
+    const init = fetchImpl.mock.calls[0][1];
+    expect(init.body).toEqual('{"foo":"bar"}');
+    expect(init.headers["Content-Type"]).toEqual("application/json;charset=utf-8");
+    expect(init.headers["Authorization"]).toEqual(`Basic ${btoa(":foobar")}`);
+  });
+
+  it("should apply transformRequest and transformResponse", async () => {
+    const fetchImpl = jest.fn().mockResolvedValue(fakeResponse('{"revision":11}'));
+    const transport = createFetchTransport(fetchImpl);
+
+    const response = await transport({
+      url,
+      method: "post",
+      headers: {},
+      data: { foo: "bar" },
+      transformRequest: () => "transformed",
+      transformResponse: (data: string) => ({ raw: data }),
+    });
+
+    expect(fetchImpl.mock.calls[0][1].body).toEqual("transformed");
+    expect(response.data).toEqual({ raw: '{"revision":11}' });
+  });
+
+  it("should return array buffers for the arraybuffer response type", async () => {
+    const fetchImpl = jest.fn().mockResolvedValue(fakeResponse("foo"));
+    const transport = createFetchTransport(fetchImpl);
+
+    const response = await transport({ url, method: "get", headers: {}, responseType: "arraybuffer" });
+
+    expect(new Uint8Array(response.data as ArrayBuffer)).toEqual(stringToUint8ArrayUtf8("foo"));
+  });
+
+  it("should reject with the response for unsuccessful status codes", async () => {
+    const fetchImpl = jest.fn().mockResolvedValue(fakeResponse("not found", 404));
+    const client = new SkynetClient(portalUrl, { transport: createFetchTransport(fetchImpl) });
+
+    // A 404 from the registry is converted to an empty entry, which requires the status from the transport error.
+    const publicKey = "a1790331b8b41a94644d01a7b482564e7049047812364bcabc32d399ad23f7e2";
+    const { entry } = await client.registry.getEntry(publicKey, "app");
+    expect(entry).toBeNull();
+
+    const transport = createFetchTransport(fetchImpl);
+    await expect(transport({ url, method: "get", headers: {} })).rejects.toThrowError(
+      "Request failed with status code 404"
+    );
+    try {
+      await transport({ url, method: "get", headers: {} });
+    } catch (err) {
+      expect((err as TransportError).response?.status).toEqual(404);
+      expect((err as TransportError).response?.data).toEqual("not found");
+    }
+  });
+});
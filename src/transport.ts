@@ -0,0 +1,286 @@
+import axios from "axios";
+import type { AxiosInstance, Method, ResponseType } from "axios";
+
+import { AbortError } from "./errors";
+import { onAbort, throwIfAborted } from "./utils/abort";
+import { uint8ArrayToStringUtf8 } from "./utils/string";
+
+/**
+ * Headers for a transport request or response.
+ */
+export type TransportHeaders = { [key: string]: string };
+
+/**
+ * A single request, fully built by the client and ready to be sent by a transport.
+ *
+ * @property url - The full URL to contact, including any query parameters.
+ * @property method - The request method.
+ * @property headers - The request headers.
+ * @property [data] - The request body.
+ * @property [auth] - Basic authentication credentials.
+ * @property [responseType] - The expected response type.
+ * @property [transformRequest] - A function that allows manually transforming the request body.
+ * @property [transformResponse] - A function that allows manually transforming the raw response body.
+ * @property [onDownloadProgress] - Called with the raw progress event while the response is received.
+ * @property [onUploadProgress] - Called with the raw progress event while the request body is sent.
+ * @property [signal] - Aborts the request. The transport should reject with an `AbortError`.
+ */
+export type TransportRequest = {
+  url: string;
+  method: Method;
+  headers: TransportHeaders;
+  data?: unknown;
+  auth?: { username: string; password: string };
+  responseType?: ResponseType;
+  transformRequest?: (data: unknown) => string;
+  transformResponse?: (data: string) => Record<string, unknown>;
+  onDownloadProgress?: (event: ProgressEvent) => void;
+  onUploadProgress?: (event: ProgressEvent) => void;
+  signal?: AbortSignal;
+};
+
+/**
+ * The response returned by a transport. Header names are lower-case.
+ *
+ * @property data - The response body, decoded according to the requested response type.
+ * @property status - The HTTP status code.
+ * @property headers - The response headers.
+ */
+export type TransportResponse<T = unknown> = {
+  data: T;
+  status: number;
+  headers: TransportHeaders;
+};
+
+/**
+ * An HTTP transport that sends requests built by the client. A transport
+ * should reject with an error containing a `response` field, like axios does,
+ * when the portal returns a status code outside of the 2xx range.
+ */
+export type Transport = (request: TransportRequest) => Promise<TransportResponse>;
+
+/**
+ * The error thrown by the fetch transport for unsuccessful status codes. Mirrors the shape of an axios error.
+ */
+export type TransportError = Error & {
+  response?: TransportResponse;
+};
+
+/**
+ * Creates a transport which sends requests using the given axios instance.
+ *
+ * @param [instance] - The axios instance to use, e.g. one configured with a custom Node agent.
+ * @returns - The axios transport.
+ */
+export function createAxiosTransport(instance: AxiosInstance = axios): Transport {
+  return async (request: TransportRequest): Promise<TransportResponse> => {
+    throwIfAborted(request.signal);
+
+    // The axios version we depend on doesn't support abort signals, map the signal to a cancel token.
+    const source = axios.CancelToken.source();
+    const removeListener = onAbort(request.signal, () => source.cancel());
+
+    try {
+      return await instance({
+        url: request.url,
+        method: request.method,
+        data: request.data,
+        headers: request.headers,
+        auth: request.auth,
+        onDownloadProgress: request.onDownloadProgress,
+        onUploadProgress: request.onUploadProgress,
+        responseType: request.responseType,
+        transformRequest: request.transformRequest,
+        transformResponse: request.transformResponse,
+
+        maxContentLength: Infinity,
+        maxBodyLength: Infinity,
+        // Allow cross-site cookies.
+        withCredentials: true,
+        cancelToken: source.token,
+      });
+    } catch (err) {
+      if (axios.isCancel(err)) {
+        throw new AbortError();
+      }
+      throw err;
+    } finally {
+      removeListener();
+    }
+  };
+}
+
+/**
+ * Creates a transport which sends requests using the given fetch implementation.
+ * Note that fetch does not report upload progress.
+ *
+ * @param [fetchImpl] - The fetch implementation to use. Defaults to the global fetch.
+ * @returns - The fetch transport.
+ */
+export function createFetchTransport(fetchImpl?: typeof fetch): Transport {
+  return async (request: TransportRequest): Promise<TransportResponse> => {
+    const doFetch = fetchImpl ?? fetch;
+
+    const headers = { ...request.headers };
+    if (request.auth) {
+      headers["Authorization"] = `Basic ${btoa(`${request.auth.username}:${request.auth.password}`)}`;
+    }
+
+    let response: Response;
+    try {
+      response = await doFetch(request.url, {
+        method: request.method.toUpperCase(),
+        headers,
+        body: buildFetchBody(request, headers),
+        // Allow cross-site cookies.
+        credentials: "include",
+        signal: request.signal,
+      });
+    } catch (err) {
+      if ((err as Error).name === "AbortError") {
+        throw new AbortError();
+      }
+      throw err;
+    }
+
+    const responseHeaders: TransportHeaders = {};
+    response.headers.forEach((value, key) => {
+      responseHeaders[key.toLowerCase()] = value;
+    });
+
+    const data = await readFetchBody(response, responseHeaders, request);
+    const transportResponse = { data, status: response.status, headers: responseHeaders };
+
+    if (!response.ok) {
+      const err: TransportError = new Error(`Request failed with status code ${response.status}`);
+      err.response = transportResponse;
+      throw err;
+    }
+
+    return transportResponse;
+  };
+}
+
+/**
+ * The default transport, which uses the global axios instance.
+ */
+export const axiosTransport = createAxiosTransport();
+
+/**
+ * A transport which uses the global fetch.
+ */
+export const fetchTransport = createFetchTransport();
+
+/**
+ * Builds the fetch request body, setting a JSON content-type for plain objects like axios does.
+ *
+ * @param request - The transport request.
+ * @param headers - The headers to send, which may be modified.
+ * @returns - The request body.
+ */
+function buildFetchBody(request: TransportRequest, headers: TransportHeaders): BodyInit | undefined {
+  const data = request.data;
+  if (data === undefined || data === null) {
+    return undefined;
+  }
+  if (request.transformRequest) {
+    return request.transformRequest(data);
+  }
+  if (
+    typeof data === "string" ||
+    data instanceof FormData ||
+    data instanceof Blob ||
+    data instanceof ArrayBuffer ||
+    ArrayBuffer.isView(data)
+  ) {
+    return data as BodyInit;
+  }
+  if (!Object.keys(headers).some((key) => key.toLowerCase() === "content-type")) {
+    headers["Content-Type"] = "application/json;charset=utf-8";
+  }
+  return JSON.stringify(data);
+}
+
+/**
+ * Reads the fetch response body according to the requested response type, reporting download progress if requested.
+ *
+ * @param response - The fetch response.
+ * @param headers - The lower-cased response headers.
+ * @param request - The transport request.
+ * @returns - The decoded response body.
+ */
+async function readFetchBody(
+  response: Response,
+  headers: TransportHeaders,
+  request: TransportRequest
+): Promise<unknown> {
+  if (request.responseType === "stream") {
+    return response.body;
+  }
+
+  let bytes: Uint8Array;
+  if (request.onDownloadProgress && response.body) {
+    bytes = await readWithProgress(response.body, Number(headers["content-length"] ?? 0), request.onDownloadProgress);
+  } else {
+    bytes = new Uint8Array(await response.arrayBuffer());
+  }
+
+  switch (request.responseType) {
+    case "arraybuffer":
+      return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+    case "blob":
+      return new Blob([bytes], { type: headers["content-type"] ?? "" });
+  }
+
+  const text = uint8ArrayToStringUtf8(bytes);
+  if (request.transformResponse) {
+    return request.transformResponse(text);
+  }
+  if (request.responseType === "text") {
+    return text;
+  }
+  if (text.length === 0) {
+    return undefined;
+  }
+  // Try parsing JSON, like axios does.
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Reads the whole stream, calling the progress callback for every chunk.
+ *
+ * @param body - The response body stream.
+ * @param total - The total number of bytes, or 0 if unknown.
+ * @param onProgress - The progress callback.
+ * @returns - The read bytes.
+ */
+async function readWithProgress(
+  body: ReadableStream<Uint8Array>,
+  total: number,
+  onProgress: (event: ProgressEvent) => void
+): Promise<Uint8Array> {
+  const reader = body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done || !value) {
+      break;
+    }
+    chunks.push(value);
+    loaded += value.length;
+    onProgress({ loaded, total } as ProgressEvent);
+  }
+
+  const bytes = new Uint8Array(loaded);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
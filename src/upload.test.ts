@@ -1,8 +1,8 @@
 import axios from "axios";
 import MockAdapter from "axios-mock-adapter";
 
-import { SkynetClient, DEFAULT_SKYNET_PORTAL_URL, URI_SKYNET_PREFIX } from "./index";
-import { compareFormData } from "../utils/testing";
+import { computeSkylink, SkynetClient, DEFAULT_SKYNET_PORTAL_URL, URI_SKYNET_PREFIX } from "./index";
+import { compareFormData, mockTusServer } from "../utils/testing";
 
 const portalUrl = DEFAULT_SKYNET_PORTAL_URL;
 const client = new SkynetClient(portalUrl);
@@ -147,6 +147,43 @@ describe("uploadFile", () => {
     );
   });
 
+  it("should only compute the skylink on a dry run", async () => {
+    mock.resetHandlers();
+    mock.onPost(`${url}?dryrun=true`).replyOnce(200, data);
+
+    // Dry runs are never uploaded with tus.
+    const { skylink } = await client.uploadFile(file, { dryRun: true, largeFileSize: 1 });
+
+    expect(mock.history.post.length).toBe(1);
+    expect(skylink).toEqual(sialink);
+  });
+
+  it("should verify the returned skylink", async () => {
+    const metadata = '{"filename":"bar.txt","length":3}';
+    const computedSkylink = await computeSkylink("foo", filename, metadata);
+    mock.resetHandlers();
+    mock.onPost(url).replyOnce(200, { ...data, skylink: computedSkylink });
+    mock.onGet(`${portalUrl}/skynet/metadata/${computedSkylink}`).replyOnce(200, `${metadata}\n`);
+
+    const { skylink } = await client.uploadFile(file, { verifySkylink: true });
+
+    expect(skylink).toEqual(`${URI_SKYNET_PREFIX}${computedSkylink}`);
+  });
+
+  it("should throw if the returned skylink does not match the data", async () => {
+    mock.onGet(`${portalUrl}/skynet/metadata/${skylink}`).replyOnce(200, '{"filename":"bar.txt","length":3}');
+
+    await expect(client.uploadFile(file, { verifySkylink: true })).rejects.toThrowError(
+      `The skylink '${sialink}' returned by the portal does not match the uploaded data`
+    );
+  });
+
+  it("should throw if verifySkylink is combined with dryRun", async () => {
+    await expect(client.uploadFile(file, { verifySkylink: true, dryRun: true })).rejects.toThrowError(
+      "The 'verifySkylink' option can't be combined with 'dryRun'"
+    );
+  });
+
   it("should throw if no data was returned to uploadFile", async () => {
     mock.resetHandlers();
     mock.onPost(url).replyOnce(200);
@@ -157,6 +194,96 @@ describe("uploadFile", () => {
   });
 });
 
+describe("uploadData", () => {
+  const url = `${portalUrl}/skynet/skyfile`;
+
+  beforeEach(() => {
+    mock = new MockAdapter(axios);
+    mock.onPost(url).replyOnce(200, data);
+    mock.resetHistory();
+  });
+
+  it.each([
+    ["a string", "foo"],
+    ["a Uint8Array", new Uint8Array([102, 111, 111])],
+    ["an ArrayBuffer", new Uint8Array([102, 111, 111]).buffer],
+    ["a Blob", new Blob(["foo"])],
+  ])("should upload %s", async (_, input) => {
+    const { skylink } = await client.uploadData(input, "bar.txt");
+
+    expect(mock.history.post.length).toBe(1);
+    await compareFormData(mock.history.post[0].data, [["file", "foo", "bar.txt"]]);
+    expect(skylink).toEqual(sialink);
+  });
+
+  it("should guess the content type from the filename", async () => {
+    await client.uploadData("{}", "bar.json");
+
+    const file = mock.history.post[0].data.get("file");
+    expect(file.type).toEqual("application/json");
+  });
+
+  it("should use the given content type", async () => {
+    await client.uploadData("foo", "bar.json", { contentType: "text/plain" });
+
+    const file = mock.history.post[0].data.get("file");
+    expect(file.type).toEqual("text/plain");
+  });
+
+  it("should throw if the data is not valid", async () => {
+    // @ts-expect-error Testing invalid input.
+    await expect(client.uploadData(123, "bar.txt")).rejects.toThrowError(
+      "Expected parameter 'data' to be type 'Uint8Array', 'Blob', 'string' or 'ArrayBuffer', was type 'number'"
+    );
+  });
+});
+
+describe("uploadFile with tus", () => {
+  const endpoint = `${portalUrl}/skynet/tus`;
+  const file = new File(["foo"], "bar.txt", { type: "text/plain" });
+
+  beforeEach(async () => {
+    mock = new MockAdapter(axios);
+    await client.invalidatePortalCapabilities();
+    mock.onHead(portalUrl).reply(200, {}, { "skynet-portal-api": portalUrl });
+    mock.onOptions(`${portalUrl}/skynet/resolve`).reply(404);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should upload in parallel if the portal supports concatenation", async () => {
+    mock.onOptions(endpoint).reply(204, undefined, { "tus-extension": "creation,concatenation" });
+    mock.onHead(`${endpoint}/final`).replyOnce(200, {}, { "skynet-skylink": skylink });
+    const requests = mockTusServer(endpoint);
+
+    const { skylink: returnedSkylink } = await client.uploadFile(file, { largeFileSize: 1 });
+
+    expect(returnedSkylink).toEqual(sialink);
+    // The partial uploads run in parallel, the final upload concatenates them.
+    const sentRequests = requests.map(({ method, headers }) => `${method} ${headers["Upload-Concat"] ?? ""}`);
+    expect(sentRequests.slice(0, -1).sort()).toEqual([
+      "PATCH partial",
+      "PATCH partial",
+      "POST partial",
+      "POST partial",
+    ]);
+    expect(sentRequests[sentRequests.length - 1]).toEqual(`POST final;${endpoint}/0 ${endpoint}/1`);
+  });
+
+  it.each([
+    ["dryRun", "The 'dryRun' option is not supported by large uploads"],
+    ["verifySkylink", "The 'verifySkylink' option is not supported by large uploads"],
+  ])("should throw if '%s' is set", async (option, message) => {
+    const requests = mockTusServer(endpoint);
+
+    // Large uploads are only called with these options directly.
+    await expect(client["uploadLargeFile"](file, { [option]: true })).rejects.toThrowError(message);
+    expect(requests).toEqual([]);
+  });
+});
+
 describe("uploadDirectory", () => {
   const filename = "i-am-root";
   const directory = {
@@ -232,6 +359,16 @@ describe("uploadDirectory", () => {
     expect(mock.history.post[0].url).toContain(`tryfiles=${encodedArray}`);
   });
 
+  it("should send dryrun if given", async () => {
+    mock.resetHandlers();
+    mock.onPost(`${url}&dryrun=true`).replyOnce(200, data);
+
+    const response = await client.uploadDirectory(directory, filename, { dryRun: true });
+
+    expect(mock.history.post.length).toBe(1);
+    expect(response.skylink).toEqual(sialink);
+  });
+
   it("should encode special characters in the URL", async () => {
     const filename = "encoding?test";
     const url = `${portalUrl}/skynet/skyfile?filename=encoding%3Ftest`;
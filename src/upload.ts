@@ -1,10 +1,20 @@
-import { AxiosResponse } from "axios";
-import { HttpRequest, Upload } from "tus-js-client";
+import type { Readable } from "stream";
+import { defaultOptions, HttpRequest, Upload, UploadOptions } from "tus-js-client";
 
-import { getFileMimeType } from "./utils/file";
-import { BaseCustomOptions, DEFAULT_BASE_OPTIONS } from "./utils/options";
+import { getFileMimeType, getMimeTypeFromFilename } from "./utils/file";
+import { BaseCustomOptions, DEFAULT_BASE_OPTIONS, extractOptions } from "./utils/options";
+import { computeSkylink, SKYFILE_LAYOUT_SIZE } from "./skylink/compute";
 import { formatSkylink } from "./skylink/format";
+import { SECTOR_SIZE } from "./skylink/sia";
+import { computeUploadFingerprint, getUploadUrlStorage } from "./resumable_upload";
+import { UploadProgressTracker } from "./progress";
+import { MemoryUrlStorage, UploadHandle } from "./upload_handle";
 import { buildRequestHeaders, buildRequestUrl, SkynetClient } from "./client";
+import { DEFAULT_GET_METADATA_OPTIONS } from "./download";
+import { TransportResponse } from "./transport";
+import { AbortError, TimeoutError, UploadError, ValidationError } from "./errors";
+import { normalizeTimeout } from "./timeout";
+import { onAbort, throwIfAborted } from "./utils/abort";
 import { JsonData } from "./utils/types";
 import { throwValidationError, validateObject, validateOptionalObject, validateString } from "./utils/validation";
 
@@ -39,9 +49,11 @@ const PORTAL_DIRECTORY_FILE_FIELD_NAME = "files[]";
  * @property [endpointUpload] - The relative URL path of the portal endpoint to contact.
  * @property [endpointLargeUpload] - The relative URL path of the portal endpoint to contact for large uploads.
  * @property [customFilename] - The custom filename to use when uploading files.
+ * @property [dryRun=false] - Whether the portal should only compute the skylink without storing the data. Dry runs are always sent as a single request, also for large files.
  * @property [largeFileSize=41943040] - The size at which files are considered "large" and will be uploaded using the tus resumable upload protocol. This is the size of one chunk by default (40 mib).
  * @property [errorPages] - Defines a mapping of error codes and subfiles which are to be served in case we are serving the respective error code. All subfiles referred like this must be defined with absolute paths and must exist.
  * @property [retryDelays=[0, 5_000, 15_000, 60_000, 300_000, 600_000]] - An array or undefined, indicating how many milliseconds should pass before the next attempt to uploading will be started after the transfer has been interrupted. The array's length indicates the maximum number of attempts.
+ * @property [verifySkylink=false] - Whether to check that the skylink returned by the portal commits to the uploaded data, by computing it locally. Only supported for files which fit in the base sector (4 MiB minus the layout and metadata). Uploads with verification are always sent as a single request.
  * @property [tryFiles] - Allows us to set a list of potential subfiles to return in case the requested one does not exist or is a directory. Those subfiles might be listed with relative or absolute paths. If the path is absolute the file must exist.
  */
 export type CustomUploadOptions = BaseCustomOptions & {
@@ -49,10 +61,48 @@ export type CustomUploadOptions = BaseCustomOptions & {
   endpointLargeUpload?: string;
 
   customFilename?: string;
+  dryRun?: boolean;
   errorPages?: JsonData;
   largeFileSize?: number;
   retryDelays?: number[];
   tryFiles?: string[];
+  verifySkylink?: boolean;
+};
+
+/**
+ * Custom upload file options.
+ *
+ * @property [handle=false] - Whether to return an `UploadHandle` which can pause, resume and abort the upload, instead of a promise.
+ */
+export type CustomUploadFileOptions = CustomUploadOptions & {
+  handle?: boolean;
+};
+
+/**
+ * Custom upload data options.
+ *
+ * @property [contentType] - The content type of the data. Guessed from the filename extension if not given, unless the data is a Blob with a type.
+ */
+export type CustomUploadDataOptions = CustomUploadOptions & {
+  contentType?: string;
+};
+
+/**
+ * The data that can be uploaded with `uploadData`.
+ */
+export type UploadData = Uint8Array | Blob | string | ArrayBuffer;
+
+/**
+ * A Node.js stream to upload using tus.
+ *
+ * @property stream - The stream. File read streams are re-opened to retry failed chunks, other streams can't be retried.
+ * @property size - The number of bytes in the stream.
+ * @property type - The content type of the data.
+ */
+export type UploadStreamSource = {
+  stream: Readable;
+  size: number;
+  type: string;
 };
 
 /**
@@ -71,10 +121,18 @@ export const DEFAULT_UPLOAD_OPTIONS = {
   endpointLargeUpload: "/skynet/tus",
 
   customFilename: "",
+  dryRun: false,
   errorPages: undefined,
   largeFileSize: TUS_CHUNK_SIZE,
   retryDelays: DEFAULT_TUS_RETRY_DELAYS,
   tryFiles: undefined,
+  verifySkylink: false,
+};
+
+export const DEFAULT_UPLOAD_DATA_OPTIONS = {
+  ...DEFAULT_UPLOAD_OPTIONS,
+
+  contentType: "",
 };
 
 /**
@@ -85,23 +143,111 @@ export const DEFAULT_UPLOAD_OPTIONS = {
  * @param [customOptions] - Additional settings that can optionally be set.
  * @param [customOptions.endpointUpload="/skynet/skyfile"] - The relative URL path of the portal endpoint to contact for small uploads.
  * @param [customOptions.endpointLargeUpload="/skynet/tus"] - The relative URL path of the portal endpoint to contact for large uploads.
- * @returns - The returned skylink.
+ * @param [customOptions.handle=false] - Whether to return an `UploadHandle` which can pause, resume and abort the upload, instead of a promise.
+ * @returns - The returned skylink, or an upload handle.
  * @throws - Will throw if the request is successful but the upload response does not contain a complete response.
  */
-export async function uploadFile(
+export function uploadFile(
   this: SkynetClient,
   file: File,
-  customOptions?: CustomUploadOptions
-): Promise<UploadRequestResponse> {
+  customOptions: CustomUploadFileOptions & { handle: true }
+): UploadHandle;
+export function uploadFile(
+  this: SkynetClient,
+  file: File,
+  customOptions?: CustomUploadFileOptions
+): Promise<UploadRequestResponse>;
+/**
+ * Implements the `uploadFile` overloads.
+ *
+ * @param this - SkynetClient
+ * @param file - The file to upload.
+ * @param [customOptions] - Additional settings that can optionally be set.
+ * @returns - The returned skylink, or an upload handle.
+ */
+export function uploadFile(
+  this: SkynetClient,
+  file: File,
+  customOptions?: CustomUploadFileOptions
+): Promise<UploadRequestResponse> | UploadHandle {
   // Validation is done in `uploadFileRequest` or `uploadLargeFileRequest`.
 
-  const opts = { ...DEFAULT_UPLOAD_OPTIONS, ...this.customOptions, ...customOptions };
+  const { handle, ...uploadOpts } = customOptions ?? {};
+
+  const upload = async (customOptions: CustomUploadOptions): Promise<UploadRequestResponse> => {
+    const opts = { ...DEFAULT_UPLOAD_OPTIONS, ...this.customOptions, ...customOptions };
 
-  if (file.size < opts.largeFileSize) {
+    if (await isLargeUpload(this, file.size, opts)) {
+      return this.uploadLargeFile(file, opts);
+    }
     return this.uploadSmallFile(file, opts);
-  } else {
-    return this.uploadLargeFile(file, opts);
+  };
+
+  if (!handle) {
+    return upload(uploadOpts);
+  }
+
+  const opts = { ...this.customOptions, ...uploadOpts };
+  // Keep the tus URL in memory so that the upload can be resumed after pausing.
+  const urlStorage = new MemoryUrlStorage(getUploadUrlStorage(opts.urlStorage));
+  const uploadHandle = new UploadHandle(
+    (signal, onUploadProgress) => upload({ ...uploadOpts, signal, onUploadProgress, urlStorage }),
+    opts.signal
+  );
+  if (opts.onUploadProgress) {
+    uploadHandle.onProgress(opts.onUploadProgress);
+  }
+  return uploadHandle;
+}
+
+/**
+ * Uploads data to Skynet. Unlike `uploadFile`, doesn't depend on the DOM
+ * `File` type.
+ *
+ * @param this - SkynetClient
+ * @param data - The data to upload.
+ * @param filename - The filename of the data.
+ * @param [customOptions] - Additional settings that can optionally be set.
+ * @param [customOptions.endpointUpload="/skynet/skyfile"] - The relative URL path of the portal endpoint to contact for small uploads.
+ * @param [customOptions.endpointLargeUpload="/skynet/tus"] - The relative URL path of the portal endpoint to contact for large uploads.
+ * @returns - The returned skylink.
+ * @throws - Will throw if the input is not valid or if the request is successful but the upload response does not contain a complete response.
+ */
+export async function uploadData(
+  this: SkynetClient,
+  data: UploadData,
+  filename: string,
+  customOptions?: CustomUploadDataOptions
+): Promise<UploadRequestResponse> {
+  validateUploadData("data", data, "parameter");
+  validateString("filename", filename, "parameter");
+  validateOptionalObject("customOptions", customOptions, "parameter", DEFAULT_UPLOAD_DATA_OPTIONS);
+
+  const opts = { ...DEFAULT_UPLOAD_DATA_OPTIONS, ...this.customOptions, ...customOptions };
+  const uploadOpts = extractOptions(opts, DEFAULT_UPLOAD_OPTIONS);
+
+  let contentType = opts.contentType;
+  if (!contentType) {
+    contentType = data instanceof Blob && data.type ? data.type : getMimeTypeFromFilename(filename);
+  }
+  const blob = new Blob([data], { type: contentType });
+
+  if (await isLargeUpload(this, blob.size, opts)) {
+    return this.uploadLargeData(blob, filename, uploadOpts);
+  }
+
+  validateVerifiableUpload(blob.size, opts);
+  const response = await this.uploadSmallDataRequest(blob, filename, uploadOpts);
+
+  // Sanity check.
+  validateUploadResponse(response);
+
+  const skylink = formatSkylink(response.data.skylink);
+  if (opts.verifySkylink) {
+    await verifyUploadedSkylink.call(this, blob, filename, skylink, opts);
   }
+
+  return { skylink };
 }
 
 /**
@@ -119,12 +265,18 @@ export async function uploadSmallFile(
   file: File,
   customOptions: CustomUploadOptions
 ): Promise<UploadRequestResponse> {
+  const opts = { ...DEFAULT_UPLOAD_OPTIONS, ...this.customOptions, ...customOptions };
+  validateVerifiableUpload(file.size, opts);
+
   const response = await this.uploadSmallFileRequest(file, customOptions);
 
   // Sanity check.
   validateUploadResponse(response);
 
   const skylink = formatSkylink(response.data.skylink);
+  if (opts.verifySkylink) {
+    await verifyUploadedSkylink.call(this, file, opts.customFilename || file.name, skylink, opts);
+  }
 
   return { skylink };
 }
@@ -142,25 +294,44 @@ export async function uploadSmallFileRequest(
   this: SkynetClient,
   file: File,
   customOptions?: CustomUploadOptions
-): Promise<AxiosResponse> {
+): Promise<TransportResponse> {
   validateFile("file", file, "parameter");
   validateOptionalObject("customOptions", customOptions, "parameter", DEFAULT_UPLOAD_OPTIONS);
 
   const opts = { ...DEFAULT_UPLOAD_OPTIONS, ...this.customOptions, ...customOptions };
-  const formData = new FormData();
 
   file = ensureFileObjectConsistency(file);
-  if (opts.customFilename) {
-    formData.append(PORTAL_FILE_FIELD_NAME, file, opts.customFilename);
-  } else {
-    formData.append(PORTAL_FILE_FIELD_NAME, file);
-  }
+  return this.uploadSmallDataRequest(file, opts.customFilename || file.name, customOptions);
+}
+
+/**
+ * Makes a request to upload data to Skynet as a single request.
+ *
+ * @param this - SkynetClient
+ * @param data - The data to upload.
+ * @param filename - The filename of the data.
+ * @param [customOptions] - Additional settings that can optionally be set.
+ * @param [customOptions.endpointUpload="/skynet/skyfile"] - The relative URL path of the portal endpoint to contact.
+ * @returns - The upload response.
+ */
+export async function uploadSmallDataRequest(
+  this: SkynetClient,
+  data: Blob,
+  filename: string,
+  customOptions?: CustomUploadOptions
+): Promise<TransportResponse> {
+  validateOptionalObject("customOptions", customOptions, "parameter", DEFAULT_UPLOAD_OPTIONS);
+
+  const opts = { ...DEFAULT_UPLOAD_OPTIONS, ...this.customOptions, ...customOptions };
+  const formData = new FormData();
+  formData.append(PORTAL_FILE_FIELD_NAME, data, filename);
 
   const response = await this.executeRequest({
     ...opts,
     endpointPath: opts.endpointUpload,
     method: "post",
     data: formData,
+    query: opts.dryRun ? { dryrun: true } : undefined,
   });
 
   return response;
@@ -212,95 +383,252 @@ export async function uploadLargeFileRequest(
   this: SkynetClient,
   file: File,
   customOptions?: CustomUploadOptions
-): Promise<AxiosResponse> {
+): Promise<TransportResponse> {
   validateFile("file", file, "parameter");
   validateOptionalObject("customOptions", customOptions, "parameter", DEFAULT_UPLOAD_OPTIONS);
 
   const opts = { ...DEFAULT_UPLOAD_OPTIONS, ...this.customOptions, ...customOptions };
 
+  file = ensureFileObjectConsistency(file);
+  return this.uploadLargeDataRequest(file, opts.customFilename || file.name, customOptions);
+}
+
+/* istanbul ignore next */
+/**
+ * Uploads data to Skynet using tus.
+ *
+ * @param this - SkynetClient
+ * @param data - The data to upload, or a Node.js stream.
+ * @param filename - The filename of the data.
+ * @param [customOptions] - Additional settings that can optionally be set.
+ * @param [customOptions.endpointLargeUpload="/skynet/tus"] - The relative URL path of the portal endpoint to contact.
+ * @returns - The returned skylink.
+ * @throws - Will throw if the request is successful but the upload response does not contain a complete response.
+ */
+export async function uploadLargeData(
+  this: SkynetClient,
+  data: Blob | UploadStreamSource,
+  filename: string,
+  customOptions?: CustomUploadOptions
+): Promise<UploadRequestResponse> {
+  const response = await this.uploadLargeDataRequest(data, filename, customOptions);
+
+  // Sanity check.
+  validateLargeUploadResponse(response);
+
+  return { skylink: formatSkylink(response.headers["skynet-skylink"]) };
+}
+
+/* istanbul ignore next */
+/**
+ * Makes a request to upload data to Skynet using tus.
+ *
+ * @param this - SkynetClient
+ * @param data - The data to upload, or a Node.js stream.
+ * @param filename - The filename of the data.
+ * @param [customOptions] - Additional settings that can optionally be set.
+ * @param [customOptions.endpointLargeUpload="/skynet/tus"] - The relative URL path of the portal endpoint to contact.
+ * @returns - The upload response.
+ * @throws - Will throw if the data exceeds the maximum upload size of the portal, or on dry runs and uploads with skylink verification, which tus does not support.
+ */
+export async function uploadLargeDataRequest(
+  this: SkynetClient,
+  data: Blob | UploadStreamSource,
+  filename: string,
+  customOptions?: CustomUploadOptions
+): Promise<TransportResponse> {
+  validateOptionalObject("customOptions", customOptions, "parameter", DEFAULT_UPLOAD_OPTIONS);
+
+  const opts = { ...DEFAULT_UPLOAD_OPTIONS, ...this.customOptions, ...customOptions };
+  // Uploading with tus would store the data.
+  if (opts.dryRun) {
+    throw new ValidationError("The 'dryRun' option is not supported by large uploads", "dryRun", "option");
+  }
+  if (opts.verifySkylink) {
+    throw new ValidationError(
+      "The 'verifySkylink' option is not supported by large uploads",
+      "verifySkylink",
+      "option"
+    );
+  }
+
   // TODO: Add back upload options once they are implemented in skyd.
   const url = await buildRequestUrl(this, opts.endpointLargeUpload);
   const headers = buildRequestHeaders(undefined, opts.customUserAgent, opts.customCookie);
 
-  file = ensureFileObjectConsistency(file);
-  let filename = file.name;
-  if (opts.customFilename) {
-    filename = opts.customFilename;
-  }
-
+  const tracker = new UploadProgressTracker(TUS_CHUNK_SIZE);
   const onProgress =
     opts.onUploadProgress &&
     function (bytesSent: number, bytesTotal: number) {
       const progress = bytesSent / bytesTotal;
 
+      // tus-js-client doesn't pass the progress event, so only the loaded and total bytes are set.
+      const event = { loaded: bytesSent, total: bytesTotal } as ProgressEvent;
       // @ts-expect-error TS complains.
-      opts.onUploadProgress(progress, { loaded: bytesSent, total: bytesTotal });
+      opts.onUploadProgress(progress, event, tracker.update(bytesSent, bytesTotal));
     };
 
-  // Make an OPTIONS request to find out whether parallel uploads are supported.
+  // Find out whether parallel uploads are supported.
   // TODO: Remove this once parallel uploads are fully supported and rolled-out.
-  const resp = await this.executeRequest({
-    ...opts,
-    endpointPath: opts.endpointLargeUpload,
-    method: "options",
+  const capabilities = await this.getPortalCapabilities({
+    ...extractOptions(opts, DEFAULT_BASE_OPTIONS),
+    endpointLargeUpload: opts.endpointLargeUpload,
   });
+  validateUploadSize(data.size, capabilities.tus.maxSize);
+  validateUploadSize(data.size, capabilities.maxUploadSize);
 
+  // tus-js-client can't split streams into parallel uploads, and can't derive their size.
+  const isStream = !(data instanceof Blob);
   let parallelUploads = 1;
-  if (resp.headers["Tus-Extension"].contains("concatenation")) {
+  if (!isStream && capabilities.tus.extensions.includes("concatenation")) {
     parallelUploads = TUS_PARALLEL_UPLOADS;
   }
 
-  return new Promise((resolve, reject) => {
-    const tusOpts = {
-      endpoint: url,
-      chunkSize: TUS_CHUNK_SIZE,
-      retryDelays: opts.retryDelays,
-      metadata: {
-        filename,
-        filetype: file.type,
-      },
-      parallelUploads,
-      headers,
-      onProgress,
-      onBeforeRequest: function (req: HttpRequest) {
-        const xhr = req.getUnderlyingObject();
-        xhr.withCredentials = true;
-      },
-      onError: (error: Error) => {
-        // Return error body rather than entire error.
-        // @ts-expect-error tus-client-js Error is not typed correctly.
-        const res = error.originalResponse;
-        const newError = res ? new Error(res.getBody().trim()) || error : error;
-        reject(newError);
-      },
-      onSuccess: async () => {
-        if (!upload.url) {
-          reject(new Error("'upload.url' was not set"));
-          return;
-        }
-
-        // Call HEAD to get the metadata, including the skylink.
-        const resp = await this.executeRequest({
-          ...opts,
-          url: upload.url,
-          endpointPath: opts.endpointLargeUpload,
-          method: "head",
-          headers: { ...headers, "Tus-Resumable": "1.0.0" },
+  const source = await getTusSource(data);
+  throwIfAborted(opts.signal);
+
+  // tus requests can't report when the connection is up, so only a single timeout applies to them.
+  const { connect, overall } = normalizeTimeout(opts.timeout);
+  const requestTimeout = overall ?? connect;
+  const requestTimeoutPhase = overall ? "overall" : "connect";
+  const requestTimers = new Map<HttpRequest, ReturnType<typeof setTimeout>>();
+
+  // The chunks are sent by tus-js-client directly, so schedule the whole upload as a single request.
+  return this.scheduler.schedule(
+    "upload",
+    () =>
+      new Promise<TransportResponse>((resolve, reject) => {
+        const tusOpts = {
+          endpoint: url,
+          chunkSize: TUS_CHUNK_SIZE,
+          // tus-js-client rejects the upload size option for parallel uploads.
+          uploadSize: isStream ? data.size : undefined,
+          retryDelays: opts.retryDelays,
+          metadata: {
+            filename,
+            filetype: data.type,
+          },
+          parallelUploads,
+          headers,
+          urlStorage: getUploadUrlStorage(opts.urlStorage),
+          fingerprint: (file: File, options?: UploadOptions): Promise<string> =>
+            data instanceof Blob
+              ? computeUploadFingerprint(data, filename, url)
+              : // Streams can only be resumed if they are file streams.
+                (defaultOptions.fingerprint as NonNullable<UploadOptions["fingerprint"]>)(file, options),
+          removeFingerprintOnSuccess: true,
+          onProgress,
+          onShouldRetry: (error: Error) => {
+            // Same as the default of tus-js-client, which is replaced by this function.
+            // @ts-expect-error tus-client-js Error is not typed correctly.
+            const status = error.originalResponse?.getStatus() ?? 0;
+            const isOnline = typeof navigator === "undefined" || navigator.onLine !== false;
+            const shouldRetry = (status < 400 || status >= 500 || status === 409 || status === 423) && isOnline;
+            if (shouldRetry) {
+              // tus-js-client continues from the last uploaded byte.
+              tracker.retry(false);
+            }
+            return shouldRetry;
+          },
+          onBeforeRequest: function (req: HttpRequest) {
+            const xhr = req.getUnderlyingObject();
+            xhr.withCredentials = true;
+
+            // Time out each tus request, i.e. each chunk, separately.
+            if (requestTimeout) {
+              const timer = setTimeout(() => {
+                cleanUp();
+                upload.abort().catch(() => undefined);
+                reject(
+                  new TimeoutError(
+                    `Request timed out after ${requestTimeout} ms (${requestTimeoutPhase} timeout)`,
+                    requestTimeoutPhase,
+                    requestTimeout
+                  )
+                );
+              }, requestTimeout);
+              requestTimers.set(req, timer);
+            }
+          },
+          onAfterResponse: function (req: HttpRequest) {
+            const timer = requestTimers.get(req);
+            if (timer) {
+              clearTimeout(timer);
+              requestTimers.delete(req);
+            }
+          },
+          onError: (error: Error) => {
+            cleanUp();
+            // Return error body rather than entire error.
+            // @ts-expect-error tus-client-js Error is not typed correctly.
+            const res = error.originalResponse;
+            const newError = res
+              ? new UploadError(res.getBody().trim(), res.getStatus())
+              : new UploadError(error.message);
+            reject(newError);
+          },
+          onSuccess: async () => {
+            cleanUp();
+            if (!upload.url) {
+              reject(new UploadError("'upload.url' was not set"));
+              return;
+            }
+
+            // Call HEAD to get the metadata, including the skylink.
+            try {
+              const resp = await this.executeRequest({
+                ...opts,
+                url: upload.url,
+                endpointPath: opts.endpointLargeUpload,
+                method: "head",
+                headers: { ...headers, "Tus-Resumable": "1.0.0" },
+              });
+              resolve(resp);
+            } catch (err) {
+              reject(err);
+            }
+          },
+        };
+
+        const upload = new Upload(source, tusOpts);
+        const removeAbortListener = onAbort(opts.signal, () => {
+          upload.abort().catch(() => undefined);
+          reject(new AbortError());
         });
-        resolve(resp);
-      },
-    };
-
-    const upload = new Upload(file, tusOpts);
-    upload.start();
-  });
+        const cleanUp = () => {
+          removeAbortListener();
+          requestTimers.forEach((timer) => clearTimeout(timer));
+          requestTimers.clear();
+        };
+
+        // Resume the upload if the same data was partially uploaded before, e.g. before a page reload.
+        upload
+          .findPreviousUploads()
+          .then((previousUploads) => {
+            // The abort listener can't stop the upload before it is started.
+            if (opts.signal?.aborted) {
+              return;
+            }
+            if (previousUploads.length > 0) {
+              upload.resumeFromPreviousUpload(previousUploads[0]);
+            }
+            upload.start();
+          })
+          .catch((err) => {
+            cleanUp();
+            reject(err);
+          });
+      }),
+    opts.priority,
+    opts.signal
+  );
 }
 
 /**
  * Uploads a directory to Skynet.
  *
  * @param this - SkynetClient
- * @param directory - File objects to upload, indexed by their path strings.
+ * @param directory - File objects or Blobs to upload, indexed by their path strings.
  * @param filename - The name of the directory.
  * @param [customOptions] - Additional settings that can optionally be set.
  * @param [customOptions.endpointPath="/skynet/skyfile"] - The relative URL path of the portal endpoint to contact.
@@ -309,7 +637,7 @@ export async function uploadLargeFileRequest(
  */
 export async function uploadDirectory(
   this: SkynetClient,
-  directory: Record<string, File>,
+  directory: Record<string, File | Blob>,
   filename: string,
   customOptions?: CustomUploadOptions
 ): Promise<UploadRequestResponse> {
@@ -329,7 +657,7 @@ export async function uploadDirectory(
  * Makes a request to upload a directory to Skynet.
  *
  * @param this - SkynetClient
- * @param directory - File objects to upload, indexed by their path strings.
+ * @param directory - File objects or Blobs to upload, indexed by their path strings.
  * @param filename - The name of the directory.
  * @param [customOptions] - Additional settings that can optionally be set.
  * @param [customOptions.endpointPath="/skynet/skyfile"] - The relative URL path of the portal endpoint to contact.
@@ -338,10 +666,10 @@ export async function uploadDirectory(
  */
 export async function uploadDirectoryRequest(
   this: SkynetClient,
-  directory: Record<string, File>,
+  directory: Record<string, File | Blob>,
   filename: string,
   customOptions?: CustomUploadOptions
-): Promise<AxiosResponse> {
+): Promise<TransportResponse> {
   validateObject("directory", directory, "parameter");
   validateString("filename", filename, "parameter");
   validateOptionalObject("customOptions", customOptions, "parameter", DEFAULT_UPLOAD_OPTIONS);
@@ -350,8 +678,11 @@ export async function uploadDirectoryRequest(
 
   const formData = new FormData();
   Object.entries(directory).forEach(([path, file]) => {
-    file = ensureFileObjectConsistency(file as File);
-    formData.append(PORTAL_DIRECTORY_FILE_FIELD_NAME, file as File, path);
+    // Node.js versions before 20 don't have a global File.
+    if (typeof File !== "undefined" && file instanceof File) {
+      file = ensureFileObjectConsistency(file);
+    }
+    formData.append(PORTAL_DIRECTORY_FILE_FIELD_NAME, file, path);
   });
 
   const query: Record<string, unknown> = { filename };
@@ -361,6 +692,9 @@ export async function uploadDirectoryRequest(
   if (opts.errorPages) {
     query.errorpages = JSON.stringify(opts.errorPages);
   }
+  if (opts.dryRun) {
+    query.dryrun = true;
+  }
 
   const response = await this.executeRequest({
     ...opts,
@@ -387,6 +721,157 @@ function ensureFileObjectConsistency(file: File): File {
   return new File([file], file.name, { type: getFileMimeType(file) });
 }
 
+/**
+ * Returns whether the data should be uploaded using tus. Falls back to a
+ * regular upload if the portal doesn't support tus. Dry runs and skylink
+ * verification are not supported by tus.
+ *
+ * @param client - The Skynet client.
+ * @param size - The size of the data.
+ * @param opts - The upload options.
+ * @returns - Whether to use tus.
+ * @throws - Will throw if the data falls back to a regular upload and exceeds the maximum upload size of the portal.
+ */
+export async function isLargeUpload(
+  client: SkynetClient,
+  size: number,
+  opts: CustomUploadOptions & { largeFileSize: number }
+): Promise<boolean> {
+  if (size < opts.largeFileSize || opts.dryRun || opts.verifySkylink) {
+    return false;
+  }
+
+  const capabilities = await client.getPortalCapabilities({
+    ...extractOptions(opts, DEFAULT_BASE_OPTIONS),
+    endpointLargeUpload: opts.endpointLargeUpload,
+  });
+  if (!capabilities.endpoints.largeUpload) {
+    validateUploadSize(size, capabilities.maxUploadSize);
+  }
+  return capabilities.endpoints.largeUpload;
+}
+
+/**
+ * Validates the size of the data against a maximum upload size of the portal.
+ *
+ * @param size - The size of the data.
+ * @param maxSize - The maximum upload size, if limited.
+ * @throws - Will throw if the data exceeds the maximum upload size.
+ */
+function validateUploadSize(size: number, maxSize: number | undefined): void {
+  if (maxSize !== undefined && size > maxSize) {
+    throw new ValidationError(
+      `File size ${size} exceeds the maximum upload size of the portal (${maxSize} bytes)`,
+      "data",
+      "parameter"
+    );
+  }
+}
+
+/**
+ * Checks that the skylink returned by the portal commits to the uploaded
+ * data. The skylink is computed locally from the data and the metadata
+ * stored by the portal, which the skylink commits to as well.
+ *
+ * @param this - SkynetClient
+ * @param data - The uploaded data.
+ * @param filename - The filename of the upload.
+ * @param skylink - The skylink returned by the portal.
+ * @param opts - The upload options.
+ * @returns - An empty promise.
+ * @throws - Will throw if the skylink does not match the data.
+ */
+async function verifyUploadedSkylink(
+  this: SkynetClient,
+  data: Blob,
+  filename: string,
+  skylink: string,
+  opts: CustomUploadOptions
+): Promise<void> {
+  const endpointGetMetadata = DEFAULT_GET_METADATA_OPTIONS.endpointGetMetadata;
+  const url = await this.getSkylinkUrl(skylink, { endpointDownload: endpointGetMetadata });
+  // Keep the raw metadata, the skylink depends on its exact bytes.
+  const response = await this.executeRequest({
+    ...extractOptions(opts, DEFAULT_BASE_OPTIONS),
+    endpointPath: endpointGetMetadata,
+    method: "get",
+    url,
+    responseType: "text",
+    transformResponse: (metadata: string) => ({ metadata }),
+  });
+  const metadata = (response.data as { metadata: string }).metadata.replace(/\n$/, "");
+
+  const expectedSkylink = formatSkylink(await computeSkylink(data, filename, metadata));
+  if (skylink !== expectedSkylink) {
+    throw new UploadError(
+      `The skylink '${skylink}' returned by the portal does not match the uploaded data, expected '${expectedSkylink}'`
+    );
+  }
+}
+
+/* istanbul ignore next */
+/**
+ * Returns the source to pass to tus-js-client, which only accepts Buffers and
+ * streams in Node.
+ *
+ * @param data - The data to upload, or a Node.js stream.
+ * @returns - The tus source.
+ */
+async function getTusSource(data: Blob | UploadStreamSource): Promise<Blob> {
+  if ("stream" in data && !(data instanceof Blob)) {
+    // The Node build of tus-js-client is not reflected in its types.
+    return data.stream as unknown as Blob;
+  }
+  if (typeof window === "undefined") {
+    // The Node build of tus-js-client is not reflected in its types.
+    return Buffer.from(await data.arrayBuffer()) as unknown as Blob;
+  }
+  return data;
+}
+
+/**
+ * Validates the given value as upload data.
+ *
+ * @param name - The name of the value.
+ * @param value - The actual value.
+ * @param valueKind - The kind of value that is being checked (e.g. "parameter", "response field", etc.)
+ * @throws - Will throw if not valid upload data.
+ */
+function validateUploadData(name: string, value: unknown, valueKind: string) {
+  if (
+    !ArrayBuffer.isView(value) &&
+    !(value instanceof Blob) &&
+    // ArrayBuffers from other realms, e.g. iframes, are not instances of this realm's ArrayBuffer.
+    Object.prototype.toString.call(value) !== "[object ArrayBuffer]" &&
+    typeof value !== "string"
+  ) {
+    throwValidationError(name, value, valueKind, "type 'Uint8Array', 'Blob', 'string' or 'ArrayBuffer'");
+  }
+}
+
+/**
+ * Validates that the skylink of the upload can be verified, if requested.
+ *
+ * @param size - The size of the data.
+ * @param opts - The upload options.
+ * @throws - Will throw if the skylink of the upload can't be verified.
+ */
+function validateVerifiableUpload(size: number, opts: CustomUploadOptions): void {
+  if (!opts.verifySkylink) {
+    return;
+  }
+  if (opts.dryRun) {
+    throw new ValidationError("The 'verifySkylink' option can't be combined with 'dryRun'", "verifySkylink", "option");
+  }
+  if (size + SKYFILE_LAYOUT_SIZE > SECTOR_SIZE) {
+    throw new ValidationError(
+      `The 'verifySkylink' option is only supported for files which fit in the base sector, file size was ${size}`,
+      "verifySkylink",
+      "option"
+    );
+  }
+}
+
 /**
  * Validates the given value as a file.
  *
@@ -407,16 +892,20 @@ function validateFile(name: string, value: unknown, valueKind: string) {
  * @param response - The upload response.
  * @throws - Will throw if not a valid upload response.
  */
-function validateUploadResponse(response: AxiosResponse): void {
+function validateUploadResponse(
+  response: TransportResponse
+): asserts response is TransportResponse<{ skylink: string }> {
   try {
     if (!response.data) {
-      throw new Error("response.data field missing");
+      throw new ValidationError("response.data field missing", "response.data", "response field");
     }
 
-    validateString("skylink", response.data.skylink, "upload response field");
+    validateString("skylink", (response.data as { skylink?: unknown }).skylink, "upload response field");
   } catch (err) {
-    throw new Error(
-      `Did not get a complete upload response despite a successful request. Please try again and report this issue to the devs if it persists. ${err}`
+    throw new UploadError(
+      `Did not get a complete upload response despite a successful request. Please try again and report this issue to the devs if it persists. Error: ${
+        (err as Error).message
+      }`
     );
   }
 }
@@ -428,16 +917,18 @@ function validateUploadResponse(response: AxiosResponse): void {
  * @param response - The upload response.
  * @throws - Will throw if not a valid upload response.
  */
-function validateLargeUploadResponse(response: AxiosResponse): void {
+function validateLargeUploadResponse(response: TransportResponse): void {
   try {
     if (!response.headers) {
-      throw new Error("response.headers field missing");
+      throw new ValidationError("response.headers field missing", "response.headers", "response field");
     }
 
     validateString('response.headers["skynet-skylink"]', response.headers["skynet-skylink"], "upload response field");
   } catch (err) {
-    throw new Error(
-      `Did not get a complete upload response despite a successful request. Please try again and report this issue to the devs if it persists. Error: ${err}`
+    throw new UploadError(
+      `Did not get a complete upload response despite a successful request. Please try again and report this issue to the devs if it persists. Error: ${
+        (err as Error).message
+      }`
     );
   }
 }
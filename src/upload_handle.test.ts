@@ -0,0 +1,233 @@
+import axios from "axios";
+import MockAdapter from "axios-mock-adapter";
+import { PreviousUpload } from "tus-js-client";
+
+import { AbortError, SkynetClient, DEFAULT_SKYNET_PORTAL_URL, UploadHandle, UploadUrlStorage } from "./index";
+import { TransportRequest, TransportResponse } from "./transport";
+import { MemoryUrlStorage } from "./upload_handle";
+import { mockTusServer } from "../utils/testing";
+
+const portalUrl = DEFAULT_SKYNET_PORTAL_URL;
+const skylink = "XABvi7JtJbQSMAcDwnUnmp2FKDPjg8_tTTFP4BwMSxVdEg";
+const file = new File(["foo"], "foo.txt", { type: "text/plain" });
+
+/**
+ * Flushes pending promise callbacks.
+ */
+async function flush(): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe("UploadHandle", () => {
+  let requests: TransportRequest[];
+  // Completes the request in flight.
+  let complete: (() => void) | undefined;
+  let client: SkynetClient;
+
+  beforeEach(() => {
+    requests = [];
+    complete = undefined;
+    const transport = (request: TransportRequest): Promise<TransportResponse> => {
+      requests.push(request);
+      request.onUploadProgress?.({ loaded: 1, total: 3 } as ProgressEvent);
+      return new Promise((resolve, reject) => {
+        request.signal?.addEventListener("abort", () => reject(new AbortError()));
+        complete = () => {
+          request.onUploadProgress?.({ loaded: 3, total: 3 } as ProgressEvent);
+          resolve({ data: { skylink, merkleroot: "", bitfield: 0 }, status: 200, headers: {} });
+        };
+      });
+    };
+    client = new SkynetClient(portalUrl, { transport });
+  });
+
+  it("should return the skylink and report progress", async () => {
+    const onUploadProgress = jest.fn();
+    const onProgress = jest.fn();
+
+    const handle = client.uploadFile(file, { handle: true, onUploadProgress });
+    handle.onProgress(onProgress);
+    await flush();
+    complete?.();
+    const response = await handle.promise;
+
+    expect(handle).toBeInstanceOf(UploadHandle);
+    expect(response.skylink).toEqual(`sia://${skylink}`);
+    expect(handle.state).toEqual("completed");
+    expect(onUploadProgress.mock.calls.map(([progress]) => progress)).toEqual([1 / 3, 1]);
+    expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([1 / 3, 1]);
+  });
+
+  it("should cancel the request when paused and send it again when resumed", async () => {
+    const handle = client.uploadFile(file, { handle: true });
+    await flush();
+
+    handle.pause();
+    await flush();
+    expect(handle.state).toEqual("paused");
+    expect(requests.length).toEqual(1);
+    expect(requests[0].signal?.aborted).toBeTruthy();
+
+    handle.resume();
+    await flush();
+    expect(handle.state).toEqual("uploading");
+    expect(requests.length).toEqual(2);
+
+    complete?.();
+    await expect(handle.promise).resolves.toEqual({ skylink: `sia://${skylink}` });
+  });
+
+  it("should continue if resumed right after pausing", async () => {
+    const handle = client.uploadFile(file, { handle: true });
+    await flush();
+
+    handle.pause();
+    handle.resume();
+    await flush();
+    expect(handle.state).toEqual("uploading");
+    expect(requests.length).toEqual(2);
+
+    complete?.();
+    await expect(handle.promise).resolves.toEqual({ skylink: `sia://${skylink}` });
+    expect(handle.state).toEqual("completed");
+  });
+
+  it("should reject with an AbortError when aborted", async () => {
+    const handle = client.uploadFile(file, { handle: true });
+    await flush();
+
+    handle.abort();
+
+    await expect(handle.promise).rejects.toThrowError(AbortError);
+    expect(handle.state).toEqual("aborted");
+    expect(requests[0].signal?.aborted).toBeTruthy();
+  });
+
+  it("should reject with an AbortError when aborted while paused", async () => {
+    const handle = client.uploadFile(file, { handle: true });
+    await flush();
+    handle.pause();
+    await flush();
+
+    handle.abort();
+
+    await expect(handle.promise).rejects.toThrowError(AbortError);
+    expect(handle.state).toEqual("aborted");
+    expect(requests.length).toEqual(1);
+  });
+
+  it("should abort the upload when the signal is aborted", async () => {
+    const controller = new AbortController();
+    const handle = client.uploadFile(file, { handle: true, signal: controller.signal });
+    await flush();
+
+    controller.abort();
+
+    await expect(handle.promise).rejects.toThrowError(AbortError);
+    expect(handle.state).toEqual("aborted");
+  });
+
+  it("should fail if the upload fails", async () => {
+    const client = new SkynetClient(portalUrl, {
+      transport: async () => {
+        throw new Error("Network Error");
+      },
+    });
+
+    const handle = client.uploadFile(file, { handle: true });
+
+    await expect(handle.promise).rejects.toThrowError("Network Error");
+    expect(handle.state).toEqual("failed");
+    // Finished uploads can't be paused.
+    handle.pause();
+    expect(handle.state).toEqual("failed");
+  });
+});
+
+describe("UploadHandle with tus", () => {
+  const endpoint = `${portalUrl}/skynet/tus`;
+  let mock: MockAdapter;
+
+  beforeEach(async () => {
+    mock = new MockAdapter(axios);
+    mock.onHead(portalUrl).reply(200, {}, { "skynet-portal-api": portalUrl });
+    mock.onOptions(endpoint).reply(204, undefined, { "tus-extension": "creation" });
+    mock.onOptions().reply(404);
+    mock.onGet().reply(404);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should not start a second upload if paused while looking for previous uploads", async () => {
+    // Blocks the first lookup until it is finished by the test.
+    let finishLookup: (() => void) | undefined;
+    const urlStorage: UploadUrlStorage = {
+      findAllUploads: async () => [],
+      findUploadsByFingerprint: () =>
+        finishLookup ? Promise.resolve([]) : new Promise((resolve) => (finishLookup = () => resolve([]))),
+      removeUpload: async () => undefined,
+      addUpload: async () => "tus::foo::1",
+    };
+    const client = new SkynetClient(portalUrl, { urlStorage });
+    await client.invalidatePortalCapabilities();
+    const requests = mockTusServer(endpoint);
+    mock.onHead(`${endpoint}/0`).replyOnce(200, {}, { "skynet-skylink": skylink });
+
+    const handle = client.uploadFile(file, { handle: true, largeFileSize: 1 });
+    while (!finishLookup) {
+      await flush();
+    }
+    handle.pause();
+    finishLookup();
+    await flush();
+    expect(handle.state).toEqual("paused");
+    expect(requests).toEqual([]);
+
+    handle.resume();
+
+    await expect(handle.promise).resolves.toEqual({ skylink: `sia://${skylink}` });
+    expect(requests.map(({ method }) => method)).toEqual(["POST", "PATCH"]);
+  });
+});
+
+describe("MemoryUrlStorage", () => {
+  const upload = { size: 3, metadata: {}, creationTime: "now" };
+
+  it("should keep uploads in memory if the storage doesn't store them", async () => {
+    const storage = {
+      findAllUploads: async () => [],
+      findUploadsByFingerprint: async () => [],
+      removeUpload: async () => undefined,
+      addUpload: async () => null,
+    } as unknown as UploadUrlStorage;
+    const memoryStorage = new MemoryUrlStorage(storage);
+
+    const key = await memoryStorage.addUpload("foo", upload);
+
+    expect(await memoryStorage.findUploadsByFingerprint("foo")).toEqual([{ ...upload, urlStorageKey: key }]);
+    expect(await memoryStorage.findUploadsByFingerprint("bar")).toEqual([]);
+    await memoryStorage.removeUpload(key);
+    expect(await memoryStorage.findUploadsByFingerprint("foo")).toEqual([]);
+  });
+
+  it("should also update the storage", async () => {
+    const stored: PreviousUpload[] = [];
+    const storage = {
+      findAllUploads: async () => stored,
+      findUploadsByFingerprint: async () => stored,
+      removeUpload: jest.fn(),
+      addUpload: async (_: string, upload: PreviousUpload) => {
+        stored.push(upload);
+        return "tus::foo::1";
+      },
+    };
+    const memoryStorage = new MemoryUrlStorage(storage);
+
+    expect(await memoryStorage.addUpload("foo", upload)).toEqual("tus::foo::1");
+    expect(await memoryStorage.findAllUploads()).toEqual([upload]);
+    await memoryStorage.removeUpload("tus::foo::1");
+    expect(storage.removeUpload).toHaveBeenCalledWith("tus::foo::1");
+  });
+});
@@ -0,0 +1,226 @@
+import type { PreviousUpload } from "tus-js-client";
+
+import { AbortError } from "./errors";
+import { UploadProgress } from "./progress";
+import { UploadUrlStorage } from "./resumable_upload";
+import type { UploadRequestResponse } from "./upload";
+import { createLinkedAbortController, onAbort } from "./utils/abort";
+
+/**
+ * The state of an upload controlled by an `UploadHandle`.
+ */
+export type UploadState = "uploading" | "paused" | "completed" | "failed" | "aborted";
+
+/**
+ * Receives the progress of an upload. Same as `onUploadProgress`.
+ */
+export type UploadProgressListener = (progress: number, event: ProgressEvent, details: UploadProgress) => void;
+
+/**
+ * Starts an upload attempt.
+ */
+type StartUpload = (signal: AbortSignal, onUploadProgress: UploadProgressListener) => Promise<UploadRequestResponse>;
+
+/**
+ * Controls a running upload. Returned by `uploadFile` with the `handle`
+ * option.
+ *
+ * Pausing cancels the requests in flight and frees the concurrency slot of
+ * the upload. Large uploads continue from the last uploaded chunk when they
+ * are resumed, small uploads start over.
+ */
+export class UploadHandle {
+  // Resolves with the skylink once the upload completed. Rejects with an `AbortError` if the upload was aborted.
+  readonly promise: Promise<UploadRequestResponse>;
+  // The current state of the upload.
+  state: UploadState = "uploading";
+
+  protected listeners = new Set<UploadProgressListener>();
+  // Aborts the whole upload.
+  protected controller: AbortController;
+  // Aborts the current attempt when the upload is paused.
+  protected attemptController?: AbortController;
+  // Wakes up the paused upload.
+  protected wakeUp?: () => void;
+
+  /**
+   * Creates an upload handle and starts the upload.
+   *
+   * @param start - Starts an upload attempt. Called again after the upload was resumed.
+   * @param [signal] - Aborts the upload.
+   */
+  constructor(start: StartUpload, signal?: AbortSignal) {
+    const [controller, unlinkController] = createLinkedAbortController(signal);
+    this.controller = controller;
+    this.promise = this.run(start).finally(unlinkController);
+  }
+
+  /**
+   * Pauses the upload. Does nothing if the upload is not running.
+   */
+  pause(): void {
+    if (this.state !== "uploading") {
+      return;
+    }
+    this.state = "paused";
+    this.attemptController?.abort();
+  }
+
+  /**
+   * Resumes the paused upload. Does nothing if the upload is not paused.
+   */
+  resume(): void {
+    if (this.state !== "paused") {
+      return;
+    }
+    this.state = "uploading";
+    this.wakeUp?.();
+  }
+
+  /**
+   * Aborts the upload. The promise of the handle rejects with an `AbortError`.
+   * Does nothing if the upload already finished.
+   */
+  abort(): void {
+    if (this.state !== "uploading" && this.state !== "paused") {
+      return;
+    }
+    this.controller.abort();
+  }
+
+  /**
+   * Adds a listener for the progress of the upload.
+   *
+   * @param listener - The listener.
+   * @returns - A function which removes the listener again.
+   */
+  onProgress(listener: UploadProgressListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Runs upload attempts until the upload completed, failed or was aborted.
+   *
+   * @param start - Starts an upload attempt.
+   * @returns - The upload response.
+   */
+  protected async run(start: StartUpload): Promise<UploadRequestResponse> {
+    for (;;) {
+      let attemptSignal: AbortSignal | undefined;
+      try {
+        await this.waitWhilePaused();
+
+        const [attemptController, unlinkAttemptController] = createLinkedAbortController(this.controller.signal);
+        this.attemptController = attemptController;
+        attemptSignal = attemptController.signal;
+        try {
+          const response = await start(attemptController.signal, (progress, event, details) => {
+            this.listeners.forEach((listener) => listener(progress, event, details));
+          });
+          this.state = "completed";
+          return response;
+        } finally {
+          unlinkAttemptController();
+        }
+      } catch (err) {
+        if (this.controller.signal.aborted) {
+          this.state = "aborted";
+          throw new AbortError();
+        }
+        if (err instanceof AbortError && attemptSignal?.aborted) {
+          // The attempt was cancelled by `pause()`. The upload may already be resumed again.
+          continue;
+        }
+        this.state = "failed";
+        throw err;
+      }
+    }
+  }
+
+  /**
+   * Waits until the upload is resumed, if it is paused.
+   *
+   * @returns - An empty promise.
+   * @throws - Will throw an `AbortError` if the upload is aborted while waiting.
+   */
+  protected waitWhilePaused(): Promise<void> {
+    if (this.state !== "paused") {
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      const removeAbortListener = onAbort(this.controller.signal, () => reject(new AbortError()));
+      this.wakeUp = () => {
+        removeAbortListener();
+        this.wakeUp = undefined;
+        resolve();
+      };
+    });
+  }
+}
+
+/**
+ * A URL storage which also keeps the uploads of the current process in
+ * memory. Used by upload handles, so that paused large uploads can be resumed
+ * even if the configured storage doesn't store anything.
+ */
+export class MemoryUrlStorage implements UploadUrlStorage {
+  protected uploads = new Map<string, PreviousUpload>();
+  protected nextId = 0;
+
+  /**
+   * Creates a memory URL storage.
+   *
+   * @param storage - The configured storage, which is also updated.
+   */
+  constructor(protected storage: UploadUrlStorage) {}
+
+  /**
+   * Returns all uploads of the configured storage.
+   *
+   * @returns - The stored uploads.
+   */
+  findAllUploads(): Promise<PreviousUpload[]> {
+    return this.storage.findAllUploads();
+  }
+
+  /**
+   * Returns the uploads with the given fingerprint, from memory if possible.
+   *
+   * @param fingerprint - The fingerprint of the upload.
+   * @returns - The stored uploads.
+   */
+  async findUploadsByFingerprint(fingerprint: string): Promise<PreviousUpload[]> {
+    const uploads = Array.from(this.uploads.entries())
+      .filter(([key]) => key.startsWith(`tus::${fingerprint}::`))
+      .map(([key, upload]) => ({ ...upload, urlStorageKey: key }));
+    if (uploads.length > 0) {
+      return uploads;
+    }
+    return this.storage.findUploadsByFingerprint(fingerprint);
+  }
+
+  /**
+   * Removes the upload with the given key from memory and the configured storage.
+   *
+   * @param urlStorageKey - The key of the upload.
+   */
+  async removeUpload(urlStorageKey: string): Promise<void> {
+    this.uploads.delete(urlStorageKey);
+    await this.storage.removeUpload(urlStorageKey);
+  }
+
+  /**
+   * Stores an upload in memory and the configured storage.
+   *
+   * @param fingerprint - The fingerprint of the upload.
+   * @param upload - The upload.
+   * @returns - The key of the upload, used to remove it.
+   */
+  async addUpload(fingerprint: string, upload: PreviousUpload): Promise<string> {
+    // Storages which don't store anything return no key.
+    const key = (await this.storage.addUpload(fingerprint, upload)) ?? `tus::${fingerprint}::memory-${this.nextId++}`;
+    this.uploads.set(key, upload);
+    return key;
+  }
+}
@@ -0,0 +1,70 @@
+import { AbortError } from "../errors";
+
+/**
+ * Throws if the given signal was aborted.
+ *
+ * @param [signal] - The abort signal.
+ * @throws - Will throw an `AbortError` if the signal was aborted.
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new AbortError();
+  }
+}
+
+/**
+ * Calls the callback when the given signal is aborted.
+ *
+ * @param signal - The abort signal.
+ * @param onAbort - The callback.
+ * @returns - A function which removes the listener again.
+ */
+export function onAbort(signal: AbortSignal | undefined, onAbort: () => void): () => void {
+  if (!signal) {
+    return () => undefined;
+  }
+  signal.addEventListener("abort", onAbort);
+  return () => signal.removeEventListener("abort", onAbort);
+}
+
+/**
+ * Creates an abort controller which is also aborted when the given parent
+ * signal is aborted. Used by operations that run several requests in parallel
+ * and need to cancel the remaining ones when one of them fails.
+ *
+ * @param [parent] - The parent signal.
+ * @returns - The linked controller and a function which unlinks it from the parent once done.
+ */
+export function createLinkedAbortController(parent?: AbortSignal): [AbortController, () => void] {
+  const controller = new AbortController();
+  if (parent?.aborted) {
+    controller.abort();
+  }
+  const unlink = onAbort(parent, () => controller.abort());
+  return [controller, unlink];
+}
+
+/**
+ * Waits for the given number of ms.
+ *
+ * @param ms - The number of ms to wait.
+ * @param [signal] - The abort signal.
+ * @returns - An empty promise.
+ * @throws - Will throw an `AbortError` if the signal is aborted while waiting.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortError());
+      return;
+    }
+    const removeListener = onAbort(signal, () => {
+      clearTimeout(timer);
+      reject(new AbortError());
+    });
+    const timer = setTimeout(() => {
+      removeListener();
+      resolve();
+    }, ms);
+  });
+}
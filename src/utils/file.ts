@@ -54,7 +54,17 @@ export function getRootDirectory(file: File): string {
  */
 export function getFileMimeType(file: File): string {
   if (file.type) return file.type;
-  let ext = path.extname(file.name);
+  return getMimeTypeFromFilename(file.name);
+}
+
+/**
+ * Guess the mime type based on the extension of the filename.
+ *
+ * @param filename - The filename.
+ * @returns - The mime type, or "" if it could not be guessed.
+ */
+export function getMimeTypeFromFilename(filename: string): string {
+  let ext = path.extname(filename);
   ext = trimPrefix(ext, ".");
   if (ext !== "") {
     const mimeType = mime.getType(ext);
@@ -64,3 +74,22 @@ export function getFileMimeType(file: File): string {
   }
   return "";
 }
+
+/**
+ * Reads the content of a Blob.
+ *
+ * @param blob - The Blob.
+ * @returns - The content.
+ */
+export function readBlob(blob: Blob): Promise<Uint8Array> {
+  if (typeof blob.arrayBuffer === "function") {
+    return blob.arrayBuffer().then((buffer) => new Uint8Array(buffer));
+  }
+  // Older browsers and jsdom don't support `Blob.arrayBuffer`.
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
@@ -1,3 +1,4 @@
+import { ValidationError } from "../errors";
 import { validateBigint } from "./validation";
 
 /**
@@ -16,10 +17,10 @@ export function assertUint64(int: bigint): void {
   validateBigint("int", int, "parameter");
 
   if (int < BigInt(0)) {
-    throw new Error(`Argument ${int} must be an unsigned 64-bit integer; was negative`);
+    throw new ValidationError(`Argument ${int} must be an unsigned 64-bit integer; was negative`);
   }
 
   if (int > MAX_REVISION) {
-    throw new Error(`Argument ${int} does not fit in a 64-bit unsigned integer; exceeds 2^64-1`);
+    throw new ValidationError(`Argument ${int} does not fit in a 64-bit unsigned integer; exceeds 2^64-1`);
   }
 }
@@ -1,4 +1,5 @@
 import { CustomClientOptions } from "../client";
+import { ValidationError } from "../errors";
 
 /**
  * Base custom options for methods hitting the API.
@@ -14,6 +15,16 @@ export const DEFAULT_BASE_OPTIONS = {
   customCookie: "",
   onDownloadProgress: undefined,
   onUploadProgress: undefined,
+  retry: undefined,
+  transport: undefined,
+  signal: undefined,
+  timeout: undefined,
+  concurrency: undefined,
+  priority: undefined,
+  urlStorage: undefined,
+  logger: undefined,
+  tracer: undefined,
+  parentSpan: undefined,
 };
 
 /**
@@ -33,7 +44,7 @@ export function extractOptions<T extends Record<string, unknown>>(opts: Record<s
     }
     // Throw if the given options don't contain the model's property.
     if (!Object.prototype.hasOwnProperty.call(opts, property)) {
-      throw new Error(`Property '${property}' not found`);
+      throw new ValidationError(`Property '${property}' not found`, property, "option");
     }
     result[property] = opts[property];
   }
@@ -0,0 +1,70 @@
+import { Readable } from "stream";
+
+import { iterateWebReadableStream, toWebReadableStream } from "./stream";
+
+describe("toWebReadableStream", () => {
+  const globals = global as { ReadableStream?: unknown };
+
+  beforeEach(() => {
+    // jsdom doesn't provide web streams, use the implementation of Node.js.
+    globals.ReadableStream = jest.requireActual("stream/web").ReadableStream;
+  });
+
+  afterEach(() => {
+    delete globals.ReadableStream;
+  });
+
+  /**
+   * Reads all chunks of the web stream.
+   *
+   * @param stream - The web stream.
+   * @returns - The chunks.
+   */
+  async function readChunks(stream: ReadableStream<Uint8Array> | undefined): Promise<number[][]> {
+    const chunks = [];
+    for await (const chunk of iterateWebReadableStream(stream as ReadableStream<Uint8Array>)) {
+      chunks.push(Array.from(chunk));
+    }
+    return chunks;
+  }
+
+  it("should convert a Node.js stream", async () => {
+    const body = Readable.from([Buffer.from([1, 2, 3]), Buffer.from([4, 5, 6])]);
+
+    await expect(readChunks(toWebReadableStream(body))).resolves.toEqual([
+      [1, 2, 3],
+      [4, 5, 6],
+    ]);
+  });
+
+  it("should only read the Node.js stream when chunks are requested", async () => {
+    const read = jest.fn(function* () {
+      yield Buffer.from([1]);
+      yield Buffer.from([2]);
+    });
+    const body = Readable.from(read());
+
+    const stream = toWebReadableStream(body) as ReadableStream<Uint8Array>;
+    const reader = stream.getReader();
+    await reader.read();
+    await reader.cancel();
+
+    expect(body.destroyed).toBeTruthy();
+  });
+
+  it.each([
+    ["bytes", new Uint8Array([1, 2, 3]), [[1, 2, 3]]],
+    ["an ArrayBuffer", new Uint8Array([1, 2, 3]).buffer, [[1, 2, 3]]],
+    ["a string", "foo", [[102, 111, 111]]],
+    ["a Blob", new Blob(["foo"]), [[102, 111, 111]]],
+    ["an empty body", undefined, []],
+  ])("should convert a buffered body of %s", async (_, body, expectedChunks) => {
+    await expect(readChunks(toWebReadableStream(body))).resolves.toEqual(expectedChunks);
+  });
+
+  it("should return undefined if web streams are not available", () => {
+    delete globals.ReadableStream;
+
+    expect(toWebReadableStream("foo")).toBeUndefined();
+  });
+});
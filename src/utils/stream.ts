@@ -0,0 +1,137 @@
+import { readBlob } from "./file";
+import { stringToUint8ArrayUtf8 } from "./string";
+
+/**
+ * Converts a response body to a web stream. The fetch transport returns web
+ * streams, the axios transport returns Node.js streams in Node and buffers the
+ * whole response in browsers.
+ *
+ * @param body - The response body.
+ * @returns - The web stream, or undefined if web streams are not available, e.g. in Node.js before 18.
+ */
+export function toWebReadableStream(body: unknown): ReadableStream<Uint8Array> | undefined {
+  if (isWebReadableStream(body)) {
+    return body;
+  }
+  if (typeof ReadableStream === "undefined") {
+    return undefined;
+  }
+
+  if (isAsyncIterable(body)) {
+    // Node.js streams are async iterables. Only read the next chunk when it is requested, to keep backpressure.
+    const iterator = body[Symbol.asyncIterator]();
+    return new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        const { done, value } = await iterator.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(toUint8Array(value));
+        }
+      },
+      async cancel() {
+        await iterator.return?.();
+      },
+    });
+  }
+
+  // The response was buffered.
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      if (body !== undefined && body !== null) {
+        controller.enqueue(await bodyToUint8Array(body));
+      }
+      controller.close();
+    },
+  });
+}
+
+/**
+ * Reads the chunks of a response body without converting it to a web stream.
+ * See `toWebReadableStream`.
+ *
+ * @param body - The response body.
+ * @yields - The chunks.
+ */
+export async function* iterateResponseBody(body: unknown): AsyncGenerator<Uint8Array> {
+  if (isWebReadableStream(body)) {
+    yield* iterateWebReadableStream(body);
+  } else if (isAsyncIterable(body)) {
+    for await (const chunk of body) {
+      yield toUint8Array(chunk);
+    }
+  } else if (body !== undefined && body !== null) {
+    // The response was buffered.
+    yield await bodyToUint8Array(body);
+  }
+}
+
+/**
+ * Reads the chunks of a web stream.
+ *
+ * @param stream - The web stream.
+ * @yields - The chunks.
+ */
+export async function* iterateWebReadableStream<T>(stream: ReadableStream<T>): AsyncGenerator<T> {
+  const reader = stream.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done || value === undefined) {
+        return;
+      }
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Returns whether the response body is a web stream.
+ *
+ * @param body - The response body.
+ * @returns - Whether the body is a web stream.
+ */
+function isWebReadableStream(body: unknown): body is ReadableStream<Uint8Array> {
+  return typeof (body as ReadableStream | undefined)?.getReader === "function";
+}
+
+/**
+ * Returns whether the response body is an async iterable, e.g. a Node.js stream.
+ *
+ * @param body - The response body.
+ * @returns - Whether the body is an async iterable.
+ */
+function isAsyncIterable(body: unknown): body is AsyncIterable<unknown> {
+  return typeof (body as AsyncIterable<unknown> | undefined)?.[Symbol.asyncIterator] === "function";
+}
+
+/**
+ * Converts a buffered response body to bytes.
+ *
+ * @param body - The response body.
+ * @returns - The bytes.
+ */
+async function bodyToUint8Array(body: unknown): Promise<Uint8Array> {
+  if (typeof body === "string") {
+    return stringToUint8ArrayUtf8(body);
+  }
+  if (body instanceof Blob) {
+    return readBlob(body);
+  }
+  return toUint8Array(body);
+}
+
+/**
+ * Converts a chunk to a Uint8Array.
+ *
+ * @param chunk - A chunk, either a typed array, e.g. a Node.js Buffer, or an ArrayBuffer.
+ * @returns - The bytes.
+ */
+export function toUint8Array(chunk: unknown): Uint8Array {
+  if (ArrayBuffer.isView(chunk)) {
+    return new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+  }
+  return new Uint8Array(chunk as ArrayBuffer);
+}
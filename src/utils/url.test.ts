@@ -1,6 +1,13 @@
 import { combineStrings } from "../../utils/testing";
 import { trimPrefix, trimSuffix } from "./string";
-import { addUrlQuery, defaultSkynetPortalUrl, getFullDomainUrlForPortal, extractDomainForPortal, makeUrl } from "./url";
+import {
+  addUrlQuery,
+  defaultSkynetPortalUrl,
+  getFullDomainUrlForPortal,
+  extractDomainForPortal,
+  makeUrl,
+  replacePortalInUrl,
+} from "./url";
 
 const portalUrl = defaultSkynetPortalUrl;
 const skylink = "XABvi7JtJbQSMAcDwnUnmp2FKDPjg8_tTTFP4BwMSxVdEg";
@@ -152,6 +159,23 @@ describe("makeUrl", () => {
   });
 });
 
+describe("replacePortalInUrl", () => {
+  const toPortalUrl = "https://example.com";
+  const cases: Array<[string, string | null]> = [
+    [`${portalUrl}/${skylink}`, `${toPortalUrl}/${skylink}`],
+    [`${portalUrl}/${skylink}/`, `${toPortalUrl}/${skylink}/`],
+    [`${portalUrl}/skynet/registry?foo=bar`, `${toPortalUrl}/skynet/registry?foo=bar`],
+    [`https://${skylinkBase32}.siasky.net/dir`, `https://${skylinkBase32}.example.com/dir`],
+    [`http://siasky.net/${skylink}`, `${toPortalUrl}/${skylink}`],
+    [`https://siasky.dev/${skylink}`, null],
+    [`https://notsiasky.net/${skylink}`, null],
+  ];
+
+  it.each(cases)("should replace the portal in URL %s to form URL %s", (inputUrl, expectedUrl) => {
+    expect(replacePortalInUrl(inputUrl, portalUrl, toPortalUrl)).toEqual(expectedUrl);
+  });
+});
+
 describe("trimPrefix", () => {
   it("should trim the prefix with limit if passed", () => {
     expect(trimPrefix("//asdf", "/", 1)).toEqual("/asdf");
@@ -78,6 +78,34 @@ export function addSubdomain(url: string, subdomain: string): string {
   return trimSuffix(str, "/");
 }
 
+/**
+ * Replaces the portal in the given URL with another portal, keeping any subdomains, path and query,
+ * e.g. ("https://hns.siasky.net/foo", "https://siasky.net", "https://example.com") => "https://hns.example.com/foo"
+ *
+ * @param url - The URL.
+ * @param fromPortalUrl - The portal to replace.
+ * @param toPortalUrl - The portal to replace it with.
+ * @returns - The final URL, or null if the URL does not belong to the portal being replaced.
+ */
+export function replacePortalInUrl(url: string, fromPortalUrl: string, toPortalUrl: string): string | null {
+  const urlObj = new URL(url);
+  const fromHost = new URL(fromPortalUrl).host;
+  const toPortalUrlObj = new URL(toPortalUrl);
+
+  if (urlObj.host === fromHost) {
+    urlObj.host = toPortalUrlObj.host;
+  } else if (urlObj.host.endsWith(`.${fromHost}`)) {
+    urlObj.host = `${urlObj.host.slice(0, -fromHost.length)}${toPortalUrlObj.host}`;
+  } else {
+    return null;
+  }
+  urlObj.protocol = toPortalUrlObj.protocol;
+
+  const str = urlObj.toString();
+  // Don't add a trailing slash if the input URL did not have one.
+  return url.endsWith("/") ? str : trimSuffix(str, "/");
+}
+
 /**
  * Adds a query to the given URL.
  *
@@ -1,3 +1,4 @@
+import { ValidationError } from "../errors";
 import { parseSkylink } from "../skylink/parse";
 import { isHexString } from "./string";
 
@@ -70,7 +71,11 @@ export function validateOptionalObject(
   // Check if all given properties of value also exist in the model.
   for (const property in value as Record<string, unknown>) {
     if (!(property in model)) {
-      throw new Error(`Object ${valueKind} '${name}' contains unexpected property '${property}'`);
+      throw new ValidationError(
+        `Object ${valueKind} '${name}' contains unexpected property '${property}'`,
+        name,
+        valueKind
+      );
     }
   }
 }
@@ -117,7 +122,7 @@ export function validateSkylinkString(name: string, value: unknown, valueKind: s
  * @param valueKind - The kind of value that is being checked (e.g. "parameter", "response field", etc.)
  * @throws - Will throw if not a valid string.
  */
-export function validateString(name: string, value: unknown, valueKind: string): void {
+export function validateString(name: string, value: unknown, valueKind: string): asserts value is string {
   if (typeof value !== "string") {
     throwValidationError(name, value, valueKind, "type 'string'");
   }
@@ -204,5 +209,5 @@ export function throwValidationError(name: string, value: unknown, valueKind: st
   } else {
     actualValue = `type '${typeof value}', value '${value}'`;
   }
-  throw new Error(`Expected ${valueKind} '${name}' to be ${expected}, was ${actualValue}`);
+  throw new ValidationError(`Expected ${valueKind} '${name}' to be ${expected}, was ${actualValue}`, name, valueKind);
 }
@@ -0,0 +1,239 @@
+import { Buffer } from "buffer";
+
+import { genKeyPairFromSeed, hashDataKey } from "./crypto";
+import { ContentVerificationError, SignatureVerificationError, SkynetClient } from "./index";
+import { signEntry } from "./registry";
+import { computeSectorMerkleRoot, SKYFILE_LAYOUT_SIZE } from "./skylink/compute";
+import { newEd25519PublicKey, newSkylinkV1, newSkylinkV2, SiaSkylink } from "./skylink/sia";
+import { TransportRequest, TransportResponse } from "./transport";
+import { stringToUint8ArrayUtf8, toHexString } from "./utils/string";
+
+const portalUrl = "https://siasky.net";
+
+/**
+ * Builds the base sector of a skyfile.
+ *
+ * @param data - The content of the skyfile, empty if it has a fanout.
+ * @param metadata - The metadata of the skyfile.
+ * @param [fanout] - The fanout of a skyfile which does not fit in the base sector.
+ * @param fanout.roots - The Merkle roots of the pieces.
+ * @param fanout.filesize - The size of the content.
+ * @param fanout.dataPieces - The number of data pieces per chunk.
+ * @param fanout.parityPieces - The number of parity pieces per chunk.
+ * @returns - The base sector.
+ */
+function buildBaseSector(
+  data: Uint8Array,
+  metadata: Record<string, unknown>,
+  fanout?: { roots: Uint8Array; filesize: number; dataPieces: number; parityPieces: number }
+): Uint8Array {
+  const metadataBytes = stringToUint8ArrayUtf8(JSON.stringify(metadata));
+  const fanoutBytes = fanout?.roots ?? new Uint8Array(0);
+  const baseSector = new Uint8Array(SKYFILE_LAYOUT_SIZE + fanoutBytes.length + metadataBytes.length + data.length);
+  const view = new DataView(baseSector.buffer);
+  view.setUint8(0, 1);
+  view.setUint32(1, fanout?.filesize ?? data.length, true);
+  view.setUint32(9, metadataBytes.length, true);
+  view.setUint32(17, fanoutBytes.length, true);
+  view.setUint8(25, fanout?.dataPieces ?? 0);
+  view.setUint8(26, fanout?.parityPieces ?? 0);
+  view.setUint8(34, 1);
+  baseSector.set(fanoutBytes, SKYFILE_LAYOUT_SIZE);
+  baseSector.set(metadataBytes, SKYFILE_LAYOUT_SIZE + fanoutBytes.length);
+  baseSector.set(data, SKYFILE_LAYOUT_SIZE + fanoutBytes.length + metadataBytes.length);
+  return baseSector;
+}
+
+/**
+ * Returns the v1 skylink of the base sector.
+ *
+ * @param baseSector - The base sector.
+ * @returns - The skylink.
+ */
+function getSkylink(baseSector: Uint8Array): string {
+  return newSkylinkV1(computeSectorMerkleRoot(baseSector), 0, baseSector.length).toString();
+}
+
+/**
+ * Creates a transport which serves the base sector and the content.
+ *
+ * @param requests - Receives the URL of every request.
+ * @param baseSector - The base sector to return.
+ * @param [content] - The content to return.
+ * @param [headers] - Additional headers of the base sector response.
+ * @returns - The transport.
+ */
+function createTransport(
+  requests: string[],
+  baseSector: Uint8Array,
+  content?: Uint8Array,
+  headers?: Record<string, string>
+): (request: TransportRequest) => Promise<TransportResponse> {
+  return async (request) => {
+    requests.push(request.url);
+    if (request.url.includes("/skynet/basesector/")) {
+      return { data: baseSector.slice().buffer, status: 200, headers: { "skynet-portal-api": portalUrl, ...headers } };
+    }
+    return { data: content?.slice().buffer, status: 200, headers: {} };
+  };
+}
+
+describe("getFileContent with verify", () => {
+  const data = stringToUint8ArrayUtf8("foo bar");
+  const metadata = { filename: "foo.txt", length: 7, subfiles: { "foo.txt": { contenttype: "text/plain", len: 7 } } };
+  const baseSector = buildBaseSector(data, metadata);
+  const skylink = getSkylink(baseSector);
+  let requests: string[];
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  it("should return the verified content of a small file", async () => {
+    const client = new SkynetClient(portalUrl, { transport: createTransport(requests, baseSector) });
+
+    const response = await client.getFileContent(skylink, { verify: true });
+
+    expect(response).toEqual({ data: "foo bar", contentType: "text/plain", portalUrl, skylink: `sia://${skylink}` });
+    expect(requests).toEqual([`${portalUrl}/skynet/basesector/${skylink}`]);
+  });
+
+  it("should throw if the base sector does not match the skylink", async () => {
+    const tampered = buildBaseSector(stringToUint8ArrayUtf8("foo baz"), metadata);
+    const client = new SkynetClient(portalUrl, { transport: createTransport(requests, tampered) });
+
+    const promise = client.getFileContent(skylink, { verify: true });
+
+    await expect(promise).rejects.toThrowError(ContentVerificationError);
+    await expect(promise).rejects.toThrowError(`The base sector does not match the Merkle root of '${skylink}'`);
+  });
+
+  it("should verify the content against the fanout", async () => {
+    // Two data pieces are built from stripes of two segments.
+    const content = Uint8Array.from({ length: 200 }, (_, i) => i);
+    const piece0 = new Uint8Array([...content.slice(0, 64), ...content.slice(128, 192)]);
+    const piece1 = new Uint8Array([...content.slice(64, 128), ...content.slice(192)]);
+    const roots = new Uint8Array(96);
+    roots.set(computeSectorMerkleRoot(piece0), 0);
+    roots.set(computeSectorMerkleRoot(piece1), 32);
+    const fanoutMetadata = { filename: "bar.bin", length: 200, subfiles: { "bar.bin": { len: 200 } } };
+    const fanoutBaseSector = buildBaseSector(new Uint8Array(0), fanoutMetadata, {
+      roots,
+      filesize: 200,
+      dataPieces: 2,
+      parityPieces: 1,
+    });
+    const fanoutSkylink = getSkylink(fanoutBaseSector);
+    const client = new SkynetClient(portalUrl, { transport: createTransport(requests, fanoutBaseSector, content) });
+
+    const response = await client.getFileContent(fanoutSkylink, { verify: true, responseType: "arraybuffer" });
+
+    expect(new Uint8Array(response.data as ArrayBuffer)).toEqual(content);
+    expect(requests[1]).toEqual(`${portalUrl}/${fanoutSkylink}?format=concat`);
+
+    const tampered = content.slice();
+    tampered[150] = 0;
+    const tamperedClient = new SkynetClient(portalUrl, {
+      transport: createTransport(requests, fanoutBaseSector, tampered),
+    });
+
+    await expect(tamperedClient.getFileContent(fanoutSkylink, { verify: true })).rejects.toThrowError(
+      "Piece 0 of chunk 0 does not match the Merkle root in the fanout"
+    );
+  });
+
+  it("should return the file at the given path", async () => {
+    const dirData = stringToUint8ArrayUtf8("foobar");
+    const dirMetadata = {
+      filename: "dir",
+      subfiles: {
+        "a.txt": { contenttype: "text/plain", offset: 0, len: 3 },
+        "b.json": { contenttype: "application/json", offset: 3, len: 3 },
+      },
+    };
+    const dirBaseSector = buildBaseSector(dirData, dirMetadata);
+    const dirSkylink = getSkylink(dirBaseSector);
+    const client = new SkynetClient(portalUrl, { transport: createTransport(requests, dirBaseSector) });
+
+    const response = await client.getFileContent(dirSkylink, { verify: true, path: "b.json" });
+
+    expect(response.data).toEqual("bar");
+    expect(response.contentType).toEqual("application/json");
+    await expect(client.getFileContent(dirSkylink, { verify: true })).rejects.toThrowError(
+      "Verified downloads of skyfiles with multiple files require a path or a default path"
+    );
+  });
+
+  describe("v2 skylinks", () => {
+    const { publicKey, privateKey } = genKeyPairFromSeed("verified download seed");
+    const dataKey = toHexString(hashDataKey("foo"));
+    const v2Skylink = newSkylinkV2(newEd25519PublicKey(publicKey), hashDataKey("foo")).toString();
+
+    /**
+     * Builds the registry proof of the v2 skylink.
+     *
+     * @param dataLink - The skylink stored in the entry.
+     * @param [revision] - The revision of the entry.
+     * @returns - The proof header.
+     */
+    async function buildProof(dataLink: string, revision = 1): Promise<string> {
+      const entryData = SiaSkylink.fromString(dataLink).toBytes();
+      const signature = await signEntry(privateKey, { dataKey, data: entryData, revision: BigInt(revision) }, true);
+      const entry = {
+        data: toHexString(entryData),
+        revision,
+        datakey: dataKey,
+        publickey: { algorithm: "ed25519", key: Buffer.from(publicKey, "hex").toString("base64") },
+        // Only the detached signature, without the signed message.
+        signature: toHexString(signature.slice(0, 64)),
+        type: 1,
+      };
+      return JSON.stringify([entry]);
+    }
+
+    it("should verify the registry proof", async () => {
+      const headers = { "skynet-skylink": skylink, "skynet-proof": await buildProof(skylink) };
+      const client = new SkynetClient(portalUrl, {
+        transport: createTransport(requests, baseSector, undefined, headers),
+      });
+
+      const response = await client.getFileContent(v2Skylink, { verify: true });
+
+      expect(response.data).toEqual("foo bar");
+      expect(response.skylink).toEqual(`sia://${skylink}`);
+      expect(requests).toEqual([`${portalUrl}/skynet/basesector/${v2Skylink}`]);
+    });
+
+    it("should throw if the signature of the registry proof is not valid", async () => {
+      // Sign a different revision than the one in the proof.
+      const proof = (await buildProof(skylink)).replace('"revision":1', '"revision":2');
+      const headers = { "skynet-skylink": skylink, "skynet-proof": proof };
+      const client = new SkynetClient(portalUrl, {
+        transport: createTransport(requests, baseSector, undefined, headers),
+      });
+
+      await expect(client.getFileContent(v2Skylink, { verify: true })).rejects.toThrowError(SignatureVerificationError);
+    });
+
+    it("should throw if the registry proof does not resolve to the returned skylink", async () => {
+      const otherSkylink = getSkylink(buildBaseSector(stringToUint8ArrayUtf8("baz"), metadata));
+      const headers = { "skynet-skylink": skylink, "skynet-proof": await buildProof(otherSkylink) };
+      const client = new SkynetClient(portalUrl, {
+        transport: createTransport(requests, baseSector, undefined, headers),
+      });
+
+      await expect(client.getFileContent(v2Skylink, { verify: true })).rejects.toThrowError(
+        `The registry proof resolves the v2 skylink to '${otherSkylink}' instead of '${skylink}'`
+      );
+    });
+
+    it("should throw if the portal does not return a registry proof", async () => {
+      const headers = { "skynet-skylink": skylink };
+      const client = new SkynetClient(portalUrl, {
+        transport: createTransport(requests, baseSector, undefined, headers),
+      });
+
+      await expect(client.getFileContent(v2Skylink, { verify: true })).rejects.toThrowError(ContentVerificationError);
+    });
+  });
+});
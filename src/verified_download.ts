@@ -0,0 +1,261 @@
+import { SkynetClient } from "./client";
+import {
+  CustomDownloadOptions,
+  DEFAULT_DOWNLOAD_OPTIONS,
+  GetFileContentResponse,
+  SkyfileMetadata,
+  SkyfileSubfileMetadata,
+} from "./download";
+import { ContentVerificationError, ValidationError } from "./errors";
+import { verifyResolutionProof } from "./registry_proof";
+import { convertResponseData } from "./segmented_download";
+import {
+  CIPHER_TYPE_PLAIN,
+  computeSectorMerkleRoot,
+  decodeSkyfileLayout,
+  SEGMENT_SIZE,
+  SKYFILE_LAYOUT_SIZE,
+  SkyfileLayout,
+} from "./skylink/compute";
+import { convertSkylinkToBase64, formatSkylink } from "./skylink/format";
+import { parseSkylink } from "./skylink/parse";
+import { isSkylinkV1, SECTOR_SIZE, SiaSkylink } from "./skylink/sia";
+import { toUint8Array } from "./utils/stream";
+import { toHexString, trimPrefix, uint8ArrayToStringUtf8 } from "./utils/string";
+
+/**
+ * The size of a Merkle root in the fanout.
+ */
+const FANOUT_ROOT_SIZE = 32;
+
+/**
+ * Downloads the file at the given URL and verifies it against the skylink
+ * before returning it. The base sector is checked against the Merkle root of
+ * the v1 skylink, and the content against the fanout in the base sector. For
+ * v2 skylinks, the registry proof returned by the portal is verified first.
+ *
+ * @param this - SkynetClient
+ * @param url - The URL of the file. Must contain the skylink.
+ * @param opts - The download options. `opts.verify` must be set.
+ * @returns - An object containing the verified data of the file, the content-type, the file's v1 skylink and the registry proof of v2 skylinks.
+ * @throws - Will throw a `ContentVerificationError` if the content does not match the skylink.
+ */
+export async function getFileContentVerified<T = unknown>(
+  this: SkynetClient,
+  url: string,
+  opts: CustomDownloadOptions & Pick<typeof DEFAULT_DOWNLOAD_OPTIONS, "endpointDownload" | "endpointBaseSector">
+): Promise<GetFileContentResponse<T>> {
+  if (opts.responseType === "stream" || opts.responseType === "document") {
+    throw new ValidationError(
+      `Response type '${opts.responseType}' is not supported by verified downloads`,
+      "responseType",
+      "option"
+    );
+  }
+  if (opts.range) {
+    throw new ValidationError("Range requests are not supported by verified downloads", "range", "option");
+  }
+  const [skylink, path] = parseSkylinkAndPath(url);
+
+  // Get the base sector, the portal resolves v2 skylinks.
+  const baseSectorResponse = await this.executeRequest({
+    ...opts,
+    endpointPath: opts.endpointBaseSector,
+    method: "get",
+    extraPath: skylink,
+    responseType: "arraybuffer",
+  });
+  const baseSector = toUint8Array(baseSectorResponse.data);
+  const proof = verifyResolutionProof(skylink, baseSectorResponse.headers, true);
+  const dataLink = proof ? baseSectorResponse.headers["skynet-skylink"] : skylink;
+  if (!isSkylinkV1(dataLink)) {
+    throw new ContentVerificationError(`Expected a v1 skylink or a resolved v2 skylink, was '${dataLink}'`, skylink);
+  }
+  const portalUrl = baseSectorResponse.headers["skynet-portal-api"] ?? "";
+
+  const siaSkylink = SiaSkylink.fromString(dataLink);
+  const [offset] = siaSkylink.offsetAndFetchSize();
+  if (offset !== 0) {
+    throw new ContentVerificationError(`Verifying skylinks with an offset is not supported, was '${offset}'`, skylink);
+  }
+  if (baseSector.length > SECTOR_SIZE) {
+    throw new ContentVerificationError(`The base sector of '${dataLink}' is larger than a sector`, skylink);
+  }
+  if (toHexString(computeSectorMerkleRoot(baseSector)) !== toHexString(siaSkylink.merkleRoot)) {
+    throw new ContentVerificationError(`The base sector does not match the Merkle root of '${dataLink}'`, skylink);
+  }
+
+  // The base sector is verified, its layout and metadata can be trusted.
+  const layout = decodeSkyfileLayout(baseSector);
+  if (layout.version !== 1 || toHexString(layout.cipherType) !== toHexString(CIPHER_TYPE_PLAIN)) {
+    throw new ContentVerificationError("Verifying encrypted or unknown skyfiles is not supported", skylink);
+  }
+  const fanoutEnd = SKYFILE_LAYOUT_SIZE + layout.fanoutSize;
+  const metadataEnd = fanoutEnd + layout.metadataSize;
+  let metadata: SkyfileMetadata;
+  try {
+    metadata = JSON.parse(uint8ArrayToStringUtf8(baseSector.subarray(fanoutEnd, metadataEnd)));
+  } catch {
+    throw new ContentVerificationError(`Could not parse the metadata of '${dataLink}'`, skylink);
+  }
+
+  let content: Uint8Array;
+  if (layout.fanoutSize === 0) {
+    content = baseSector.subarray(metadataEnd, metadataEnd + layout.filesize);
+  } else {
+    // Get the content of the whole skyfile, files are selected below.
+    const response = await this.executeRequest({
+      ...opts,
+      endpointPath: opts.endpointDownload,
+      method: "get",
+      extraPath: dataLink,
+      query: { format: "concat" },
+      responseType: "arraybuffer",
+    });
+    content = toUint8Array(response.data);
+    verifyFanout(content, layout, baseSector.subarray(SKYFILE_LAYOUT_SIZE, fanoutEnd), skylink);
+  }
+  if (content.length !== layout.filesize) {
+    throw new ContentVerificationError(
+      `Expected the content of '${dataLink}' to be ${layout.filesize} bytes, was ${content.length} bytes`,
+      skylink
+    );
+  }
+
+  const subfile = selectSubfile(metadata, path);
+  if (subfile) {
+    const offset = subfile.offset ?? 0;
+    content = content.subarray(offset, offset + subfile.len);
+  }
+  const contentType = subfile?.contenttype ?? "";
+
+  return {
+    data: convertResponseData(content, contentType, opts.responseType) as T,
+    contentType,
+    portalUrl,
+    skylink: formatSkylink(dataLink),
+    proof,
+  };
+}
+
+/**
+ * Parses the skylink of a file URL, in the path or the subdomain.
+ *
+ * @param url - The URL.
+ * @returns - The base64 skylink, or null if the URL does not contain a skylink, e.g. for HNS URLs.
+ */
+export function parseSkylinkFromUrl(url: string): string | null {
+  const skylink = parseSkylink(url);
+  if (skylink) {
+    return skylink;
+  }
+  const base32Skylink = parseSkylink(url, { fromSubdomain: true });
+  return base32Skylink && convertSkylinkToBase64(base32Skylink);
+}
+
+/**
+ * Parses the skylink and the path of a file URL.
+ *
+ * @param url - The URL.
+ * @returns - The base64 skylink and the path, without leading slash.
+ * @throws - Will throw if the URL does not contain a skylink.
+ */
+function parseSkylinkAndPath(url: string): [string, string] {
+  const skylink = parseSkylinkFromUrl(url);
+  if (!skylink) {
+    throw new ValidationError(
+      `Verified downloads require a URL containing a skylink, was '${url}'`,
+      "url",
+      "parameter"
+    );
+  }
+  const path = parseSkylink(url, { onlyPath: true }) ?? "";
+  return [skylink, trimPrefix(path, "/")];
+}
+
+/**
+ * Verifies the content of a skyfile against the Merkle roots in its fanout.
+ * Matches how skyd erasure codes the chunks of a skyfile: the data pieces of a
+ * chunk are built from stripes of segments.
+ *
+ * @param content - The content of the skyfile.
+ * @param layout - The layout of the skyfile.
+ * @param fanout - The fanout of the skyfile.
+ * @param skylink - The requested skylink, for errors.
+ * @throws - Will throw if the content does not match the fanout.
+ */
+function verifyFanout(content: Uint8Array, layout: SkyfileLayout, fanout: Uint8Array, skylink: string): void {
+  const dataPieces = layout.fanoutDataPieces;
+  if (dataPieces === 0) {
+    throw new ContentVerificationError("Expected the fanout to have data pieces", skylink);
+  }
+  // Skyd only stores one root per chunk if all pieces are the same.
+  const rootsPerChunk = dataPieces === 1 ? 1 : dataPieces + layout.fanoutParityPieces;
+  const chunkSize = dataPieces * SECTOR_SIZE;
+  const numChunks = Math.max(Math.ceil(content.length / chunkSize), 1);
+  if (fanout.length !== numChunks * rootsPerChunk * FANOUT_ROOT_SIZE) {
+    throw new ContentVerificationError(
+      `Expected the fanout to contain the roots of ${numChunks} chunks, was ${fanout.length} bytes`,
+      skylink
+    );
+  }
+
+  const stripeSize = dataPieces * SEGMENT_SIZE;
+  for (let chunk = 0; chunk < numChunks; chunk++) {
+    const chunkData = content.subarray(chunk * chunkSize, (chunk + 1) * chunkSize);
+    for (let piece = 0; piece < dataPieces; piece++) {
+      let pieceData: Uint8Array;
+      if (dataPieces === 1) {
+        pieceData = chunkData;
+      } else {
+        pieceData = new Uint8Array(Math.ceil(chunkData.length / stripeSize) * SEGMENT_SIZE);
+        for (let stripe = 0; stripe * stripeSize < chunkData.length; stripe++) {
+          const start = stripe * stripeSize + piece * SEGMENT_SIZE;
+          pieceData.set(chunkData.subarray(start, start + SEGMENT_SIZE), stripe * SEGMENT_SIZE);
+        }
+      }
+
+      const rootOffset = (chunk * rootsPerChunk + piece) * FANOUT_ROOT_SIZE;
+      const root = fanout.subarray(rootOffset, rootOffset + FANOUT_ROOT_SIZE);
+      if (toHexString(computeSectorMerkleRoot(pieceData)) !== toHexString(root)) {
+        throw new ContentVerificationError(
+          `Piece ${piece} of chunk ${chunk} does not match the Merkle root in the fanout`,
+          skylink
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Selects the file to return from the metadata of a skyfile, like skyd does
+ * for downloads.
+ *
+ * @param metadata - The verified metadata of the skyfile.
+ * @param path - The requested path, without leading slash.
+ * @returns - The file, or undefined if the whole content of the skyfile should be returned.
+ * @throws - Will throw if the path does not exist or the skyfile has multiple files and no path was requested.
+ */
+function selectSubfile(metadata: SkyfileMetadata, path: string): SkyfileSubfileMetadata | undefined {
+  const subfiles = metadata.subfiles ?? {};
+  if (!path && metadata.defaultpath) {
+    path = trimPrefix(metadata.defaultpath, "/");
+  }
+  if (path) {
+    const subfile = subfiles[path];
+    if (!subfile) {
+      throw new ValidationError(`The skyfile does not contain a file at path '${path}'`, "path", "option");
+    }
+    return subfile;
+  }
+
+  const files = Object.values(subfiles);
+  if (files.length > 1) {
+    throw new ValidationError(
+      "Verified downloads of skyfiles with multiple files require a path or a default path",
+      "path",
+      "option"
+    );
+  }
+  return files[0];
+}
@@ -1,4 +1,6 @@
+import { defaultOptions, HttpRequest, HttpResponse } from "tus-js-client";
 import parse from "url-parse";
+import { readBlob } from "../src/utils/file";
 import { trimForwardSlash } from "../src/utils/string";
 
 /**
@@ -69,3 +71,74 @@ export function extractNonSkylinkPath(url: string, skylink: string): string {
   }
   return path;
 }
+
+/**
+ * A request sent by tus-js-client to the fake tus server.
+ */
+export type TusServerRequest = {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+};
+
+/**
+ * Replaces the HTTP stack of tus-js-client with a fake tus server which
+ * accepts every upload, including concatenated parallel uploads. Also lets the
+ * Node.js build of tus-js-client read the Blobs of jsdom. Restore the mocks
+ * with `jest.restoreAllMocks`.
+ *
+ * @param endpoint - The tus endpoint. Uploads are created below it.
+ * @returns - The requests sent by tus-js-client.
+ */
+export function mockTusServer(endpoint: string): TusServerRequest[] {
+  const requests: TusServerRequest[] = [];
+  let nextId = 0;
+
+  const { fileReader, httpStack } = defaultOptions as Required<typeof defaultOptions>;
+  const openFile = fileReader.openFile.bind(fileReader);
+  jest.spyOn(fileReader, "openFile").mockImplementation(async (input, chunkSize) => {
+    if (input instanceof Blob) {
+      input = Buffer.from(await readBlob(input));
+    }
+    return openFile(input, chunkSize);
+  });
+
+  jest.spyOn(httpStack, "createRequest").mockImplementation((method: string, url: string) => {
+    const headers: Record<string, string> = {};
+    const request: HttpRequest = {
+      getMethod: () => method,
+      getURL: () => url,
+      setHeader: (header, value) => {
+        headers[header] = value;
+      },
+      getHeader: (header) => headers[header],
+      setProgressHandler: () => undefined,
+      send: async (body) => {
+        requests.push({ method, url, headers });
+        const responseHeaders: Record<string, string> = {};
+        let status = 204;
+        if (method === "POST") {
+          status = 201;
+          responseHeaders.Location = headers["Upload-Concat"]?.startsWith("final")
+            ? `${endpoint}/final`
+            : `${endpoint}/${nextId++}`;
+        } else if (method === "PATCH") {
+          const offset = parseInt(headers["Upload-Offset"], 10) + (body?.length ?? 0);
+          responseHeaders["Upload-Offset"] = String(offset);
+        }
+        const response: HttpResponse = {
+          getStatus: () => status,
+          getHeader: (header) => responseHeaders[header],
+          getBody: () => "",
+          getUnderlyingObject: () => ({}),
+        };
+        return response;
+      },
+      abort: async () => undefined,
+      getUnderlyingObject: () => ({}),
+    };
+    return request;
+  });
+
+  return requests;
+}